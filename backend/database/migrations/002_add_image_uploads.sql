@@ -0,0 +1,22 @@
+-- Migration: Add resumable image upload sessions
+-- Created: 2026-10-19
+-- Description: Track partially received image uploads so clients can resume them in chunks
+
+CREATE TABLE IF NOT EXISTS image_uploads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    file_path TEXT NOT NULL,
+    total_size BIGINT NOT NULL,
+    received BIGINT NOT NULL DEFAULT 0,
+    mime_type VARCHAR(100) NOT NULL,
+    details JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_user_image_uploads ON image_uploads(user_id, created_at);
+
+-- Insert migration record
+INSERT INTO migrations (filename) VALUES ('002_add_image_uploads.sql')
+ON CONFLICT (filename) DO NOTHING;
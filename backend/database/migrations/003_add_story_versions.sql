@@ -0,0 +1,10 @@
+-- Migration: Add story pages and versions
+-- Created: 2026-10-19
+-- Description: Store synced story pages and a version so concurrent edits are detected like projects
+
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS pages JSONB DEFAULT '[]';
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+
+-- Insert migration record
+INSERT INTO migrations (filename) VALUES ('003_add_story_versions.sql')
+ON CONFLICT (filename) DO NOTHING;
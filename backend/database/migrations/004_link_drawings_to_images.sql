@@ -0,0 +1,13 @@
+-- Migration: Link drawings to uploaded images
+-- Created: 2026-10-19
+-- Description: Drawing canvases are uploaded as images; drawings reference them instead of holding base64
+
+ALTER TABLE drawings ADD COLUMN IF NOT EXISTS image_id UUID REFERENCES images(id) ON DELETE SET NULL;
+ALTER TABLE drawings ALTER COLUMN canvas_data DROP NOT NULL;
+ALTER TABLE drawings ALTER COLUMN file_size DROP NOT NULL;
+ALTER TABLE drawings ALTER COLUMN width DROP NOT NULL;
+ALTER TABLE drawings ALTER COLUMN height DROP NOT NULL;
+
+-- Insert migration record
+INSERT INTO migrations (filename) VALUES ('004_link_drawings_to_images.sql')
+ON CONFLICT (filename) DO NOTHING;
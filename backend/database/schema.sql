@@ -54,11 +54,13 @@ CREATE TABLE stories (
     characters TEXT[],
     moral_lesson TEXT,
     image_prompts JSONB DEFAULT '[]',
+    pages JSONB DEFAULT '[]',
     metadata JSONB DEFAULT '{}',
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     word_count INTEGER DEFAULT 0,
-    page_count INTEGER DEFAULT 0
+    page_count INTEGER DEFAULT 0,
+    version INTEGER DEFAULT 1
 );
 
 -- Images table
@@ -81,17 +83,31 @@ CREATE TABLE images (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Resumable image uploads; rows go once the upload completes into images
+CREATE TABLE image_uploads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    file_path TEXT NOT NULL,
+    total_size BIGINT NOT NULL,
+    received BIGINT NOT NULL DEFAULT 0,
+    mime_type VARCHAR(100) NOT NULL,
+    details JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Drawings table
 CREATE TABLE drawings (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
     title VARCHAR(255),
-    canvas_data TEXT NOT NULL, -- Base64 encoded canvas data
+    image_id UUID REFERENCES images(id) ON DELETE SET NULL, -- Uploaded canvas
+    canvas_data TEXT, -- Base64 encoded canvas data, from before canvases were uploaded
     thumbnail_url TEXT,
-    file_size BIGINT NOT NULL,
-    width INTEGER NOT NULL,
-    height INTEGER NOT NULL,
+    file_size BIGINT,
+    width INTEGER,
+    height INTEGER,
     metadata JSONB DEFAULT '{}',
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -176,6 +192,7 @@ CREATE INDEX idx_user_stories ON stories(user_id, created_at);
 CREATE INDEX idx_user_images ON images(user_id, created_at);
 CREATE INDEX idx_project_images ON images(project_id);
 CREATE INDEX idx_image_type ON images(image_type);
+CREATE INDEX idx_user_image_uploads ON image_uploads(user_id, created_at);
 CREATE INDEX idx_user_drawings ON drawings(user_id, created_at);
 CREATE INDEX idx_project_drawings ON drawings(project_id);
 CREATE INDEX idx_user_keys ON user_api_keys(user_id, service_name);
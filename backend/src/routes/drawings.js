@@ -0,0 +1,198 @@
+const express = require('express');
+const path = require('path');
+const { query, withTransaction } = require('../database/connection');
+const { validateRequest } = require('../middleware/validation');
+const Joi = require('joi');
+
+const router = express.Router();
+
+// The canvas itself goes up through /api/images; a drawing record points at that image
+const drawingSchema = Joi.object({
+  localId: Joi.string().max(255).optional(),
+  projectId: Joi.string().max(255).optional(),
+  imageId: Joi.string().max(255).required(),
+  title: Joi.string().max(255).optional(),
+  metadata: Joi.object().default({})
+});
+
+const formatDrawing = (drawing) => ({
+  id: drawing.id,
+  projectId: drawing.project_id,
+  title: drawing.title,
+  imageId: drawing.image_id,
+  imageUrl: drawing.file_path ? `/${drawing.file_path.split(path.sep).join('/')}` : null,
+  fileSize: drawing.file_size === null ? null : Number(drawing.file_size),
+  metadata: drawing.metadata,
+  createdAt: drawing.created_at,
+  updatedAt: drawing.updated_at
+});
+
+// Clients send their own project ids; only one of the user's server projects is linked
+const resolveProjectId = async (client, projectId, userId) => {
+  if (!projectId) return null;
+  const result = await client.query(
+    'SELECT id FROM projects WHERE id::text = $1 AND user_id = $2',
+    [projectId, userId]
+  );
+  return result.rows[0]?.id || null;
+};
+
+const findImage = async (client, imageId, userId) => {
+  const result = await client.query(
+    'SELECT id, file_path, file_size FROM images WHERE id::text = $1 AND user_id = $2',
+    [imageId, userId]
+  );
+  if (result.rows.length === 0) {
+    throw new Error('Image not found');
+  }
+  return result.rows[0];
+};
+
+const metadataFor = (details) => JSON.stringify({
+  ...details.metadata,
+  localId: details.localId,
+  localProjectId: details.projectId
+});
+
+const imageNotFound = (res) => res.status(400).json({
+  error: 'Validation Error',
+  message: 'imageId must be an image uploaded by this user'
+});
+
+// List drawings for a project
+router.get('/', async (req, res) => {
+  try {
+    const { projectId } = req.query;
+    const result = await query(`
+      SELECT d.*, i.file_path
+      FROM drawings d
+      LEFT JOIN images i ON i.id = d.image_id
+      WHERE d.user_id = $1${projectId ? ' AND d.project_id::text = $2' : ''}
+      ORDER BY d.created_at DESC
+    `, projectId ? [req.user.id, projectId] : [req.user.id]);
+
+    res.json({ drawings: result.rows.map(formatDrawing) });
+
+  } catch (error) {
+    console.error('Get drawings error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve drawings'
+    });
+  }
+});
+
+// Save a drawing
+router.post('/', validateRequest(drawingSchema), async (req, res) => {
+  try {
+    const drawing = await withTransaction(async (client) => {
+      const image = await findImage(client, req.body.imageId, req.user.id);
+      const projectId = await resolveProjectId(client, req.body.projectId, req.user.id);
+
+      const result = await client.query(`
+        INSERT INTO drawings (user_id, project_id, title, image_id, file_size, metadata)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *
+      `, [req.user.id, projectId, req.body.title || null, image.id, image.file_size, metadataFor(req.body)]);
+
+      await client.query(
+        'INSERT INTO usage_logs (user_id, action_type, resource_id, metadata) VALUES ($1, $2, $3, $4)',
+        [req.user.id, 'drawing_saved', result.rows[0].id, { imageId: image.id }]
+      );
+
+      return { ...result.rows[0], file_path: image.file_path };
+    });
+
+    res.status(201).json({
+      message: 'Drawing saved successfully',
+      drawing: formatDrawing(drawing)
+    });
+
+  } catch (error) {
+    if (error.message === 'Image not found') {
+      return imageNotFound(res);
+    }
+
+    console.error('Save drawing error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to save drawing'
+    });
+  }
+});
+
+// Point a drawing at a newly uploaded canvas
+router.put('/:id', validateRequest(drawingSchema), async (req, res) => {
+  try {
+    const drawing = await withTransaction(async (client) => {
+      const image = await findImage(client, req.body.imageId, req.user.id);
+      const projectId = await resolveProjectId(client, req.body.projectId, req.user.id);
+
+      const result = await client.query(`
+        UPDATE drawings
+        SET project_id = $3, title = COALESCE($4, title), image_id = $5, file_size = $6,
+          metadata = $7, updated_at = CURRENT_TIMESTAMP
+        WHERE id::text = $1 AND user_id = $2
+        RETURNING *
+      `, [req.params.id, req.user.id, projectId, req.body.title || null, image.id, image.file_size, metadataFor(req.body)]);
+
+      if (result.rows.length === 0) {
+        throw new Error('Drawing not found');
+      }
+      return { ...result.rows[0], file_path: image.file_path };
+    });
+
+    res.json({
+      message: 'Drawing updated successfully',
+      drawing: formatDrawing(drawing)
+    });
+
+  } catch (error) {
+    if (error.message === 'Image not found') {
+      return imageNotFound(res);
+    }
+    if (error.message === 'Drawing not found') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Drawing not found'
+      });
+    }
+
+    console.error('Update drawing error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update drawing'
+    });
+  }
+});
+
+// Delete drawing; its image is deleted separately through /api/images
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await query(
+      'DELETE FROM drawings WHERE id::text = $1 AND user_id = $2 RETURNING id',
+      [req.params.id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Drawing not found'
+      });
+    }
+
+    res.json({
+      message: 'Drawing deleted successfully',
+      deletedDrawing: { id: result.rows[0].id }
+    });
+
+  } catch (error) {
+    console.error('Delete drawing error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete drawing'
+    });
+  }
+});
+
+module.exports = router;
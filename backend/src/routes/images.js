@@ -0,0 +1,370 @@
+const express = require('express');
+const fs = require('fs/promises');
+const path = require('path');
+const multer = require('multer');
+const { v4: uuidv4 } = require('uuid');
+const { query, withTransaction } = require('../database/connection');
+const { validateRequest } = require('../middleware/validation');
+const { checkUsageLimits } = require('../middleware/payment');
+const Joi = require('joi');
+
+const router = express.Router();
+
+// Stored under the directory server.js serves at /uploads
+const IMAGE_DIR = path.join('uploads', 'images');
+const UPLOAD_DIR = path.join('uploads', 'partial');
+const MAX_IMAGE_SIZE = 50 * 1024 * 1024;
+const MAX_CHUNK_SIZE = 5 * 1024 * 1024;
+
+const IMAGE_TYPES = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_SIZE },
+  fileFilter: (req, file, callback) => callback(null, !!IMAGE_TYPES[file.mimetype])
+});
+
+// Validation schemas
+const imageMetadataSchema = Joi.object({
+  localId: Joi.string().max(255).optional(),
+  projectId: Joi.string().max(255).optional(),
+  type: Joi.string().max(50).optional(),
+  metadata: Joi.object().default({})
+});
+
+const startUploadSchema = imageMetadataSchema.keys({
+  size: Joi.number().integer().min(1).max(MAX_IMAGE_SIZE).required(),
+  mimeType: Joi.string().valid(...Object.keys(IMAGE_TYPES)).required()
+});
+
+const formatImage = (image) => ({
+  id: image.id,
+  url: `/${image.file_path.split(path.sep).join('/')}`,
+  projectId: image.project_id,
+  type: image.image_type,
+  mimeType: image.mime_type,
+  fileSize: Number(image.file_size),
+  metadata: image.metadata,
+  createdAt: image.created_at
+});
+
+const formatUpload = (session) => ({
+  id: session.id,
+  received: Number(session.received),
+  total: Number(session.total_size)
+});
+
+// Clients send their own project ids; only one of the user's server projects is linked
+const resolveProjectId = async (client, projectId, userId) => {
+  if (!projectId) return null;
+  const result = await client.query(
+    'SELECT id FROM projects WHERE id::text = $1 AND user_id = $2',
+    [projectId, userId]
+  );
+  return result.rows[0]?.id || null;
+};
+
+const saveImage = async (client, userId, details, filePath, fileSize, mimeType) => {
+  const projectId = await resolveProjectId(client, details.projectId, userId);
+  const result = await client.query(`
+    INSERT INTO images (
+      user_id, project_id, filename, original_filename, file_path,
+      file_size, mime_type, image_type, metadata
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *
+  `, [
+    userId, projectId, path.basename(filePath), details.localId || null, filePath,
+    fileSize, mimeType, details.type || null,
+    JSON.stringify({ ...details.metadata, localId: details.localId, localProjectId: details.projectId })
+  ]);
+
+  await client.query(
+    'INSERT INTO usage_logs (user_id, action_type, resource_id, metadata) VALUES ($1, $2, $3, $4)',
+    [userId, 'image_uploaded', result.rows[0].id, { size: fileSize, mimeType }]
+  );
+
+  return result.rows[0];
+};
+
+const parseMetadataField = (value) => {
+  try {
+    return value ? JSON.parse(value) : {};
+  } catch {
+    return null;
+  }
+};
+
+// List images for a project
+router.get('/', async (req, res) => {
+  try {
+    const { projectId } = req.query;
+    const result = projectId
+      ? await query(
+          'SELECT * FROM images WHERE user_id = $1 AND project_id::text = $2 ORDER BY created_at DESC',
+          [req.user.id, projectId]
+        )
+      : await query('SELECT * FROM images WHERE user_id = $1 ORDER BY created_at DESC', [req.user.id]);
+
+    res.json({ images: result.rows.map(formatImage) });
+
+  } catch (error) {
+    console.error('Get images error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve images'
+    });
+  }
+});
+
+// Upload an image in one request
+router.post('/', checkUsageLimits('images_per_month'), upload.single('image'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'An image file (PNG, JPEG, WebP or SVG) is required'
+      });
+    }
+
+    const { error, value: details } = imageMetadataSchema.validate(parseMetadataField(req.body.metadata) || {}, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.message
+      });
+    }
+
+    const filePath = path.join(IMAGE_DIR, `${uuidv4()}.${IMAGE_TYPES[req.file.mimetype]}`);
+    await fs.mkdir(IMAGE_DIR, { recursive: true });
+    await fs.writeFile(filePath, req.file.buffer);
+
+    try {
+      const image = await withTransaction(client => saveImage(client, req.user.id, details, filePath, req.file.size, req.file.mimetype));
+      res.status(201).json({
+        message: 'Image uploaded successfully',
+        image: formatImage(image)
+      });
+    } catch (error) {
+      await fs.rm(filePath, { force: true });
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('Upload image error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to upload image'
+    });
+  }
+});
+
+// Start a resumable upload session
+router.post('/uploads', checkUsageLimits('images_per_month'), validateRequest(startUploadSchema), async (req, res) => {
+  try {
+    const { size, mimeType, ...details } = req.body;
+    const id = uuidv4();
+    const filePath = path.join(UPLOAD_DIR, id);
+
+    await fs.mkdir(UPLOAD_DIR, { recursive: true });
+    await fs.writeFile(filePath, Buffer.alloc(0));
+
+    const result = await query(`
+      INSERT INTO image_uploads (id, user_id, file_path, total_size, mime_type, details)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [id, req.user.id, filePath, size, mimeType, JSON.stringify(details)]);
+
+    res.status(201).json({
+      message: 'Upload started',
+      upload: formatUpload(result.rows[0])
+    });
+
+  } catch (error) {
+    console.error('Start upload error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to start upload'
+    });
+  }
+});
+
+// How much of an upload the server has, so a client can resume after a reload
+router.get('/uploads/:id', async (req, res) => {
+  try {
+    const result = await query(
+      'SELECT * FROM image_uploads WHERE id::text = $1 AND user_id = $2',
+      [req.params.id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Upload not found'
+      });
+    }
+
+    res.json({ upload: formatUpload(result.rows[0]) });
+
+  } catch (error) {
+    console.error('Get upload error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve upload'
+    });
+  }
+});
+
+// Append one byte range; it must start where the server's copy ends
+router.put('/uploads/:id', express.raw({ type: 'application/octet-stream', limit: MAX_CHUNK_SIZE }), async (req, res) => {
+  try {
+    const range = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(req.get('Content-Range') || '');
+    if (!range || !Buffer.isBuffer(req.body)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Send the chunk as application/octet-stream with a Content-Range header'
+      });
+    }
+
+    const [start, end, total] = range.slice(1).map(Number);
+    const session = await withTransaction(async (client) => {
+      // Locked so two requests for the same session can't interleave their appends
+      const result = await client.query(
+        'SELECT * FROM image_uploads WHERE id::text = $1 AND user_id = $2 FOR UPDATE',
+        [req.params.id, req.user.id]
+      );
+      const current = result.rows[0];
+      if (!current) {
+        throw new Error('Upload not found');
+      }
+
+      const received = Number(current.received);
+      if (start !== received || total !== Number(current.total_size) || end - start + 1 !== req.body.length || end >= total) {
+        return { ...current, mismatch: true };
+      }
+
+      // Bytes from an earlier append whose update never committed are dropped first
+      await fs.truncate(current.file_path, received);
+      await fs.appendFile(current.file_path, req.body);
+      const updated = await client.query(
+        'UPDATE image_uploads SET received = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *',
+        [received + req.body.length, current.id]
+      );
+      return updated.rows[0];
+    });
+
+    if (session.mismatch) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: `Expected bytes from ${Number(session.received)} of ${Number(session.total_size)}`,
+        upload: formatUpload(session)
+      });
+    }
+
+    res.json({ upload: formatUpload(session) });
+
+  } catch (error) {
+    if (error.message === 'Upload not found') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Upload not found'
+      });
+    }
+
+    console.error('Upload chunk error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to store upload chunk'
+    });
+  }
+});
+
+// Turn a fully received upload into an image
+router.post('/uploads/:id/complete', async (req, res) => {
+  try {
+    const image = await withTransaction(async (client) => {
+      const result = await client.query(
+        'SELECT * FROM image_uploads WHERE id::text = $1 AND user_id = $2 FOR UPDATE',
+        [req.params.id, req.user.id]
+      );
+      const session = result.rows[0];
+      if (!session) {
+        throw new Error('Upload not found');
+      }
+      if (Number(session.received) !== Number(session.total_size)) {
+        throw new Error('Upload incomplete');
+      }
+
+      const filePath = path.join(IMAGE_DIR, `${session.id}.${IMAGE_TYPES[session.mime_type]}`);
+      const saved = await saveImage(client, req.user.id, session.details, filePath, Number(session.total_size), session.mime_type);
+      await client.query('DELETE FROM image_uploads WHERE id = $1', [session.id]);
+
+      // Moved last, so a failure before this leaves the session to complete again
+      await fs.mkdir(IMAGE_DIR, { recursive: true });
+      await fs.rename(session.file_path, filePath);
+      return saved;
+    });
+
+    res.status(201).json({
+      message: 'Image uploaded successfully',
+      image: formatImage(image)
+    });
+
+  } catch (error) {
+    if (error.message === 'Upload not found') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Upload not found'
+      });
+    }
+    if (error.message === 'Upload incomplete') {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Upload is missing bytes'
+      });
+    }
+
+    console.error('Complete upload error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to complete upload'
+    });
+  }
+});
+
+// Delete image
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await query(
+      'DELETE FROM images WHERE id::text = $1 AND user_id = $2 RETURNING id, file_path',
+      [req.params.id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Image not found'
+      });
+    }
+
+    await fs.rm(result.rows[0].file_path, { force: true });
+
+    res.json({
+      message: 'Image deleted successfully',
+      deletedImage: { id: result.rows[0].id }
+    });
+
+  } catch (error) {
+    console.error('Delete image error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete image'
+    });
+  }
+});
+
+module.exports = router;
@@ -27,7 +27,9 @@ const updateProjectSchema = Joi.object({
   status: Joi.string().valid('draft', 'published', 'archived').optional(),
   pages: Joi.array().optional(),
   settings: Joi.object().optional(),
-  metadata: Joi.object().optional()
+  metadata: Joi.object().optional(),
+  // Version the client's edits started from; a different current version is a conflict
+  baseVersion: Joi.number().integer().min(1).optional()
 });
 
 // Get all projects for user
@@ -235,7 +237,7 @@ router.post('/', checkUsageLimits('projects'), validateRequest(createProjectSche
 router.put('/:id', validateRequest(updateProjectSchema), async (req, res) => {
   try {
     const { id } = req.params;
-    const updates = req.body;
+    const { baseVersion, ...updates } = req.body;
 
     // Build dynamic update query
     const updateFields = [];
@@ -269,16 +271,55 @@ router.put('/:id', validateRequest(updateProjectSchema), async (req, res) => {
     updateFields.push('updated_at = CURRENT_TIMESTAMP');
     updateFields.push('version = version + 1');
 
+    let versionCondition = '';
+    if (baseVersion !== undefined) {
+      queryParams.push(baseVersion);
+      versionCondition = ` AND version = $${queryParams.length}`;
+    }
+
     const updateQuery = `
       UPDATE projects 
       SET ${updateFields.join(', ')}
-      WHERE id = $1 AND user_id = $2
+      WHERE id = $1 AND user_id = $2${versionCondition}
       RETURNING *
     `;
 
     const result = await query(updateQuery, queryParams);
 
     if (result.rows.length === 0) {
+      const current = baseVersion !== undefined
+        ? await query(`
+            SELECT id, title, description, category, target_age_min, target_age_max,
+              status, pages, settings, metadata, created_at, updated_at, version
+            FROM projects
+            WHERE id = $1 AND user_id = $2
+          `, [id, req.user.id])
+        : { rows: [] };
+
+      if (current.rows.length > 0) {
+        const project = current.rows[0];
+        // Someone else saved first - send their copy back so the client can merge
+        return res.status(409).json({
+          error: 'Conflict',
+          message: `Project is at version ${project.version}, update was based on version ${baseVersion}`,
+          project: {
+            id: project.id,
+            title: project.title,
+            description: project.description,
+            category: project.category,
+            targetAgeMin: project.target_age_min,
+            targetAgeMax: project.target_age_max,
+            status: project.status,
+            pages: project.pages,
+            settings: project.settings,
+            metadata: project.metadata,
+            createdAt: project.created_at,
+            updatedAt: project.updated_at,
+            version: project.version
+          }
+        });
+      }
+
       return res.status(404).json({
         error: 'Not Found',
         message: 'Project not found'
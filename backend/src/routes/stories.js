@@ -0,0 +1,272 @@
+const express = require('express');
+const { query, withTransaction } = require('../database/connection');
+const { validateRequest } = require('../middleware/validation');
+const Joi = require('joi');
+
+const router = express.Router();
+
+// Validation schemas
+const createStorySchema = Joi.object({
+  projectId: Joi.string().max(255).required(),
+  title: Joi.string().max(255).optional(),
+  pages: Joi.array().default([]),
+  metadata: Joi.object().default({})
+});
+
+const updateStorySchema = Joi.object({
+  title: Joi.string().max(255).optional(),
+  pages: Joi.array().optional(),
+  metadata: Joi.object().optional(),
+  // Version the client's edits started from; a different current version is a conflict
+  baseVersion: Joi.number().integer().min(1).optional()
+});
+
+const STORY_COLUMNS = `
+  id, project_id, title, pages, metadata, word_count, page_count,
+  created_at, updated_at, version
+`;
+
+const formatStory = (story) => ({
+  id: story.id,
+  projectId: story.project_id,
+  title: story.title,
+  pages: story.pages,
+  metadata: story.metadata,
+  wordCount: story.word_count,
+  pageCount: story.page_count,
+  createdAt: story.created_at,
+  updatedAt: story.updated_at,
+  version: story.version
+});
+
+// The text columns are kept for search and stats; pages are the story itself
+const summarisePages = (pages) => {
+  const content = pages.map(page => (typeof page.story === 'string' ? page.story : '')).join('\n\n');
+  return {
+    content,
+    wordCount: content.split(/\s+/).filter(Boolean).length,
+    pageCount: pages.length
+  };
+};
+
+// Get all stories for a project
+router.get('/', async (req, res) => {
+  try {
+    const { projectId } = req.query;
+    const result = projectId
+      ? await query(
+          `SELECT ${STORY_COLUMNS} FROM stories WHERE user_id = $1 AND project_id::text = $2 ORDER BY created_at DESC`,
+          [req.user.id, projectId]
+        )
+      : await query(`SELECT ${STORY_COLUMNS} FROM stories WHERE user_id = $1 ORDER BY created_at DESC`, [req.user.id]);
+
+    res.json({ stories: result.rows.map(formatStory) });
+
+  } catch (error) {
+    console.error('Get stories error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve stories'
+    });
+  }
+});
+
+// Get single story
+router.get('/:id', async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT ${STORY_COLUMNS} FROM stories WHERE id::text = $1 AND user_id = $2`,
+      [req.params.id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Story not found'
+      });
+    }
+
+    res.json({ story: formatStory(result.rows[0]) });
+
+  } catch (error) {
+    console.error('Get story error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve story'
+    });
+  }
+});
+
+// Create new story under one of the user's projects
+router.post('/', validateRequest(createStorySchema), async (req, res) => {
+  try {
+    const { projectId, title, pages, metadata } = req.body;
+
+    const story = await withTransaction(async (client) => {
+      const projectResult = await client.query(
+        'SELECT id, title FROM projects WHERE id::text = $1 AND user_id = $2',
+        [projectId, req.user.id]
+      );
+      if (projectResult.rows.length === 0) {
+        throw new Error('Project not found');
+      }
+
+      const project = projectResult.rows[0];
+      const { content, wordCount, pageCount } = summarisePages(pages);
+      const storyResult = await client.query(`
+        INSERT INTO stories (
+          project_id, user_id, title, content, pages, metadata, word_count, page_count
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING ${STORY_COLUMNS}
+      `, [
+        project.id, req.user.id, title || project.title, content,
+        JSON.stringify(pages), JSON.stringify(metadata), wordCount, pageCount
+      ]);
+
+      await client.query(
+        'INSERT INTO usage_logs (user_id, action_type, resource_id, metadata) VALUES ($1, $2, $3, $4)',
+        [req.user.id, 'story_created', storyResult.rows[0].id, { projectId: project.id }]
+      );
+
+      return storyResult.rows[0];
+    });
+
+    res.status(201).json({
+      message: 'Story created successfully',
+      story: formatStory(story)
+    });
+
+  } catch (error) {
+    if (error.message === 'Project not found') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Project not found'
+      });
+    }
+
+    console.error('Create story error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create story'
+    });
+  }
+});
+
+// Update story
+router.put('/:id', validateRequest(updateStorySchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { baseVersion, title, pages, metadata } = req.body;
+
+    const updateFields = [];
+    const queryParams = [id, req.user.id];
+    const addField = (field, value) => {
+      queryParams.push(value);
+      updateFields.push(`${field} = $${queryParams.length}`);
+    };
+
+    if (title !== undefined) addField('title', title);
+    if (metadata !== undefined) addField('metadata', JSON.stringify(metadata));
+    if (pages !== undefined) {
+      const { content, wordCount, pageCount } = summarisePages(pages);
+      addField('pages', JSON.stringify(pages));
+      addField('content', content);
+      addField('word_count', wordCount);
+      addField('page_count', pageCount);
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'No valid fields to update'
+      });
+    }
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+    updateFields.push('version = version + 1');
+
+    let versionCondition = '';
+    if (baseVersion !== undefined) {
+      queryParams.push(baseVersion);
+      versionCondition = ` AND version = $${queryParams.length}`;
+    }
+
+    const result = await query(`
+      UPDATE stories
+      SET ${updateFields.join(', ')}
+      WHERE id::text = $1 AND user_id = $2${versionCondition}
+      RETURNING ${STORY_COLUMNS}
+    `, queryParams);
+
+    if (result.rows.length === 0) {
+      const current = baseVersion !== undefined
+        ? await query(`SELECT ${STORY_COLUMNS} FROM stories WHERE id::text = $1 AND user_id = $2`, [id, req.user.id])
+        : { rows: [] };
+
+      if (current.rows.length > 0) {
+        const story = current.rows[0];
+        // Someone else saved first - send their copy back so the client can merge
+        return res.status(409).json({
+          error: 'Conflict',
+          message: `Story is at version ${story.version}, update was based on version ${baseVersion}`,
+          story: formatStory(story)
+        });
+      }
+
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Story not found'
+      });
+    }
+
+    const story = result.rows[0];
+
+    await query(
+      'INSERT INTO usage_logs (user_id, action_type, resource_id, metadata) VALUES ($1, $2, $3, $4)',
+      [req.user.id, 'story_updated', story.id, { updatedFields: Object.keys(req.body).filter(key => key !== 'baseVersion') }]
+    );
+
+    res.json({
+      message: 'Story updated successfully',
+      story: formatStory(story)
+    });
+
+  } catch (error) {
+    console.error('Update story error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update story'
+    });
+  }
+});
+
+// Delete story
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await query(
+      'DELETE FROM stories WHERE id::text = $1 AND user_id = $2 RETURNING id',
+      [req.params.id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Story not found'
+      });
+    }
+
+    res.json({
+      message: 'Story deleted successfully',
+      deletedStory: { id: result.rows[0].id }
+    });
+
+  } catch (error) {
+    console.error('Delete story error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete story'
+    });
+  }
+});
+
+module.exports = router;
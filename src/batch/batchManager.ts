@@ -1,5 +1,5 @@
 import { Project, APISettings } from '../types';
-import { advancedPublishing } from '../utils/advancedPublishing';
+import { pdfWorker } from '../utils/pdfWorker';
 import { AIService } from '../utils/aiService';
 import { errorTracker } from '../utils/errorTracking';
 
@@ -50,17 +50,25 @@ export class BatchManager {
 
     for (const project of projects) {
       try {
-        await advancedPublishing.generateKDPPDF({
+        const result = await pdfWorker.renderKDP({
           title: project.title,
           author: project.metadata?.author || 'Unknown',
           description: project.description,
           language: project.metadata?.language || 'en',
           pages: project.pages.map((p) => ({
             type: p.type,
+            heading: p.content.heading,
             content: p.content.text || '',
-            imageUrl: p.content.imageData
-          }))
+            imageUrl: p.content.imageData,
+            imagePrompt: p.content.imagePrompt
+          })),
+          typography: project.metadata?.typography,
+          frames: project.metadata?.pageFrames,
+          numbering: project.metadata?.pageNumbering
         });
+        if (!result.success) {
+          throw new Error(result.error || 'KDP PDF generation failed');
+        }
       } catch (err: any) {
         const message = err instanceof Error ? err.message : String(err);
         progress.errors.push({ projectId: project.id, message });
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { MatterPageType, Page, ProjectMetadata } from '../types';
+import {
+  FRONT_MATTER_TYPES,
+  BACK_MATTER_TYPES,
+  MATTER_PAGE_LABELS,
+  DEFAULT_AI_DISCLOSURE,
+  applyMatterPages,
+  getSuggestedMatterTypes,
+  isMatterPageType
+} from '../utils/frontMatter';
+
+interface FrontMatterEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId?: string;
+}
+
+type MatterDetails = Pick<
+  ProjectMetadata,
+  'author' | 'subtitle' | 'isbn' | 'edition' | 'publisher' | 'publicationYear' | 'dedication' | 'aboutAuthor' | 'aiDisclosure'
+> & { alsoBy: string };
+
+const FrontMatterEditor: React.FC<FrontMatterEditorProps> = ({ isOpen, onClose, projectId }) => {
+  const { projects, updateProject } = useAppStore();
+  const project = projects.find(p => p.id === projectId);
+
+  const [details, setDetails] = useState<MatterDetails>({ alsoBy: '' });
+  const [selectedTypes, setSelectedTypes] = useState<MatterPageType[]>([]);
+  const [regenerate, setRegenerate] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, { heading: string; text: string }>>({});
+
+  const matterPages = (project?.pages || []).filter(page => isMatterPageType(page.type));
+
+  useEffect(() => {
+    if (!isOpen || !project) return;
+
+    const metadata = project.metadata || {};
+    setDetails({
+      author: metadata.author || '',
+      subtitle: metadata.subtitle || '',
+      isbn: metadata.isbn || '',
+      edition: metadata.edition || '',
+      publisher: metadata.publisher || '',
+      publicationYear: metadata.publicationYear || new Date().getFullYear(),
+      dedication: metadata.dedication || '',
+      aboutAuthor: metadata.aboutAuthor || '',
+      aiDisclosure: metadata.aiDisclosure ?? DEFAULT_AI_DISCLOSURE,
+      alsoBy: (metadata.alsoBy || []).join('\n')
+    });
+    setSelectedTypes(getSuggestedMatterTypes(project));
+    setRegenerate(false);
+  }, [isOpen, projectId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const next: Record<string, { heading: string; text: string }> = {};
+    matterPages.forEach(page => {
+      next[page.id] = { heading: page.content.heading || '', text: page.content.text || '' };
+    });
+    setDrafts(next);
+  }, [isOpen, project?.pages]);
+
+  if (!isOpen || !project) return null;
+
+  const updateDetails = (updates: Partial<MatterDetails>) => {
+    setDetails(prev => ({ ...prev, ...updates }));
+  };
+
+  const toggleType = (type: MatterPageType, checked: boolean) => {
+    setSelectedTypes(prev => (checked ? [...prev, type] : prev.filter(t => t !== type)));
+  };
+
+  const buildMetadata = (): ProjectMetadata => {
+    const { alsoBy, ...rest } = details;
+    return {
+      ...project.metadata,
+      ...rest,
+      alsoBy: alsoBy.split('\n').map(title => title.trim()).filter(Boolean)
+    };
+  };
+
+  const generatePages = async () => {
+    const metadata = buildMetadata();
+    const pages = applyMatterPages({ ...project, metadata }, selectedTypes, regenerate);
+    await updateProject(project.id, { metadata, pages });
+  };
+
+  const savePageEdits = async () => {
+    const now = new Date().toISOString();
+    const pages: Page[] = project.pages.map(page => {
+      const draft = drafts[page.id];
+      if (!draft || (draft.heading === (page.content.heading || '') && draft.text === (page.content.text || ''))) {
+        return page;
+      }
+      return { ...page, content: { ...page.content, ...draft }, updatedAt: now };
+    });
+    await updateProject(project.id, { pages });
+  };
+
+  const removePage = async (pageId: string) => {
+    await updateProject(project.id, { pages: project.pages.filter(page => page.id !== pageId) });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">📖 Front & Back Matter</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+              ×
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {/* Book details */}
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <h3 className="font-semibold text-gray-900 mb-3">Book Details</h3>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Author</label>
+                  <input value={details.author} onChange={(e) => updateDetails({ author: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Subtitle</label>
+                  <input value={details.subtitle} onChange={(e) => updateDetails({ subtitle: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Publisher</label>
+                  <input value={details.publisher} onChange={(e) => updateDetails({ publisher: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ISBN</label>
+                  <input value={details.isbn} onChange={(e) => updateDetails({ isbn: e.target.value })} className={inputClass} placeholder="978-..." />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Edition</label>
+                  <input value={details.edition} onChange={(e) => updateDetails({ edition: e.target.value })} className={inputClass} placeholder="First Edition" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Year</label>
+                  <input
+                    type="number"
+                    value={details.publicationYear || ''}
+                    onChange={(e) => updateDetails({ publicationYear: parseInt(e.target.value) || undefined })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Dedication</label>
+                  <textarea value={details.dedication} onChange={(e) => updateDetails({ dedication: e.target.value })} rows={2} className={inputClass} />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">About the Author</label>
+                  <textarea value={details.aboutAuthor} onChange={(e) => updateDetails({ aboutAuthor: e.target.value })} rows={3} className={inputClass} />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Also By (one title per line)</label>
+                  <textarea value={details.alsoBy} onChange={(e) => updateDetails({ alsoBy: e.target.value })} rows={3} className={inputClass} />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">AI-Assistance Disclosure</label>
+                  <textarea value={details.aiDisclosure} onChange={(e) => updateDetails({ aiDisclosure: e.target.value })} rows={2} className={inputClass} />
+                  <p className="text-xs text-gray-500 mt-1">Leave empty to omit the statement from the copyright page.</p>
+                </div>
+              </div>
+            </div>
+
+            {/* Page selection */}
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <h3 className="font-semibold text-blue-900 mb-3">Pages to Generate</h3>
+              <div className="grid gap-4 md:grid-cols-2 text-sm">
+                {[{ label: 'Front matter', types: FRONT_MATTER_TYPES }, { label: 'Back matter', types: BACK_MATTER_TYPES }].map(group => (
+                  <div key={group.label}>
+                    <div className="font-medium text-blue-800 mb-2">{group.label}</div>
+                    {group.types.map(type => (
+                      <label key={type} className="flex items-center mb-1">
+                        <input
+                          type="checkbox"
+                          checked={selectedTypes.includes(type)}
+                          onChange={(e) => toggleType(type, e.target.checked)}
+                          className="rounded"
+                        />
+                        <span className="ml-2">{MATTER_PAGE_LABELS[type]}</span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <label className="flex items-center mt-3 text-sm">
+                <input type="checkbox" checked={regenerate} onChange={(e) => setRegenerate(e.target.checked)} className="rounded" />
+                <span className="ml-2">Overwrite my edits on existing pages</span>
+              </label>
+              <button
+                onClick={generatePages}
+                disabled={selectedTypes.length === 0}
+                className="mt-4 w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+              >
+                Save Details & Generate Pages
+              </button>
+            </div>
+
+            {/* Editable pages */}
+            {matterPages.length > 0 && (
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h3 className="font-semibold text-gray-900 mb-3">Edit Pages</h3>
+                <div className="space-y-4">
+                  {matterPages.map(page => (
+                    <div key={page.id} className="border-b pb-4 last:border-b-0 last:pb-0">
+                      <div className="flex justify-between items-center mb-2">
+                        <span className="text-sm font-medium text-gray-700">
+                          {isMatterPageType(page.type) ? MATTER_PAGE_LABELS[page.type] : page.type}
+                        </span>
+                        <button onClick={() => removePage(page.id)} className="text-xs text-red-600 hover:text-red-700">
+                          Remove
+                        </button>
+                      </div>
+                      <input
+                        value={drafts[page.id]?.heading ?? ''}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [page.id]: { ...prev[page.id], heading: e.target.value } }))}
+                        className={`${inputClass} mb-2`}
+                        placeholder="Heading"
+                      />
+                      <textarea
+                        value={drafts[page.id]?.text ?? ''}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [page.id]: { ...prev[page.id], text: e.target.value } }))}
+                        rows={page.type === 'copyright' ? 6 : 3}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={savePageEdits}
+                  className="mt-4 w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 font-semibold"
+                >
+                  Save Page Edits
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FrontMatterEditor;
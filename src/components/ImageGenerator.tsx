@@ -3,6 +3,8 @@ import { Image, UploadCloud, Sparkles, Download } from 'lucide-react';
 import { useAppStore } from '../store/useAppStore';
 import { AIService } from '../utils/aiService';
 import { readFileAsDataURL, generateId, downloadFile } from '../utils/helpers';
+import { imageDataToBlob } from '../utils/pageImages';
+import { useImageSource } from '../utils/blobStore';
 
 interface GeneratedImage {
   id: string;
@@ -10,6 +12,12 @@ interface GeneratedImage {
   data: string;
 }
 
+// Saved images load as blob references, so each one resolves its own source
+const GeneratedImagePreview: React.FC<{ data: string }> = ({ data }) => {
+  const src = useImageSource(data);
+  return src ? <img src={src} alt="Generated" className="mb-2" /> : <div className="mb-2 aspect-square bg-gray-100 rounded animate-pulse" />;
+};
+
 const ImageGenerator: React.FC = () => {
   const {
     apiSettings,
@@ -97,8 +105,18 @@ const ImageGenerator: React.FC = () => {
     }
   };
 
-  const downloadImg = (img: GeneratedImage) => {
-    downloadFile(`data:image/png;base64,${img.data}`, `image-${img.id}.png`);
+  const downloadImg = async (img: GeneratedImage) => {
+    try {
+      // Base64 and stored images both come back as a typed Blob
+      const blob = await imageDataToBlob(img.data);
+      const extension = blob.type === 'image/svg+xml' ? 'svg' : blob.type === 'image/jpeg' ? 'jpg' : 'png';
+      const url = URL.createObjectURL(blob);
+      downloadFile(url, `image-${img.id}.${extension}`);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Image download failed:', err);
+      addNotification({ type: 'error', message: 'Could not download the image' });
+    }
   };
 
   if (!currentProject) {
@@ -142,7 +160,7 @@ const ImageGenerator: React.FC = () => {
         <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
           {images.map(img => (
             <div key={img.id} className="border rounded p-2 bg-white flex flex-col">
-              <img src={`data:image/png;base64,${img.data}`} alt="Generated" className="mb-2" />
+              <GeneratedImagePreview data={img.data} />
               <div className="text-xs text-gray-600 truncate mb-2">{img.prompt}</div>
               <button
                 onClick={() => downloadImg(img)}
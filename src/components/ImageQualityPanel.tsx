@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { AGE_BAND_LABELS, LineArtAnalysis, analyzePageImage, resolveAgeBand } from '../utils/imageAnalysis';
+import { getPrintPlatform, getPlatformGeometry } from '../utils/printPlatforms';
+import { getTrimSize, formatTrimSize } from '../utils/trimSizes';
+
+interface ImageQualityPanelProps {
+  imageData: string;
+  // "4-8" or "adult" from the story settings
+  ageGroup?: string;
+}
+
+// Pixel analysis runs on the main thread, so checks queue up and run one page at a time
+let analysisQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueAnalysis<T>(task: () => Promise<T>): Promise<T> {
+  const run = analysisQueue.then(task, task);
+  analysisQueue = run.catch(() => undefined);
+  return run;
+}
+
+const ImageQualityPanel: React.FC<ImageQualityPanelProps> = ({ imageData, ageGroup }) => {
+  const { exportSettings } = useAppStore();
+  // Checked on request rather than on mount, so long stories open without decoding every page
+  const [requested, setRequested] = useState(false);
+  const [analysis, setAnalysis] = useState<LineArtAnalysis | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const platform = getPrintPlatform(exportSettings.printPlatform);
+  const trimSize = getTrimSize(exportSettings.pageSize);
+  const ageBand = resolveAgeBand(ageGroup);
+
+  useEffect(() => {
+    if (!requested) return;
+
+    let cancelled = false;
+    setAnalysis(null);
+    setError(null);
+
+    // Coloring pages fill the safe area of the export trim
+    const geometry = getPlatformGeometry(platform, trimSize.id);
+    const area = {
+      x: geometry.bleed + geometry.margins.inner,
+      y: geometry.bleed + geometry.margins.top,
+      width: geometry.safeWidth,
+      height: geometry.safeHeight
+    };
+    const trim = { x: geometry.bleed, y: geometry.bleed, width: geometry.width, height: geometry.height };
+
+    // Skipped if the card went away while waiting its turn
+    enqueueAnalysis(() => cancelled ? Promise.resolve(null) : analyzePageImage(imageData, { area, trim, ageBand, minDPI: platform.files.minImageDPI }))
+      .then(result => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Image could not be analysed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requested, imageData, ageBand, platform.id, trimSize.id]);
+
+  if (!requested) {
+    return (
+      <button
+        onClick={() => setRequested(true)}
+        className="mt-3 text-xs text-blue-600 hover:text-blue-800"
+      >
+        🔍 Check print quality
+      </button>
+    );
+  }
+  if (error) {
+    return <div className="mt-3 text-xs text-red-600">⚠ Print check unavailable: {error}</div>;
+  }
+  if (!analysis) {
+    return <div className="mt-3 text-xs text-gray-500">Checking print quality...</div>;
+  }
+
+  const tone = analysis.score >= 85 ? 'green' : analysis.score >= 60 ? 'yellow' : 'red';
+  const toneClasses = {
+    green: 'bg-green-100 text-green-700',
+    yellow: 'bg-yellow-100 text-yellow-700',
+    red: 'bg-red-100 text-red-700'
+  }[tone];
+
+  return (
+    <div className="mt-3 bg-white border border-gray-200 rounded-lg p-3 text-xs">
+      <div className="flex items-center gap-2 mb-2">
+        <span className={`font-semibold px-2 py-1 rounded ${toneClasses}`}>Print quality {analysis.score}/100</span>
+        <span className="text-gray-500">
+          {platform.name} • {formatTrimSize(trimSize)} • {AGE_BAND_LABELS[ageBand]}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-gray-700 mb-2">
+        <span className="bg-gray-100 px-2 py-1 rounded">
+          🖨 {analysis.vector ? 'Vector' : `${analysis.effectiveDPI} DPI`}
+        </span>
+        <span className="bg-gray-100 px-2 py-1 rounded">
+          ✏️ {analysis.lineWidth ? `${analysis.lineWidth.median}pt lines (thinnest ${analysis.lineWidth.thinnest}pt)` : 'No outlines found'}
+        </span>
+        <span className="bg-gray-100 px-2 py-1 rounded">
+          🧩 {analysis.regions.total} areas{analysis.regions.tooSmall > 0 ? `, ${analysis.regions.tooSmall} too small` : ''}
+        </span>
+        {(analysis.hasGradients || analysis.hasColor) && (
+          <span className="bg-gray-100 px-2 py-1 rounded">
+            🎨 {Math.round((analysis.grayRatio + analysis.colorRatio) * 100)}% shaded
+          </span>
+        )}
+        {analysis.intoBleed && (
+          <span className="bg-gray-100 px-2 py-1 rounded">✂️ Runs into the bleed</span>
+        )}
+      </div>
+
+      {analysis.issues.length > 0 && (
+        <ul className="space-y-1">
+          {analysis.issues.map((issue, index) => (
+            <li key={index} className="text-gray-700">⚠ {issue}</li>
+          ))}
+          {analysis.suggestions.map((suggestion, index) => (
+            <li key={`tip-${index}`} className="text-gray-500">💡 {suggestion}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImageQualityPanel;
@@ -1,229 +1,64 @@
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../store/useAppStore';
-import { Project } from '../types';
-
-interface ComplianceRule {
-  id: string;
-  title: string;
-  description: string;
-  check: (project: Project) => { passed: boolean; message: string; details?: string[] };
-  category: 'content' | 'technical' | 'format' | 'legal';
-  severity: 'error' | 'warning' | 'info';
-}
-
-interface ComplianceResult {
-  rule: ComplianceRule;
-  passed: boolean;
-  message: string;
-  details?: string[];
-}
+import { Project, PrintPlatformId, ExportSettings, ComplianceResults } from '../types';
+import { checkCompliance, formatComplianceReport, ComplianceFix } from '../utils/compliance';
+import { getPrintPlatform, PRINT_PLATFORM_LABELS } from '../utils/printPlatforms';
+import { downloadFile } from '../utils/helpers';
 
 const KDPCompliance: React.FC = () => {
-  const { projects } = useAppStore();
+  const { projects, exportSettings, updateExportSettings, updateProject, addNotification, setComplianceResults } = useAppStore();
   const [selectedProject, setSelectedProject] = useState<string>('');
-  const [complianceResults, setComplianceResults] = useState<ComplianceResult[]>([]);
+  const [report, setReport] = useState<ComplianceResults | null>(null);
+  const [fixes, setFixes] = useState<Record<string, ComplianceFix>>({});
   const [isChecking, setIsChecking] = useState(false);
-  const [overallScore, setOverallScore] = useState(0);
 
-  const complianceRules: ComplianceRule[] = [
-    // Content Rules
-    {
-      id: 'page-count',
-      title: 'Minimum Page Count',
-      description: 'KDP requires at least 24 pages for paperback books',
-      category: 'content',
-      severity: 'error',
-      check: (project) => {
-        const pageCount = project.pages?.length || 0;
-        const totalPages = pageCount * 2; // Story + coloring pages
-        return {
-          passed: totalPages >= 24,
-          message: totalPages >= 24 
-            ? `✓ ${totalPages} pages meets minimum requirement`
-            : `✗ Only ${totalPages} pages, need at least 24`,
-          details: totalPages < 24 ? [
-            'Add more story chapters',
-            'Include additional coloring pages',
-            'Add front/back matter (title page, copyright, etc.)'
-          ] : undefined
-        };
-      }
-    },
-    {
-      id: 'content-appropriateness',
-      title: 'Content Appropriateness',
-      description: 'Content must be appropriate for all ages and follow KDP guidelines',
-      category: 'content',
-      severity: 'error',
-      check: (project) => {
-        const pages = project.pages;
-        if (!pages || pages.length === 0) return { passed: false, message: '✗ No story content to check' };
-        
-        // Check for inappropriate content keywords
-        const content = JSON.stringify(pages).toLowerCase();
-        const flaggedWords = ['violence', 'weapon', 'inappropriate', 'adult'];
-        const found = flaggedWords.filter(word => content.includes(word));
-        
-        return {
-          passed: found.length === 0,
-          message: found.length === 0 
-            ? '✓ Content appears appropriate for all ages'
-            : `⚠ Content may need review`,
-          details: found.length > 0 ? [
-            'Review content for age-appropriateness',
-            'Ensure compliance with KDP content guidelines',
-            'Consider family-friendly alternatives'
-          ] : undefined
-        };
-      }
-    },
-    
-    // Technical Rules
-    {
-      id: 'image-resolution',
-      title: 'Image Resolution',
-      description: 'Images should be at least 300 DPI for print quality',
-      category: 'technical',
-      severity: 'warning',
-      check: (project) => {
-        // Simulate image resolution check
-        const hasImages = project.pages?.some((_page: any) => (_page as any).imagePrompt);
-        return {
-          passed: true, // Assume SVG images are scalable
-          message: hasImages 
-            ? '✓ SVG images are resolution-independent'
-            : '⚠ No images found to check',
-          details: hasImages ? [
-            'SVG format ensures crisp printing at any size',
-            'Consider adding more images for better engagement'
-          ] : ['Add coloring page images to your story']
-        };
-      }
-    },
-    {
-      id: 'bleed-margins',
-      title: 'Bleed and Margins',
-      description: 'Proper margins and bleed areas for professional printing',
-      category: 'technical',
-      severity: 'warning',
-      check: () => ({
-        passed: true,
-        message: '✓ PDF export includes proper margins and bleed',
-        details: [
-          '0.25" bleed on all sides',
-          '0.75" inner margins, 0.5" outer margins',
-          'Text kept within safe zones'
-        ]
-      })
-    },
-    
-    // Format Rules
-    {
-      id: 'file-format',
-      title: 'File Format Compliance',
-      description: 'Files must be in acceptable formats (PDF for interior)',
-      category: 'format',
-      severity: 'error',
-      check: () => ({
-        passed: true,
-        message: '✓ App exports print-ready PDF format',
-        details: [
-          'PDF/X-1a:2001 compatible',
-          'CMYK color mode for printing',
-          'Embedded fonts and flattened transparency'
-        ]
-      })
-    },
-    {
-      id: 'spine-width',
-      title: 'Spine Width Calculation',
-      description: 'Spine width must match page count and paper type',
-      category: 'format',
-      severity: 'info',
-      check: (project) => {
-        const pageCount = (project.pages?.length || 0) * 2;
-        const spineWidth = Math.max(0.06, pageCount * 0.0025); // Approximate calculation
-        return {
-          passed: true,
-          message: `ℹ Estimated spine width: ${spineWidth.toFixed(3)}"`,
-          details: [
-            `Based on ${pageCount} pages`,
-            'Use KDP cover template for exact measurements',
-            'Spine width affects cover design requirements'
-          ]
-        };
-      }
-    },
-    
-    // Legal Rules
-    {
-      id: 'copyright-page',
-      title: 'Copyright Information',
-      description: 'Books should include proper copyright information',
-      category: 'legal',
-      severity: 'warning',
-      check: (project) => ({
-        passed: !!project.metadata?.author,
-        message: project.metadata?.author 
-          ? '✓ Author information available for copyright page'
-          : '⚠ Add author information for copyright page',
-        details: [
-          'Include copyright notice (© Year Author Name)',
-          'Add "All rights reserved" statement',
-          'Consider ISBN if planning wide distribution'
-        ]
-      })
-    },
-    {
-      id: 'keyword-compliance',
-      title: 'Keyword and Category Compliance',
-      description: 'Title and keywords should accurately represent content',
-      category: 'legal',
-      severity: 'info',
-      check: (project) => {
-        const hasTitle = !!project.title;
-        const hasDescription = !!project.description;
-        return {
-          passed: hasTitle && hasDescription,
-          message: hasTitle && hasDescription
-            ? '✓ Title and description available for accurate categorization'
-            : 'ℹ Add detailed title and description',
-          details: [
-            'Use relevant keywords in title',
-            'Choose appropriate KDP categories',
-            'Avoid misleading descriptions'
-          ]
-        };
-      }
-    }
-  ];
+  // Validate against the same trim and platform the PDF export uses
+  const platform = getPrintPlatform(exportSettings.printPlatform);
 
-  const checkCompliance = async () => {
-    if (!selectedProject) return;
-    
+  const runCheck = async (project: Project, settings: ExportSettings) => {
     setIsChecking(true);
+    try {
+      const run = await checkCompliance(project, settings);
+      setReport(run.report);
+      setFixes(run.fixes);
+      setComplianceResults(run.report);
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        message: `❌ ${error instanceof Error ? error.message : 'Compliance check failed'}`
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const runComplianceCheck = () => {
     const project = projects.find(p => p.id === selectedProject);
-    if (!project) return;
+    if (project) runCheck(project, exportSettings);
+  };
 
-    // Simulate checking time for better UX
-    await new Promise(resolve => setTimeout(resolve, 1500));
+  // Apply through the store, then re-check against the updated book
+  const applyFix = (fix: ComplianceFix) => {
+    const project = projects.find(p => p.id === selectedProject);
+    if (!project) return;
 
-    const results = complianceRules.map(rule => ({
-      rule,
-      ...rule.check(project)
-    }));
+    if (fix.exportSettings) updateExportSettings(fix.exportSettings);
+    if (fix.project) updateProject(project.id, fix.project);
+    addNotification({ type: 'success', message: `✅ ${fix.label}` });
+    runCheck({ ...project, ...fix.project }, { ...exportSettings, ...fix.exportSettings });
+  };
 
-    setComplianceResults(results);
-    
-    // Calculate overall score
-    const totalRules = results.length;
-    const passedRules = results.filter(r => r.passed).length;
-    const score = Math.round((passedRules / totalRules) * 100);
-    setOverallScore(score);
-    
-    setIsChecking(false);
+  const exportReport = (format: 'json' | 'txt') => {
+    if (!report) return;
+    const blob = format === 'json'
+      ? new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+      : new Blob([formatComplianceReport(report)], { type: 'text/plain' });
+    downloadFile(URL.createObjectURL(blob), `${report.projectTitle.replace(/[^a-zA-Z0-9]/g, '_')}_${report.platform}_Compliance.${format}`);
   };
 
+  const complianceResults = report?.checks || [];
+  const overallScore = report?.score || 0;
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600';
     if (score >= 60) return 'text-yellow-600';
@@ -265,7 +100,7 @@ const KDPCompliance: React.FC = () => {
 
   return (
     <div className="max-w-6xl mx-auto">
-      <h1 className="text-3xl font-bold text-gray-900 mb-6">✅ Amazon KDP Compliance Checker</h1>
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">✅ {platform.name} Compliance Checker</h1>
       
       {/* Project Selection */}
       <div className="bg-white rounded-lg shadow-md p-6 mb-6">
@@ -288,8 +123,25 @@ const KDPCompliance: React.FC = () => {
               ))}
             </select>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Print platform
+            </label>
+            <select
+              value={platform.id}
+              onChange={(e) => {
+                updateExportSettings({ printPlatform: e.target.value as PrintPlatformId });
+                setReport(null);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(PRINT_PLATFORM_LABELS) as PrintPlatformId[]).map(id => (
+                <option key={id} value={id}>{PRINT_PLATFORM_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
           <button
-            onClick={checkCompliance}
+            onClick={runComplianceCheck}
             disabled={!selectedProject || isChecking}
             className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -311,7 +163,21 @@ const KDPCompliance: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <h2 className="text-xl font-semibold mb-2">Compliance Score</h2>
-              <p className="text-gray-600">Overall readiness for KDP publishing</p>
+              <p className="text-gray-600">Overall readiness for {platform.name} publishing</p>
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={() => exportReport('txt')}
+                  className="text-sm border border-gray-300 px-3 py-1 rounded hover:bg-gray-50"
+                >
+                  📄 Export Report
+                </button>
+                <button
+                  onClick={() => exportReport('json')}
+                  className="text-sm border border-gray-300 px-3 py-1 rounded hover:bg-gray-50"
+                >
+                  {'{ }'} JSON
+                </button>
+              </div>
             </div>
             <div className={`text-center p-6 rounded-lg ${getScoreBg(overallScore)}`}>
               <div className={`text-4xl font-bold ${getScoreColor(overallScore)}`}>
@@ -349,7 +215,7 @@ const KDPCompliance: React.FC = () => {
       {complianceResults.length > 0 && (
         <div className="grid gap-6 lg:grid-cols-2">
           {['content', 'technical', 'format', 'legal'].map(category => {
-            const categoryResults = complianceResults.filter(r => r.rule.category === category);
+            const categoryResults = complianceResults.filter(r => r.category === category);
             if (categoryResults.length === 0) return null;
 
             return (
@@ -362,21 +228,21 @@ const KDPCompliance: React.FC = () => {
                 <div className="space-y-4">
                   {categoryResults.map(result => (
                     <div
-                      key={result.rule.id}
-                      className={`p-4 rounded-lg ${getSeverityStyle(result.rule.severity, result.passed)}`}
+                      key={result.ruleId}
+                      className={`p-4 rounded-lg ${getSeverityStyle(result.severity, result.passed)}`}
                     >
                       <div className="flex justify-between items-start mb-2">
-                        <h4 className="font-medium text-gray-900">{result.rule.title}</h4>
+                        <h4 className="font-medium text-gray-900">{result.title}</h4>
                         <span className={`text-xs px-2 py-1 rounded ${
-                          result.rule.severity === 'error' ? 'bg-red-200 text-red-800' :
-                          result.rule.severity === 'warning' ? 'bg-yellow-200 text-yellow-800' :
+                          result.severity === 'error' ? 'bg-red-200 text-red-800' :
+                          result.severity === 'warning' ? 'bg-yellow-200 text-yellow-800' :
                           'bg-blue-200 text-blue-800'
                         }`}>
-                          {result.rule.severity}
+                          {result.severity}
                         </span>
                       </div>
                       
-                      <p className="text-sm text-gray-600 mb-2">{result.rule.description}</p>
+                      <p className="text-sm text-gray-600 mb-2">{result.description}</p>
                       
                       <div className="text-sm font-medium mb-2">
                         {result.message}
@@ -392,6 +258,22 @@ const KDPCompliance: React.FC = () => {
                           ))}
                         </ul>
                       )}
+
+                      {result.pages && result.pages.length > 0 && (
+                        <div className="text-xs text-gray-500 mt-2">
+                          Pages: {result.pages.slice(0, 20).join(', ')}{result.pages.length > 20 && ` +${result.pages.length - 20} more`}
+                        </div>
+                      )}
+
+                      {fixes[result.ruleId] && (
+                        <button
+                          onClick={() => applyFix(fixes[result.ruleId])}
+                          disabled={isChecking}
+                          className="mt-3 text-xs bg-white border border-gray-300 text-gray-800 px-3 py-1 rounded hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          🛠 {fixes[result.ruleId].label}
+                        </button>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -403,12 +285,12 @@ const KDPCompliance: React.FC = () => {
 
       {/* Help Section */}
       <div className="bg-white rounded-lg shadow-md p-6 mt-6">
-        <h2 className="text-xl font-semibold mb-4">📚 KDP Publishing Guidelines</h2>
+        <h2 className="text-xl font-semibold mb-4">📚 {platform.name} Publishing Guidelines</h2>
         <div className="grid gap-4 md:grid-cols-2">
           <div>
             <h3 className="font-medium text-gray-900 mb-2">✅ Best Practices</h3>
             <ul className="text-sm text-gray-600 space-y-1">
-              <li>• Aim for 24+ pages minimum</li>
+              <li>• Aim for {platform.minPages}+ pages minimum</li>
               <li>• Use high-quality, original artwork</li>
               <li>• Include proper copyright information</li>
               <li>• Test print quality before publishing</li>
@@ -430,7 +312,7 @@ const KDPCompliance: React.FC = () => {
         <div className="mt-4 p-4 bg-blue-50 rounded-lg">
           <p className="text-sm text-blue-800">
             <strong>💡 Pro Tip:</strong> This checker covers common requirements, but always review the latest 
-            KDP guidelines before publishing. Consider ordering a proof copy to verify print quality.
+            {platform.name} guidelines before publishing. Consider ordering a proof copy to verify print quality.
           </p>
         </div>
       </div>
@@ -440,7 +322,7 @@ const KDPCompliance: React.FC = () => {
           <div className="text-center text-gray-500 py-12">
             <div className="text-4xl mb-4">🔍</div>
             <p className="text-lg font-medium mb-2">Ready to Check Compliance</p>
-            <p>Select a project above and click "Run Compliance Check" to analyze your coloring book against Amazon KDP requirements.</p>
+            <p>Select a project above and click "Run Compliance Check" to analyze your coloring book against {platform.name} requirements.</p>
           </div>
         </div>
       )}
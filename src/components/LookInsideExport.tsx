@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { advancedPublishing } from '../utils/advancedPublishing';
+import { PreviewPage, toContentsSource } from '../utils/interiorLayout';
+import { DEFAULT_LOOK_INSIDE, LookInsideSelection, isPreviewablePage, pickLookInsidePages, toPublishingPage } from '../utils/lookInside';
+import { resolvePageNumbering, buildPageLabels, buildContentsEntries, CONTENTS_TITLE } from '../utils/pageNumbering';
+import { isMatterPageType, MATTER_PAGE_LABELS } from '../utils/frontMatter';
+import { TrimSizeId } from '../utils/trimSizes';
+import { downloadFile, readFileAsDataURL } from '../utils/helpers';
+
+interface LookInsideExportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId?: string;
+  // The arranged interior pages shown in the PDF preview
+  pages: PreviewPage[];
+  trimSize: TrimSizeId;
+}
+
+const PAGE_TYPE_NAMES: Record<string, string> = {
+  cover: 'Cover',
+  story: 'Story',
+  coloring: 'Coloring Page',
+  contents: CONTENTS_TITLE,
+  back: 'Notes'
+};
+
+const LookInsideExport: React.FC<LookInsideExportProps> = ({ isOpen, onClose, projectId, pages, trimSize }) => {
+  const { projects, addNotification } = useAppStore();
+  const project = projects.find(p => p.id === projectId);
+
+  const [selection, setSelection] = useState<LookInsideSelection>(DEFAULT_LOOK_INSIDE);
+  const [chosen, setChosen] = useState<number[]>([]);
+  const [watermarkText, setWatermarkText] = useState('');
+  const [logo, setLogo] = useState<string | undefined>();
+  const [opacity, setOpacity] = useState(0.35);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !project) return;
+    setChosen(pickLookInsidePages(pages, selection));
+    setWatermarkText(`${project.title} · PREVIEW`);
+  }, [isOpen, projectId]);
+
+  if (!isOpen || !project) return null;
+
+  const numbering = resolvePageNumbering(project.metadata?.pageNumbering);
+  const labels = buildPageLabels(pages.map(page => page.type), numbering);
+
+  const updateSelection = (updates: Partial<LookInsideSelection>) => {
+    const next = { ...selection, ...updates };
+    setSelection(next);
+    setChosen(pickLookInsidePages(pages, next));
+  };
+
+  const togglePage = (index: number) => {
+    setChosen(prev => prev.includes(index)
+      ? prev.filter(i => i !== index)
+      : [...prev, index].sort((a, b) => a - b));
+  };
+
+  const uploadLogo = async (file?: File) => {
+    if (!file) return;
+    setLogo(await readFileAsDataURL(file));
+  };
+
+  const pageName = (page: PreviewPage) =>
+    isMatterPageType(page.type) ? MATTER_PAGE_LABELS[page.type] : PAGE_TYPE_NAMES[page.type] || page.type;
+
+  const exportPreview = async () => {
+    setIsExporting(true);
+
+    try {
+      const contents = buildContentsEntries(pages.map(toContentsSource), labels, numbering.tableOfContents);
+      const result = await advancedPublishing.generateLookInside({
+        title: project.title,
+        author: project.metadata?.author || 'ColorBook Engine',
+        language: project.metadata?.language || 'en',
+        trimSize,
+        pages: chosen.map(index => toPublishingPage(pages[index], contents)),
+        typography: project.metadata?.typography
+      }, { watermarkText, logo, opacity });
+
+      if (!result.success || !result.downloadUrl || !result.stripUrl) {
+        throw new Error(result.error || 'Look inside preview generation failed');
+      }
+
+      const baseName = `${project.title.replace(/[^a-zA-Z0-9]/g, '_')}_Look_Inside`;
+      downloadFile(result.downloadUrl, `${baseName}.pdf`);
+      downloadFile(result.stripUrl, `${baseName}_Strip.png`);
+
+      addNotification({ type: 'success', message: `✅ Look inside preview exported with ${chosen.length} pages` });
+      onClose();
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        message: `❌ ${error instanceof Error ? error.message : 'Error generating look inside preview'}`
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">👀 Look Inside Preview</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl" disabled={isExporting}>
+              ×
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            <div className="grid gap-3 md:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Opening pages</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={selection.firstPages}
+                  onChange={(e) => updateSelection({ firstPages: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Sample coloring pages</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={selection.coloringSamples}
+                  onChange={(e) => updateSelection({ coloringSamples: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {/* Manual page choice */}
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <h3 className="font-semibold text-gray-900 mb-3">Pages in the preview ({chosen.length})</h3>
+              <div className="grid gap-1 md:grid-cols-2 max-h-56 overflow-y-auto text-sm">
+                {pages.map((page, index) => isPreviewablePage(page) && (
+                  <label key={index} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={chosen.includes(index)}
+                      onChange={() => togglePage(index)}
+                      className="rounded"
+                    />
+                    <span className="ml-2">
+                      {labels[index]?.label ? `p. ${labels[index].label}` : pageName(page)}
+                      {labels[index]?.label && <span className="text-gray-500"> · {pageName(page)}</span>}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Watermark */}
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Watermark text</label>
+                <input
+                  type="text"
+                  value={watermarkText}
+                  onChange={(e) => setWatermarkText(e.target.value)}
+                  placeholder="Leave empty for no text"
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Logo (optional)</label>
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg,image/svg+xml"
+                    onChange={(e) => uploadLogo(e.target.files?.[0])}
+                    className="w-full text-sm"
+                  />
+                  {logo && (
+                    <button onClick={() => setLogo(undefined)} className="text-xs text-red-600 hover:text-red-700 mt-1">
+                      Remove logo
+                    </button>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Opacity ({Math.round(opacity * 100)}%)
+                  </label>
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={0.8}
+                    step={0.05}
+                    value={opacity}
+                    onChange={(e) => setOpacity(Number(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Pages are rendered at screen resolution, so the preview can't be printed in place of the book.
+              You get a PDF and a PNG strip of the pages side by side.
+            </p>
+
+            <button
+              onClick={exportPreview}
+              disabled={isExporting || chosen.length === 0}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+            >
+              {isExporting ? 'Rendering Preview...' : 'Export Look Inside Preview'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LookInsideExport;
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import {
+  mockupGenerator,
+  MOCKUP_TEMPLATES,
+  MOCKUP_SIZES,
+  MockupTemplateId,
+  MockupSizeId
+} from '../utils/mockupGenerator';
+import { RenderProgress } from '../utils/renderProgress';
+import { TrimSizeId } from '../utils/trimSizes';
+import { downloadFile } from '../utils/helpers';
+
+interface MockupExportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId?: string;
+  trimSize: TrimSizeId;
+}
+
+// Pixel size of the scene thumbnails in the picker
+const THUMB_SIZE = 360;
+
+const MockupExport: React.FC<MockupExportProps> = ({ isOpen, onClose, projectId, trimSize }) => {
+  const { projects, addNotification } = useAppStore();
+  const project = projects.find(p => p.id === projectId);
+
+  const [templates, setTemplates] = useState<MockupTemplateId[]>(Object.keys(MOCKUP_TEMPLATES) as MockupTemplateId[]);
+  const [sizes, setSizes] = useState<MockupSizeId[]>(['amazon', 'etsy', 'instagram']);
+  const [thumbnails, setThumbnails] = useState<Partial<Record<MockupTemplateId, string>>>({});
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<RenderProgress | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !project) return;
+    let cancelled = false;
+    setThumbnails({});
+    setPreviewError(null);
+
+    mockupGenerator.loadAssets(project, trimSize)
+      .then(assets => {
+        if (cancelled) return;
+        const rendered: Partial<Record<MockupTemplateId, string>> = {};
+        (Object.keys(MOCKUP_TEMPLATES) as MockupTemplateId[]).forEach(id => {
+          rendered[id] = mockupGenerator.renderMockup(assets, id, THUMB_SIZE, THUMB_SIZE).toDataURL('image/jpeg', 0.85);
+        });
+        setThumbnails(rendered);
+      })
+      .catch(error => {
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : 'Mockups could not be previewed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, projectId, trimSize]);
+
+  if (!isOpen || !project) return null;
+
+  const toggle = <T extends string>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const exportMockups = async () => {
+    setProgress({ stage: 'preparing', completed: 0, total: 0 });
+
+    try {
+      const result = await mockupGenerator.generateMockups(project, { templates, sizes, trimSize }, { onProgress: setProgress });
+      if (!result.success || !result.downloadUrl) {
+        throw new Error(result.error || 'Mockup generation failed');
+      }
+
+      downloadFile(result.downloadUrl, `${project.title.replace(/[^a-zA-Z0-9]/g, '_')}_Mockups.zip`);
+      addNotification({ type: 'success', message: `✅ ${result.metadata?.images} mockup images exported` });
+      onClose();
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        message: `❌ ${error instanceof Error ? error.message : 'Error generating mockups'}`
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const platforms = Array.from(new Set(Object.values(MOCKUP_SIZES).map(size => size.platform)));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">📸 Product Mockups</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl" disabled={!!progress}>
+              ×
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {/* Scenes */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Scenes</label>
+              {previewError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-3">{previewError}</div>
+              )}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {(Object.keys(MOCKUP_TEMPLATES) as MockupTemplateId[]).map(id => (
+                  <button
+                    key={id}
+                    onClick={() => setTemplates(prev => toggle(prev, id))}
+                    className={`border rounded-lg p-2 text-xs text-left ${
+                      templates.includes(id) ? 'border-blue-600 ring-2 ring-blue-500' : 'border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {thumbnails[id] ? (
+                      <img src={thumbnails[id]} alt="" className="w-full aspect-square rounded mb-1" />
+                    ) : (
+                      <div className="w-full aspect-square rounded mb-1 bg-gray-100 flex items-center justify-center text-gray-400">
+                        {previewError ? '—' : 'Rendering...'}
+                      </div>
+                    )}
+                    <div className="font-semibold text-gray-900">{MOCKUP_TEMPLATES[id].name}</div>
+                    <div className="text-gray-500">{MOCKUP_TEMPLATES[id].description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Output sizes */}
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <h3 className="font-semibold text-gray-900 mb-3">Image sizes</h3>
+              <div className="grid gap-3 md:grid-cols-3">
+                {platforms.map(platform => (
+                  <div key={platform}>
+                    <div className="text-sm font-medium text-gray-700 mb-1">{platform}</div>
+                    {Object.values(MOCKUP_SIZES).filter(size => size.platform === platform).map(size => (
+                      <label key={size.id} className="flex items-center text-sm">
+                        <input
+                          type="checkbox"
+                          checked={sizes.includes(size.id)}
+                          onChange={() => setSizes(prev => toggle(prev, size.id))}
+                          className="rounded"
+                        />
+                        <span className="ml-2">
+                          {size.name} <span className="text-gray-500">({size.width} × {size.height})</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Scenes use the project's cover art when it has one, otherwise a title cover built from the first illustration.
+              {templates.length * sizes.length > 0 && ` ${templates.length * sizes.length} PNGs will be exported.`}
+            </p>
+
+            <button
+              onClick={exportMockups}
+              disabled={!!progress || !!previewError || templates.length === 0 || sizes.length === 0}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+            >
+              {progress?.stage === 'rendering'
+                ? `Rendering mockup ${progress.completed + 1} of ${progress.total}...`
+                : progress ? 'Preparing mockups...' : 'Export Mockups'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MockupExport;
@@ -1,12 +1,34 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAppStore } from '../store/useAppStore';
-import { jsPDF } from 'jspdf';
-import { FileText, Download, Settings, AlertTriangle, Ruler, Palette } from 'lucide-react';
+import { FileText, Download, Settings, AlertTriangle, Ruler, Palette, BookOpen, ChevronLeft, ChevronRight, X } from 'lucide-react';
 import CanvaExport from './CanvaExport';
+import MockupExport from './MockupExport';
+import FrontMatterEditor from './FrontMatterEditor';
+import TypographySettings from './TypographySettings';
+import PageFramePicker from './PageFramePicker';
+import PageNumberingEditor from './PageNumberingEditor';
+import LookInsideExport from './LookInsideExport';
+import { PaperType, InteriorLayoutMode, ImpositionMode, SheetSizeId, ColorMode, PrintPlatformId } from '../types';
+import { coverBuilder, calculateSpineWidth, PAPER_TYPE_LABELS } from '../utils/coverBuilder';
+import { getPrintPlatform, getPlatformGeometry, supportsTrimSize, getPaddedPageCount, PRINT_PLATFORM_LABELS } from '../utils/printPlatforms';
+import { downloadFile } from '../utils/helpers';
+import { TRIM_SIZES, TrimSizeId, getTrimSize, getRequiredGutter, isRectoPage } from '../utils/trimSizes';
+import { PreviewPage, INTERIOR_LAYOUT_LABELS, buildProjectPages, arrangeInteriorPages, countInteriorPages, groupIntoSpreads, toContentsSource } from '../utils/interiorLayout';
+import { useImageSource } from '../utils/blobStore';
+import { isMatterPageType } from '../utils/frontMatter';
+import { toPublishingPage } from '../utils/lookInside';
+import { pdfWorker } from '../utils/pdfWorker';
+import { advancedPublishing, PRINTABLE_SIZES } from '../utils/advancedPublishing';
+import { SHEET_SIZES, IMPOSITION_LABELS, SADDLE_STITCH_MAX_PAGES, countImposedSheets } from '../utils/imposition';
+import { RenderProgress } from '../utils/renderProgress';
+import { COLOR_MODE_LABELS, PDFX_OUTPUT_CONDITION, PrintColorOptions } from '../utils/colorManagement';
+import { resolveTypography, embedsAllFonts, getCSSFontStack, loadFontFace, TYPOGRAPHY_PRESET_LABELS } from '../utils/typography';
+import { resolvePageFrames, getPageFrameLayout, frameToDataURL, FRAME_STYLE_LABELS } from '../utils/pageFrames';
+import { resolvePageNumbering, arrangeContentsPage, buildPageLabels, buildContentsEntries, CONTENTS_TITLE, TABLE_OF_CONTENTS_LABELS } from '../utils/pageNumbering';
 
 // Core interfaces for PDF export
 interface PDFSettings {
-  pageSize: 'letter' | 'a4' | 'square-8.5' | 'square-6';
+  pageSize: TrimSizeId;
   margins: { inner: number; outer: number; top: number; bottom: number; };
   bleed: number;
   includeStoryPages: boolean;
@@ -17,47 +39,78 @@ interface PDFSettings {
   flatten: boolean;
 }
 
-interface PreviewPage {
-  type: 'cover' | 'story' | 'coloring' | 'back' | 'copyright';
-  content?: any;
-  pageNumber: number;
-}
-
 interface ValidationError {
   type: 'error' | 'warning';
   message: string;
   fix?: string;
 }
 
+// Stored artwork loads as the preview page comes into view
+const PreviewImage: React.FC<{ imageData?: string; pageNumber: number }> = ({ imageData, pageNumber }) => {
+  const src = useImageSource(imageData);
+  if (!src) {
+    return (
+      <div className="h-full flex items-center justify-center border border-dashed border-gray-300 text-gray-400">
+        🎨 Coloring Page
+      </div>
+    );
+  }
+  return <img src={src} alt={`Coloring page ${pageNumber}`} className="w-full h-full object-contain" />;
+};
+
 const PDFExport: React.FC = () => {
-  const { projects, addNotification } = useAppStore();
+  const { projects, addNotification, exportSettings, updateExportSettings, updateProject } = useAppStore();
   const [selectedProject, setSelectedProject] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [previewPages, setPreviewPages] = useState<PreviewPage[]>([]);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [showCanvaExport, setShowCanvaExport] = useState(false);
+  const [showMockups, setShowMockups] = useState(false);
+  const [showFrontMatter, setShowFrontMatter] = useState(false);
+  const [showTypography, setShowTypography] = useState(false);
+  const [showPageFrames, setShowPageFrames] = useState(false);
+  const [showPageNumbering, setShowPageNumbering] = useState(false);
+  const [showLookInside, setShowLookInside] = useState(false);
+  const [isGeneratingCover, setIsGeneratingCover] = useState(false);
+  const [isGeneratingPackage, setIsGeneratingPackage] = useState(false);
+  const [bundleProgress, setBundleProgress] = useState<RenderProgress | null>(null);
+  const [paperType, setPaperType] = useState<PaperType>('white');
+  const [spreadIndex, setSpreadIndex] = useState(0);
+  const [renderProgress, setRenderProgress] = useState<RenderProgress | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [packageProgress, setPackageProgress] = useState<RenderProgress | null>(null);
+  const packageAbortRef = useRef<AbortController | null>(null);
+
+  // Interior layout lives in export settings so compliance counts the same pages
+  const layoutOptions = {
+    mode: exportSettings.interiorLayout || 'continuous',
+    colorTestBacks: exportSettings.colorTestBacks || false
+  };
+  const imposition: ImpositionMode = exportSettings.imposition || 'none';
+  const impositionSheet: SheetSizeId = exportSettings.impositionSheet || 'letter';
+  const colorOptions: PrintColorOptions = {
+    colorMode: exportSettings.colorMode,
+    pdfx: exportSettings.colorMode === 'cmyk' && !!exportSettings.pdfx
+  };
+  // Print-on-demand service whose trims, page counts and gutters we validate against
+  const platform = getPrintPlatform(exportSettings.printPlatform);
 
   // PDF settings with professional defaults
-  const [settings, setSettings] = useState<PDFSettings>({
-    pageSize: 'letter',
-    margins: { inner: 0.75, outer: 0.5, top: 0.75, bottom: 0.75 },
-    bleed: 0.125, // Standard KDP bleed
-    includeStoryPages: true,
-    includeColoringPages: true,
-    includeCover: false,
-    includeBackMatter: false,
-    resolution: 300, // Print quality
-    flatten: true
+  const [settings, setSettings] = useState<PDFSettings>(() => {
+    const trim = getTrimSize(exportSettings.pageSize);
+    return {
+      pageSize: trim.id,
+      margins: { ...trim.recommendedMargins, ...exportSettings.margins },
+      bleed: exportSettings.bleed ?? getPrintPlatform(exportSettings.printPlatform).bleed,
+      includeStoryPages: true,
+      includeColoringPages: true,
+      includeCover: false,
+      includeBackMatter: false,
+      resolution: 300, // Print quality
+      flatten: true
+    };
   });
 
-  // Page size specifications  
-  const pageSizes = {
-    letter: { width: 8.5, height: 11, name: '8.5" × 11" (Letter)' },
-    a4: { width: 8.27, height: 11.69, name: '8.27" × 11.69" (A4)' },
-    'square-8.5': { width: 8.5, height: 8.5, name: '8.5" × 8.5" (Square)' },
-    'square-6': { width: 6, height: 6, name: '6" × 6" (Small Square)' }
-  };
-
   // Validation logic
   const validateSettings = (): ValidationError[] => {
     const errors: ValidationError[] = [];
@@ -68,19 +121,31 @@ const PDFExport: React.FC = () => {
       return errors;
     }
 
-    const storyPages = project.pages?.length || 0;
-    const totalPages = (settings.includeStoryPages ? storyPages : 0) + 
-                      (settings.includeColoringPages ? storyPages : 0) +
-                      (settings.includeCover ? 1 : 0) +
-                      (settings.includeBackMatter ? 2 : 0);
+    const totalPages = countInteriorPages(project, layoutOptions, settings);
 
-    if (totalPages < 24) {
+    // Home and print-shop booklets aren't bound by the platform's page limits
+    const paddedPages = getPaddedPageCount(platform, totalPages);
+    if (paddedPages < platform.minPages) {
       errors.push({
-        type: 'error',
-        message: `Only ${totalPages} pages. KDP requires minimum 24 pages.`,
+        type: imposition === 'none' ? 'error' : 'warning',
+        message: `Only ${totalPages} pages. ${platform.name} requires minimum ${platform.minPages} pages.`,
         fix: 'Add more content or enable additional sections'
       });
     }
+    if (totalPages > platform.maxPages) {
+      errors.push({
+        type: imposition === 'none' ? 'error' : 'warning',
+        message: `${totalPages} pages is over ${platform.name}'s ${platform.maxPages} page limit`,
+        fix: 'Split the book into volumes or remove sections'
+      });
+    }
+    if (paddedPages > totalPages && imposition === 'none') {
+      errors.push({
+        type: 'warning',
+        message: `${platform.name} needs a multiple of ${platform.pageMultiple} pages`,
+        fix: 'The print package adds a blank page at the back'
+      });
+    }
 
     if (settings.bleed < 0.125) {
       errors.push({
@@ -90,87 +155,156 @@ const PDFExport: React.FC = () => {
       });
     }
 
-    if (settings.margins.inner < 0.75) {
+    const trim = getTrimSize(settings.pageSize);
+    if (!supportsTrimSize(platform, trim.id)) {
       errors.push({
         type: 'warning',
-        message: 'Inner margin less than 0.75" may be cut off during binding',
-        fix: 'Increase inner margin to 0.75" or more'
+        message: `${trim.name} is not a ${platform.name} paperback trim size`,
+        fix: `Choose a ${platform.name} trim size for print-on-demand`
       });
     }
 
-    return errors;
-  };
-
-  // Preview generation
-  const generatePreviewPages = () => {
-    const project = projects.find(p => p.id === selectedProject);
-    if (!project) { setPreviewPages([]); return; }
-
-    const pages: PreviewPage[] = [];
-    let pageNumber = 1;
-
-    if (settings.includeCover) {
-      pages.push({
-        type: 'cover', pageNumber: pageNumber++,
-        content: { title: project.title, author: project.metadata?.author }
+    const requiredGutter = getRequiredGutter(trim, totalPages, platform.gutterRules);
+    if (settings.margins.inner < requiredGutter) {
+      errors.push({
+        type: 'warning',
+        message: `Inner margin less than ${requiredGutter}" may be cut off during binding`,
+        fix: `Inner margin will be raised to ${requiredGutter}" for ${totalPages} pages`
       });
     }
 
-    if (settings.includeBackMatter) {
-      pages.push({
-        type: 'copyright', pageNumber: pageNumber++,
-        content: { title: project.title, author: project.metadata?.author, year: new Date().getFullYear() }
-      });
+    if (imposition === 'saddle-stitch') {
+      const padded = Math.ceil(totalPages / 4) * 4;
+      if (padded > SADDLE_STITCH_MAX_PAGES) {
+        errors.push({
+          type: 'warning',
+          message: `${padded} pages is too thick to staple as one booklet`,
+          fix: `Keep saddle-stitch booklets to ${SADDLE_STITCH_MAX_PAGES} pages or fewer`
+        });
+      }
+      if (padded > totalPages) {
+        errors.push({
+          type: 'warning',
+          message: `${padded - totalPages} blank page(s) will be added to fill the last booklet sheet`
+        });
+      }
     }
 
-    if (project.pages) {
-      project.pages.forEach((storyPage) => {
-        if (settings.includeStoryPages) {
-          pages.push({ type: 'story', pageNumber: pageNumber++, content: storyPage });
-        }
-        if (settings.includeColoringPages) {
-          pages.push({ type: 'coloring', pageNumber: pageNumber++, content: storyPage });
-        }
+    if (colorOptions.pdfx && !embedsAllFonts(project.metadata?.typography)) {
+      errors.push({
+        type: 'error',
+        message: 'PDF/X-1a requires embedded fonts; the built-in PDF fonts are not embedded',
+        fix: 'Upload a TTF font under Typography so it is embedded in the PDF'
       });
     }
 
-    if (settings.includeBackMatter) {
-      pages.push({ type: 'back', pageNumber: pageNumber++, content: { title: 'Notes' } });
+    if (colorOptions.pdfx) {
+      if (settings.bleed < 0.125 && imposition === 'none') {
+        errors.push({
+          type: 'warning',
+          message: 'Press-ready PDF/X files normally carry 0.125" bleed',
+          fix: 'Set bleed to 0.125"'
+        });
+      }
     }
 
-    setPreviewPages(pages);
+    return errors;
+  };
+
+  // Preview generation
+  const generatePreviewPages = () => {
+    const project = projects.find(p => p.id === selectedProject);
+    if (!project) { setPreviewPages([]); return; }
+
+    setPreviewPages(arrangeInteriorPages(buildProjectPages(project, settings), layoutOptions));
   };
 
-  // Calculate dimensions
+  // Calculate dimensions from the shared trim catalogue
   const calculateDimensions = () => {
-    const pageSpec = pageSizes[settings.pageSize];
-    const { width, height } = pageSpec;
+    const geometry = getPlatformGeometry(platform, settings.pageSize, {
+      pageCount: previewPages.length,
+      margins: settings.margins
+    });
+    const { width, height, margins } = geometry;
     const bleed = settings.bleed;
     
     return {
-      width, height,
+      width, height, margins,
       bleedWidth: width + (bleed * 2),
       bleedHeight: height + (bleed * 2),
-      safeWidth: width - (settings.margins.inner + settings.margins.outer + 0.5),
-      safeHeight: height - (settings.margins.top + settings.margins.bottom + 0.5)
+      safeWidth: geometry.safeWidth,
+      safeHeight: geometry.safeHeight
     };
   };
 
   const updateSettings = (updates: Partial<PDFSettings>) => {
     setSettings(prev => ({ ...prev, ...updates }));
+    // The compliance checker validates the margins and bleed we export with
+    if (updates.margins || updates.bleed !== undefined) {
+      updateExportSettings({
+        ...(updates.margins && { margins: updates.margins }),
+        ...(updates.bleed !== undefined && { bleed: updates.bleed })
+      });
+    }
+  };
+
+  const updatePageSize = (pageSize: TrimSizeId) => {
+    const trim = getTrimSize(pageSize);
+    // Keep the compliance checker validating the trim we export
+    updateExportSettings({ pageSize: trim.id });
+    updateSettings({ pageSize: trim.id, bleed: platform.bleed, margins: { ...trim.recommendedMargins } });
+  };
+
+  const updatePlatform = (id: PrintPlatformId) => {
+    // Shared with the compliance checker, like the trim size
+    updateExportSettings({ printPlatform: id });
+    updateSettings({ bleed: getPrintPlatform(id).bleed });
   };
 
   useEffect(() => {
     if (projects.length === 1) setSelectedProject(projects[0].id);
   }, [projects]);
 
+  // Stop a running export or print package when leaving the page
+  useEffect(() => () => {
+    exportAbortRef.current?.abort();
+    packageAbortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    const project = projects.find(p => p.id === selectedProject);
+    setPaperType(project?.metadata?.paperType || 'white');
+  }, [selectedProject]);
+
   useEffect(() => {
     const errors = validateSettings();
     setValidationErrors(errors);
     generatePreviewPages();
-  }, [selectedProject, settings, projects]);
+  }, [selectedProject, settings, projects, exportSettings.interiorLayout, exportSettings.colorTestBacks, imposition, colorOptions.pdfx, platform.id]);
 
   const dimensions = calculateDimensions();
+  const typography = resolveTypography(projects.find(p => p.id === selectedProject)?.metadata?.typography);
+  // Scaled so 12pt text matches the miniature's 10px base size
+  const storyTextStyle = {
+    fontSize: `${(typography.fontSize / 12) * 10}px`,
+    lineHeight: typography.lineHeight,
+    letterSpacing: `${typography.letterSpacing}em`
+  };
+
+  useEffect(() => {
+    loadFontFace(typography).catch(() => undefined);
+  }, [typography.customFont]);
+  const pageFrames = resolvePageFrames(projects.find(p => p.id === selectedProject)?.metadata?.pageFrames);
+  const pageNumbering = resolvePageNumbering(projects.find(p => p.id === selectedProject)?.metadata?.pageNumbering);
+  const pageLabels = buildPageLabels(previewPages.map(page => page.type), pageNumbering);
+  const spreads = groupIntoSpreads(previewPages);
+  // Counted the way the print interior is built, so the cover spine matches it
+  const printPageCount = getPaddedPageCount(platform, arrangeContentsPage(previewPages, pageNumbering, { type: 'contents', pageNumber: 0 }).length);
+  const currentSpread = spreads[Math.min(spreadIndex, spreads.length - 1)];
+
+  useEffect(() => {
+    setSpreadIndex(0);
+  }, [selectedProject, exportSettings.interiorLayout]);
 
   const generatePDF = async () => {
     const project = projects.find(p => p.id === selectedProject);
@@ -183,173 +317,327 @@ const PDFExport: React.FC = () => {
     }
 
     setIsGenerating(true);
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
 
     try {
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'in',
-        format: [dimensions.bleedWidth, dimensions.bleedHeight],
-        compress: true,
-        precision: 16
+      // Rendering runs in a worker so the page stays responsive on large books
+      const result = await pdfWorker.renderInterior({
+        title: project.title,
+        author: project.metadata?.author || 'ColorBook Engine',
+        pages: previewPages,
+        dimensions,
+        bleed: settings.bleed,
+        resolution: settings.resolution,
+        cropMarks: exportSettings.includeCropMarks,
+        imposition: { mode: imposition, sheet: impositionSheet },
+        color: colorOptions,
+        typography: project.metadata?.typography,
+        frames: project.metadata?.pageFrames,
+        numbering: project.metadata?.pageNumbering
+      }, {
+        onProgress: setRenderProgress,
+        signal: controller.signal
+      });
+
+      if (result.cancelled) {
+        addNotification({ type: 'info', message: 'PDF export cancelled' });
+        return;
+      }
+      if (!result.success || !result.downloadUrl) {
+        throw new Error(result.error || 'PDF generation failed');
+      }
+
+      const timestamp = new Date().toISOString().slice(0, 10);
+      const suffix = imposition === 'none' ? 'Professional' : `${imposition}_${impositionSheet}`;
+      const filename = `${project.title.replace(/[^a-zA-Z0-9]/g, '_')}_${suffix}_${timestamp}.pdf`;
+
+      downloadFile(result.downloadUrl, filename);
+      const imageIssues: string[] = result.metadata?.imageIssues || [];
+      addNotification({
+        type: imageIssues.length > 0 ? 'warning' : 'success',
+        message: imageIssues.length > 0
+          ? `PDF exported with ${imageIssues.length} missing image(s): ${filename}`
+          : `✅ PDF exported successfully: ${filename}`
+      });
+
+    } catch (error) {
+      console.error('PDF generation error:', error);
+      addNotification({
+        type: 'error',
+        message: '❌ Error generating PDF. Please try again.'
       });
+    } finally {
+      exportAbortRef.current = null;
+      setRenderProgress(null);
+      setIsGenerating(false);
+    }
+  };
+
+  const cancelPDF = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  const generatePrintables = async () => {
+    const project = projects.find(p => p.id === selectedProject);
+    if (!project) return;
+
+    setBundleProgress({ stage: 'preparing', completed: 0, total: 0 });
 
-      pdf.setProperties({
+    try {
+      // Each illustrated page is sold as a standalone coloring sheet
+      const result = await advancedPublishing.generatePrintableBundle({
         title: project.title,
         author: project.metadata?.author || 'ColorBook Engine',
-        subject: 'Professional Coloring Book',
-        creator: 'ColorBook Engine PDF Export'
+        language: project.metadata?.language || 'en',
+        pages: project.pages
+          .filter(page => page.type !== 'cover' && !isMatterPageType(page.type) && page.content.imageData)
+          .map(page => ({
+            type: 'coloring' as const,
+            heading: page.content.heading,
+            content: page.content.text || '',
+            imageUrl: page.content.imageData,
+            imagePrompt: page.content.imagePrompt
+          })),
+        metadata: { publisher: project.metadata?.publisher }
+      }, {}, {
+        onProgress: setBundleProgress
       });
 
-      for (let i = 0; i < previewPages.length; i++) {
-        const page = previewPages[i];
-        
-        if (i > 0) pdf.addPage();
+      if (!result.success || !result.downloadUrl) {
+        throw new Error(result.error || 'Printable bundle generation failed');
+      }
+
+      const timestamp = new Date().toISOString().slice(0, 10);
+      downloadFile(result.downloadUrl, `${project.title.replace(/[^a-zA-Z0-9]/g, '_')}_Printables_${timestamp}.zip`);
+
+      const imageIssues: string[] = result.metadata?.imageIssues || [];
+      addNotification({
+        type: imageIssues.length > 0 ? 'warning' : 'success',
+        message: imageIssues.length > 0
+          ? `Printable bundle exported; ${imageIssues.length} page(s) skipped for missing artwork`
+          : `✅ Printable bundle exported with ${result.metadata?.pages} pages`
+      });
+    } catch (error) {
+      console.error('Printable bundle error:', error);
+      addNotification({
+        type: 'error',
+        message: `❌ ${error instanceof Error ? error.message : 'Error generating printable bundle'}`
+      });
+    } finally {
+      setBundleProgress(null);
+    }
+  };
 
-        if (settings.bleed > 0) {
-          pdf.setFillColor(255, 248, 248);
-          pdf.rect(0, 0, dimensions.bleedWidth, dimensions.bleedHeight, 'F');
-        }
+  const updatePaperType = (value: PaperType) => {
+    setPaperType(value);
+    const project = projects.find(p => p.id === selectedProject);
+    if (project) {
+      // Stored on the project so compliance uses the same spine formula
+      updateProject(project.id, { metadata: { ...project.metadata, paperType: value } });
+    }
+  };
 
-        pdf.setFillColor(255, 255, 255);
-        pdf.rect(settings.bleed, settings.bleed, dimensions.width, dimensions.height, 'F');
+  const generateCover = async () => {
+    const project = projects.find(p => p.id === selectedProject);
+    if (!project) return;
 
-        addPageContent(pdf, page);
+    setIsGeneratingCover(true);
 
-        if (settings.bleed > 0) addCropMarks(pdf);
+    try {
+      const coverPage = project.pages.find(p => p.type === 'cover' && p.content.imageData)
+        || project.pages.find(p => p.content.imageData);
+
+      const result = await coverBuilder.generateCoverPDF({
+        title: project.title,
+        author: project.metadata?.author || 'Unknown',
+        blurb: project.metadata?.backCoverText || project.description,
+        coverImage: coverPage?.content.imageData,
+        paperType,
+        pageCount: printPageCount,
+        trimSize: settings.pageSize,
+        platform: platform.id,
+        color: colorOptions,
+        typography: project.metadata?.typography
+      });
+
+      if (!result.success || !result.downloadUrl) {
+        throw new Error(result.error || 'Cover generation failed');
       }
 
       const timestamp = new Date().toISOString().slice(0, 10);
-      const filename = `${project.title.replace(/[^a-zA-Z0-9]/g, '_')}_Professional_${timestamp}.pdf`;
-      
-      pdf.save(filename);
+      downloadFile(result.downloadUrl, `${project.title.replace(/[^a-zA-Z0-9]/g, '_')}_Cover_${timestamp}.pdf`);
+
       addNotification({
-        type: 'success',
-        message: `✅ PDF exported successfully: ${filename}`
+        type: result.metadata?.imageIssue ? 'warning' : 'success',
+        message: result.metadata?.imageIssue
+          ? `Cover exported without artwork: ${result.metadata.imageIssue}`
+          : `✅ Cover exported (${result.metadata?.coverWidth}" × ${result.metadata?.coverHeight}")`
       });
-
     } catch (error) {
-      console.error('PDF generation error:', error);
+      console.error('Cover generation error:', error);
       addNotification({
         type: 'error',
-        message: '❌ Error generating PDF. Please try again.'
+        message: '❌ Error generating cover. Please try again.'
       });
     } finally {
-      setIsGenerating(false);
+      setIsGeneratingCover(false);
     }
   };
 
-  const addPageContent = (pdf: jsPDF, page: PreviewPage) => {
-    const safeX = settings.bleed + settings.margins.inner;
-    const safeY = settings.bleed + settings.margins.top;
-    const safeWidth = dimensions.safeWidth;
-    const safeHeight = dimensions.safeHeight;
-
-    pdf.setTextColor(0, 0, 0);
-
-    switch (page.type) {
-      case 'cover':
-        pdf.setFontSize(28);
-        pdf.setFont('helvetica', 'bold');
-        const titleLines = pdf.splitTextToSize(page.content?.title || 'Untitled', safeWidth);
-        pdf.text(titleLines, safeX + safeWidth / 2, safeY + safeHeight / 3, { align: 'center' });
-
-        if (page.content?.author) {
-          pdf.setFontSize(16);
-          pdf.setFont('helvetica', 'normal');
-          pdf.text(`By ${page.content.author}`, safeX + safeWidth / 2, safeY + safeHeight / 2, { align: 'center' });
-        }
-        break;
-
-      case 'copyright':
-        pdf.setFontSize(10);
-        pdf.setFont('helvetica', 'normal');
-        const copyrightText = [
-          `© ${page.content?.year || new Date().getFullYear()} ${page.content?.author || 'Author'}`,
-          '',
-          'All rights reserved. No part of this publication may be reproduced,',
-          'distributed, or transmitted in any form or by any means, including',
-          'photocopying, recording, or other electronic or mechanical methods,',
-          'without the prior written permission of the publisher.',
-          '',
-          'Created with ColorBook Engine'
-        ];
-        copyrightText.forEach((line, index) => {
-          pdf.text(line, safeX, safeY + (index * 0.15));
-        });
-        break;
-
-      case 'story':
-        pdf.setFontSize(18);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text(`Chapter ${page.content?.pageNumber || page.pageNumber}`, safeX, safeY + 0.4);
-
-        pdf.setFontSize(12);
-        pdf.setFont('helvetica', 'normal');
-        const storyLines = pdf.splitTextToSize(page.content?.text || 'Story content here...', safeWidth);
-        pdf.text(storyLines, safeX, safeY + 0.8);
-        break;
-
-      case 'coloring':
-        pdf.setDrawColor(200, 200, 200);
-        pdf.setLineWidth(0.02);
-        pdf.rect(safeX + 0.5, safeY + 0.5, safeWidth - 1, safeHeight - 1);
-        
-        pdf.setFontSize(12);
-        pdf.setTextColor(150, 150, 150);
-        pdf.text('🎨 Coloring Page', safeX + safeWidth / 2, safeY + safeHeight / 2, { align: 'center' });
-        pdf.setTextColor(0, 0, 0);
-        break;
-
-      case 'back':
-        pdf.setFontSize(18);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text('Notes', safeX, safeY + 0.4);
-
-        pdf.setDrawColor(220, 220, 220);
-        pdf.setLineWidth(0.005);
-        for (let i = 1; i < 25; i++) {
-          const y = safeY + 0.8 + (i * 0.25);
-          if (y < safeY + safeHeight - 0.3) {
-            pdf.line(safeX, y, safeX + safeWidth, y);
-          }
-        }
-        break;
-    }
+  const generatePrintPackage = async () => {
+    const project = projects.find(p => p.id === selectedProject);
+    if (!project) return;
+
+    setIsGeneratingPackage(true);
+    const controller = new AbortController();
+    packageAbortRef.current = controller;
 
-    if (page.type !== 'cover') {
-      pdf.setFontSize(8);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text(
-        page.pageNumber.toString(),
-        safeX + safeWidth / 2,
-        dimensions.height + settings.bleed - 0.25,
-        { align: 'center' }
-      );
+    try {
+      const coverPage = project.pages.find(p => p.type === 'cover' && p.content.imageData)
+        || project.pages.find(p => p.content.imageData);
+
+      // The interior renderer inserts its own contents page
+      const result = await advancedPublishing.generatePrintPackage({
+        title: project.title,
+        author: project.metadata?.author || 'ColorBook Engine',
+        description: project.metadata?.backCoverText || project.description,
+        language: project.metadata?.language || 'en',
+        trimSize: settings.pageSize,
+        pages: previewPages.filter(page => page.type !== 'contents').map(page => toPublishingPage(page)),
+        metadata: { isbn: project.metadata?.isbn, publisher: project.metadata?.publisher },
+        color: colorOptions,
+        typography: project.metadata?.typography,
+        frames: project.metadata?.pageFrames,
+        numbering: project.metadata?.pageNumbering,
+        paperType,
+        coverImage: coverPage?.content.imageData
+      }, platform.id, {
+        // The interior is the slow part; it renders in the PDF worker like a plain export
+        renderInterior: (options, renderOptions) => pdfWorker.renderKDP(options, renderOptions),
+        onProgress: setPackageProgress,
+        signal: controller.signal
+      });
+
+      if (result.cancelled) {
+        addNotification({ type: 'info', message: 'Print package cancelled' });
+        return;
+      }
+      if (!result.success || !result.downloadUrl) {
+        throw new Error(result.error || 'Print package generation failed');
+      }
+
+      const timestamp = new Date().toISOString().slice(0, 10);
+      downloadFile(result.downloadUrl, `${project.title.replace(/[^a-zA-Z0-9]/g, '_')}_${platform.id}_Print_Package_${timestamp}.zip`);
+
+      addNotification({
+        type: result.metadata?.coverError ? 'warning' : 'success',
+        message: result.metadata?.coverError
+          ? `Print package exported without a cover: ${result.metadata.coverError}`
+          : `✅ ${platform.name} print package exported`
+      });
+    } catch (error) {
+      console.error('Print package error:', error);
+      addNotification({
+        type: 'error',
+        message: `❌ ${error instanceof Error ? error.message : 'Error generating print package'}`
+      });
+    } finally {
+      packageAbortRef.current = null;
+      setPackageProgress(null);
+      setIsGeneratingPackage(false);
     }
   };
 
-  const addCropMarks = (pdf: jsPDF) => {
-    pdf.setDrawColor(0, 0, 0);
-    pdf.setLineWidth(0.01);
+  const cancelPrintPackage = () => {
+    packageAbortRef.current?.abort();
+  };
 
-    const markLength = 0.125;
-    const markOffset = 0.05;
+  // Miniature of a single page for the spread preview
+  const renderPreviewPage = (page: PreviewPage | null, side: 'left' | 'right') => {
+    const style = { aspectRatio: `${dimensions.width} / ${dimensions.height}` };
+    if (!page) {
+      return <div className="w-1/2 max-w-xs" style={style} />;
+    }
 
-    // Top-left
-    pdf.line(0, settings.bleed - markOffset, markLength, settings.bleed - markOffset);
-    pdf.line(settings.bleed - markOffset, 0, settings.bleed - markOffset, markLength);
-    
-    // Top-right  
-    pdf.line(dimensions.bleedWidth - markLength, settings.bleed - markOffset, dimensions.bleedWidth, settings.bleed - markOffset);
-    pdf.line(dimensions.width + settings.bleed + markOffset, 0, dimensions.width + settings.bleed + markOffset, markLength);
-    
-    // Bottom-left
-    pdf.line(0, dimensions.height + settings.bleed + markOffset, markLength, dimensions.height + settings.bleed + markOffset);
-    pdf.line(settings.bleed - markOffset, dimensions.bleedHeight - markLength, settings.bleed - markOffset, dimensions.bleedHeight);
-    
-    // Bottom-right
-    pdf.line(dimensions.bleedWidth - markLength, dimensions.height + settings.bleed + markOffset, dimensions.bleedWidth, dimensions.height + settings.bleed + markOffset);
-    pdf.line(dimensions.width + settings.bleed + markOffset, dimensions.bleedHeight - markLength, dimensions.width + settings.bleed + markOffset, dimensions.bleedHeight);
+    // Same frame geometry as the exported PDF, drawn over the trim-sized miniature
+    const safeArea = {
+      x: isRectoPage(page.pageNumber) ? dimensions.margins.inner : dimensions.margins.outer,
+      y: dimensions.margins.top,
+      width: dimensions.safeWidth,
+      height: dimensions.safeHeight
+    };
+    const pageLabel = pageLabels[page.pageNumber - 1];
+    const label = pageLabel?.printed ? pageLabel.label : null;
+    const frame = getPageFrameLayout(pageFrames, page.type, safeArea, !!label);
+    const outerCorner = side === 'left' ? 'left-2' : 'right-2';
+    const numberPosition = pageNumbering.position === 'bottom-center'
+      ? 'bottom-1 left-0 right-0 text-center'
+      : `${pageNumbering.position === 'top-outer' ? 'top-1' : 'bottom-1'} ${outerCorner}`;
+
+    return (
+      <div
+        className={`relative w-1/2 max-w-xs bg-white border border-gray-300 shadow-sm overflow-hidden ${frame ? 'p-6' : 'p-3'} text-[10px] text-gray-700 ${side === 'left' ? 'rounded-l' : 'rounded-r'}`}
+        style={style}
+      >
+        {frame && (
+          <img
+            src={frameToDataURL(frame, dimensions.width, dimensions.height, {
+              pageLabel: label || undefined,
+              fontFamily: getCSSFontStack(typography)
+            })}
+            alt=""
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          />
+        )}
+        {page.type === 'cover' && (
+          <div className="h-full flex flex-col items-center justify-center text-center">
+            <div className="font-bold text-sm">{page.content?.title}</div>
+            {page.content?.author && <div className="mt-1">By {page.content.author}</div>}
+          </div>
+        )}
+        {isMatterPageType(page.type) && (
+          <div className={page.type === 'title' || page.type === 'dedication' || page.type === 'belongs-to' ? 'text-center mt-8' : ''}>
+            {page.content?.content?.heading && <div className="font-semibold mb-1">{page.content.content.heading}</div>}
+            <div className="whitespace-pre-line">{page.content?.content?.text}</div>
+          </div>
+        )}
+        {page.type === 'story' && (
+          <div style={{ fontFamily: getCSSFontStack(typography) }}>
+            <div className="font-semibold mb-1">Chapter {page.content?.pageNumber}</div>
+            <div style={{ ...storyTextStyle, textAlign: typography.alignment }}>
+              {page.content?.content?.text || 'Story content here...'}
+            </div>
+          </div>
+        )}
+        {page.type === 'coloring' && (
+          <PreviewImage imageData={page.content?.content?.imageData} pageNumber={page.pageNumber} />
+        )}
+        {page.type === 'back' && <div className="font-semibold">Notes</div>}
+        {page.type === 'contents' && (
+          <div>
+            <div className="font-semibold mb-1 text-center">{CONTENTS_TITLE}</div>
+            {buildContentsEntries(previewPages.map(toContentsSource), pageLabels, pageNumbering.tableOfContents).map(entry => (
+              <div key={entry.pageIndex} className="flex gap-1">
+                <span className="truncate">{entry.title}</span>
+                <span className="flex-1 border-b border-dotted border-gray-300 mb-1" />
+                <span>{entry.label}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {page.type === 'blank' && (
+          <div className="h-full flex items-center justify-center text-gray-300">
+            {page.content?.testPattern ? 'Test Your Colors' : 'Blank'}
+          </div>
+        )}
+        {label && !frame?.badge && (
+          <div className={`absolute text-gray-400 ${numberPosition}`}>
+            {label}
+          </div>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -358,7 +646,7 @@ const PDFExport: React.FC = () => {
         <FileText size={32} className="text-red-600" />
         <div>
           <h1 className="text-3xl font-bold text-gray-900">📄 Professional PDF Export</h1>
-          <p className="text-gray-600">Export print-ready PDFs with bleed, margins, and KDP compliance</p>
+          <p className="text-gray-600">Export print-ready PDFs with bleed, margins, and {platform.name} compliance</p>
         </div>
       </div>
 
@@ -387,16 +675,31 @@ const PDFExport: React.FC = () => {
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Print Platform</label>
+              <select
+                value={platform.id}
+                onChange={(e) => updatePlatform(e.target.value as PrintPlatformId)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(PRINT_PLATFORM_LABELS) as PrintPlatformId[]).map(id => (
+                  <option key={id} value={id}>
+                    {PRINT_PLATFORM_LABELS[id]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Page Size</label>
               <select
                 value={settings.pageSize}
-                onChange={(e) => updateSettings({ pageSize: e.target.value as any })}
+                onChange={(e) => updatePageSize(e.target.value as TrimSizeId)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                {Object.entries(pageSizes).map(([key, spec]) => (
-                  <option key={key} value={key}>
-                    {spec.name}
+                {Object.values(TRIM_SIZES).map(trim => (
+                  <option key={trim.id} value={trim.id}>
+                    {trim.name}{supportsTrimSize(platform, trim.id) ? '' : ` – not ${platform.name}`}
                   </option>
                 ))}
               </select>
@@ -444,6 +747,101 @@ const PDFExport: React.FC = () => {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Interior Layout</label>
+              <select
+                value={layoutOptions.mode}
+                onChange={(e) => updateExportSettings({ interiorLayout: e.target.value as InteriorLayoutMode })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Object.entries(INTERIOR_LAYOUT_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {layoutOptions.mode === 'single-sided' && (
+                <label className="flex items-center mt-2">
+                  <input
+                    type="checkbox"
+                    checked={layoutOptions.colorTestBacks}
+                    onChange={(e) => updateExportSettings({ colorTestBacks: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span className="ml-2 text-sm">🖍️ "Test your colors" on blank backs</span>
+                </label>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Print Imposition</label>
+              <select
+                value={imposition}
+                onChange={(e) => updateExportSettings({ imposition: e.target.value as ImpositionMode })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Object.entries(IMPOSITION_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {imposition !== 'none' && (
+                <select
+                  value={impositionSheet}
+                  onChange={(e) => updateExportSettings({ impositionSheet: e.target.value as SheetSizeId })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 mt-2"
+                >
+                  {Object.values(SHEET_SIZES).map(sheet => (
+                    <option key={sheet.id} value={sheet.id}>
+                      {sheet.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {imposition === 'saddle-stitch' && (
+                <p className="text-xs text-gray-500 mt-1">Print double-sided, flipping on the short edge, then fold and staple.</p>
+              )}
+              <label className="flex items-center mt-2">
+                <input
+                  type="checkbox"
+                  checked={exportSettings.includeCropMarks}
+                  onChange={(e) => updateExportSettings({ includeCropMarks: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="ml-2 text-sm">✂️ Crop marks</span>
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Color Output</label>
+              <select
+                value={exportSettings.colorMode}
+                onChange={(e) => updateExportSettings({ colorMode: e.target.value as ColorMode })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Object.entries(COLOR_MODE_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {exportSettings.colorMode === 'cmyk' && (
+                <>
+                  <p className="text-xs text-gray-500 mt-1">Black text and line art print on the black plate only.</p>
+                  <label className="flex items-center mt-2">
+                    <input
+                      type="checkbox"
+                      checked={!!exportSettings.pdfx}
+                      onChange={(e) => updateExportSettings({ pdfx: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span className="ml-2 text-sm">🏭 PDF/X-1a ({PDFX_OUTPUT_CONDITION.info})</span>
+                  </label>
+                </>
+              )}
+            </div>
+
             {/* Export Buttons */}
             <div className="space-y-3">
               <button
@@ -464,6 +862,28 @@ const PDFExport: React.FC = () => {
                 )}
               </button>
 
+              {isGenerating && (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-xs text-gray-600">
+                    <span>
+                      {renderProgress?.stage === 'rendering'
+                        ? `Rendering page ${Math.min(renderProgress.completed + 1, renderProgress.total)} of ${renderProgress.total}`
+                        : renderProgress?.stage === 'saving' ? 'Saving PDF...' : 'Preparing images...'}
+                    </span>
+                    <button onClick={cancelPDF} className="flex items-center gap-1 text-red-600 hover:text-red-700">
+                      <X size={12} />
+                      Cancel
+                    </button>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-red-600 h-2 rounded-full transition-all"
+                      style={{ width: `${renderProgress && renderProgress.total > 0 ? (renderProgress.completed / renderProgress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* NEW: Canva Export Button */}
               <button
                 onClick={() => setShowCanvaExport(true)}
@@ -473,6 +893,146 @@ const PDFExport: React.FC = () => {
                 <Palette size={20} />
                 Export to Canva
               </button>
+
+              <button
+                onClick={() => setShowMockups(true)}
+                disabled={!selectedProject}
+                className="w-full bg-purple-100 text-purple-800 border border-purple-300 py-3 px-4 rounded-lg hover:bg-purple-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold"
+              >
+                <span className="text-lg leading-none">📸</span>
+                Product Mockups
+              </button>
+
+              <button
+                onClick={generatePrintables}
+                disabled={!selectedProject || !!bundleProgress}
+                className="w-full bg-orange-500 text-white py-3 px-4 rounded-lg hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold"
+              >
+                <Download size={20} />
+                {bundleProgress?.stage === 'rendering'
+                  ? `Building printables (${bundleProgress.completed + 1}/${bundleProgress.total})...`
+                  : bundleProgress ? 'Packaging printables...' : 'Printable Download Bundle'}
+              </button>
+              <p className="text-xs text-gray-500 -mt-2">
+                Every coloring page as {Object.values(PRINTABLE_SIZES).map(size => size.name.split(' (')[0]).join(', ')} PNGs and PDFs,
+                with a license and watermarked listing previews.
+              </p>
+
+              <button
+                onClick={() => setShowLookInside(true)}
+                disabled={!selectedProject || previewPages.length === 0}
+                className="w-full bg-white text-gray-800 border border-gray-300 py-3 px-4 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold"
+              >
+                <span className="text-lg leading-none">👀</span>
+                Look Inside Preview
+              </button>
+
+              <button
+                onClick={() => setShowTypography(true)}
+                disabled={!selectedProject}
+                className="w-full bg-white text-gray-800 border border-gray-300 py-3 px-4 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold"
+              >
+                <span className="font-serif text-lg leading-none">Aa</span>
+                Typography
+                {selectedProject && (
+                  <span className="text-xs font-normal text-gray-500">
+                    ({TYPOGRAPHY_PRESET_LABELS[typography.preset]})
+                  </span>
+                )}
+              </button>
+
+              <button
+                onClick={() => setShowPageFrames(true)}
+                disabled={!selectedProject}
+                className="w-full bg-white text-gray-800 border border-gray-300 py-3 px-4 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold"
+              >
+                <span className="text-lg leading-none">🖼️</span>
+                Page Frames
+                {selectedProject && (
+                  <span className="text-xs font-normal text-gray-500">
+                    ({FRAME_STYLE_LABELS[pageFrames.style]}{pageFrames.numberBadge ? ', number badge' : ''})
+                  </span>
+                )}
+              </button>
+
+              <button
+                onClick={() => setShowPageNumbering(true)}
+                disabled={!selectedProject}
+                className="w-full bg-white text-gray-800 border border-gray-300 py-3 px-4 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold"
+              >
+                <span className="text-lg leading-none">#</span>
+                Page Numbers & Contents
+                {selectedProject && pageNumbering.tableOfContents !== 'none' && (
+                  <span className="text-xs font-normal text-gray-500">
+                    ({TABLE_OF_CONTENTS_LABELS[pageNumbering.tableOfContents]})
+                  </span>
+                )}
+              </button>
+
+              <button
+                onClick={() => setShowFrontMatter(true)}
+                disabled={!selectedProject}
+                className="w-full bg-white text-gray-800 border border-gray-300 py-3 px-4 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold"
+              >
+                <FileText size={20} />
+                Front & Back Matter
+              </button>
+            </div>
+
+            {/* Full-wrap cover */}
+            <div className="border-t pt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Cover Paper</label>
+              <select
+                value={paperType}
+                onChange={(e) => updatePaperType(e.target.value as PaperType)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 mb-3"
+              >
+                {Object.entries(PAPER_TYPE_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={generateCover}
+                disabled={!selectedProject || previewPages.length === 0 || isGeneratingCover}
+                className="w-full bg-gray-800 text-white py-3 px-4 rounded-lg hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold"
+              >
+                <BookOpen size={20} />
+                {isGeneratingCover ? 'Generating Cover...' : 'Export Full-Wrap Cover'}
+              </button>
+              <button
+                onClick={generatePrintPackage}
+                disabled={!selectedProject || previewPages.length === 0 || isGeneratingPackage}
+                className="w-full mt-3 bg-white text-gray-800 border border-gray-300 py-3 px-4 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold"
+              >
+                <Download size={20} />
+                {isGeneratingPackage ? 'Building Package...' : `${platform.name} Print Package`}
+              </button>
+              {isGeneratingPackage && (
+                <div className="space-y-1 mt-2">
+                  <div className="flex items-center justify-between text-xs text-gray-600">
+                    <span>
+                      {packageProgress?.stage === 'rendering'
+                        ? `Rendering interior page ${Math.min(packageProgress.completed + 1, packageProgress.total)} of ${packageProgress.total}`
+                        : packageProgress?.stage === 'saving' ? 'Building cover, ebook and package...' : 'Preparing images...'}
+                    </span>
+                    <button onClick={cancelPrintPackage} className="flex items-center gap-1 text-red-600 hover:text-red-700">
+                      <X size={12} />
+                      Cancel
+                    </button>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-gray-800 h-2 rounded-full transition-all"
+                      style={{ width: `${packageProgress && packageProgress.total > 0 ? (packageProgress.completed / packageProgress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                Interior, cover, ebook and an upload guide named the way {platform.name} expects
+              </p>
             </div>
           </div>
         </div>
@@ -488,6 +1048,15 @@ const PDFExport: React.FC = () => {
             <div>✅ Safe: {dimensions.safeWidth.toFixed(2)}" × {dimensions.safeHeight.toFixed(2)}"</div>
             <div>🎯 {settings.resolution} DPI</div>
             <div>📐 Bleed: {settings.bleed}"</div>
+            <div>🎨 {exportSettings.colorMode.toUpperCase()}{colorOptions.pdfx && ' · PDF/X-1a:2001'}</div>
+            {imposition !== 'none' && (
+              <div>🖨️ {countImposedSheets(previewPages.length, imposition)} {SHEET_SIZES[impositionSheet].name.split(' (')[0]} sheets
+                {imposition === 'saddle-stitch' && ' (double-sided)'}
+              </div>
+            )}
+            <div>📚 Spine: {calculateSpineWidth(printPageCount, paperType, platform.id).toFixed(3)}"
+              {printPageCount < platform.cover.spineTextMinPages && ' (too thin for spine text)'}
+            </div>
           </div>
         </div>
 
@@ -513,6 +1082,39 @@ const PDFExport: React.FC = () => {
         </div>
       </div>
 
+      {/* Two-page spread preview */}
+      {currentSpread && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold flex items-center gap-2">
+              <BookOpen size={20} />
+              Spread Preview
+            </h3>
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <button
+                onClick={() => setSpreadIndex(i => Math.max(0, i - 1))}
+                disabled={spreadIndex === 0}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+              >
+                <ChevronLeft size={18} />
+              </button>
+              <span>Spread {Math.min(spreadIndex, spreads.length - 1) + 1} of {spreads.length}</span>
+              <button
+                onClick={() => setSpreadIndex(i => Math.min(spreads.length - 1, i + 1))}
+                disabled={spreadIndex >= spreads.length - 1}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+              >
+                <ChevronRight size={18} />
+              </button>
+            </div>
+          </div>
+          <div className="flex justify-center bg-gray-100 rounded-lg p-6">
+            {renderPreviewPage(currentSpread.left, 'left')}
+            {renderPreviewPage(currentSpread.right, 'right')}
+          </div>
+        </div>
+      )}
+
       {/* Export Options Banner */}
       <div className="bg-gradient-to-r from-purple-50 to-blue-50 border border-purple-200 rounded-lg p-6 mb-6">
         <h3 className="font-semibold text-purple-900 mb-3">🎨 Export Options Available</h3>
@@ -583,6 +1185,45 @@ const PDFExport: React.FC = () => {
         onClose={() => setShowCanvaExport(false)}
         projectId={selectedProject}
       />
+
+      <MockupExport
+        isOpen={showMockups}
+        onClose={() => setShowMockups(false)}
+        projectId={selectedProject}
+        trimSize={settings.pageSize}
+      />
+
+      <FrontMatterEditor
+        isOpen={showFrontMatter}
+        onClose={() => setShowFrontMatter(false)}
+        projectId={selectedProject}
+      />
+
+      <TypographySettings
+        isOpen={showTypography}
+        onClose={() => setShowTypography(false)}
+        projectId={selectedProject}
+      />
+
+      <PageFramePicker
+        isOpen={showPageFrames}
+        onClose={() => setShowPageFrames(false)}
+        projectId={selectedProject}
+      />
+
+      <PageNumberingEditor
+        isOpen={showPageNumbering}
+        onClose={() => setShowPageNumbering(false)}
+        projectId={selectedProject}
+      />
+
+      <LookInsideExport
+        isOpen={showLookInside}
+        onClose={() => setShowLookInside(false)}
+        projectId={selectedProject}
+        pages={previewPages}
+        trimSize={settings.pageSize}
+      />
     </div>
   );
 };
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { PageFrameSettings, PageFrameStyle, FramePageType } from '../types';
+import {
+  FRAME_STYLE_LABELS,
+  FRAME_PAGE_TYPE_LABELS,
+  resolvePageFrames,
+  buildFrameLayout,
+  frameToDataURL
+} from '../utils/pageFrames';
+
+interface PageFramePickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId?: string;
+}
+
+// Thumbnails use a 6" x 9" page with half-inch margins
+const THUMB_WIDTH = 6;
+const THUMB_HEIGHT = 9;
+const THUMB_SAFE_AREA = { x: 0.5, y: 0.5, width: THUMB_WIDTH - 1, height: THUMB_HEIGHT - 1 };
+
+const PageFramePicker: React.FC<PageFramePickerProps> = ({ isOpen, onClose, projectId }) => {
+  const { projects, updateProject, addNotification } = useAppStore();
+  const project = projects.find(p => p.id === projectId);
+
+  const [frames, setFrames] = useState<PageFrameSettings>(resolvePageFrames());
+
+  useEffect(() => {
+    if (!isOpen || !project) return;
+    setFrames(resolvePageFrames(project.metadata?.pageFrames));
+  }, [isOpen, projectId]);
+
+  if (!isOpen || !project) return null;
+
+  const thumbnail = (style: PageFrameStyle) =>
+    frameToDataURL(buildFrameLayout(style, THUMB_SAFE_AREA, frames.numberBadge), THUMB_WIDTH, THUMB_HEIGHT, { pageLabel: '7' });
+
+  const setPageTypeStyle = (pageType: FramePageType, value: string) => {
+    setFrames(prev => {
+      const byPageType = { ...prev.byPageType };
+      if (value) {
+        byPageType[pageType] = value as PageFrameStyle;
+      } else {
+        delete byPageType[pageType];
+      }
+      return { ...prev, byPageType };
+    });
+  };
+
+  const saveFrames = async () => {
+    await updateProject(project.id, { metadata: { ...project.metadata, pageFrames: frames } });
+    addNotification({ type: 'success', message: 'Page frames saved. They apply to PDF, EPUB and Canva exports.' });
+    onClose();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">🖼️ Page Frames</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+              ×
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {/* Book-wide frame */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Frame for the whole book</label>
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+                {(Object.keys(FRAME_STYLE_LABELS) as PageFrameStyle[]).map(style => (
+                  <button
+                    key={style}
+                    onClick={() => setFrames(prev => ({ ...prev, style }))}
+                    className={`border rounded-lg p-2 text-xs text-center ${
+                      frames.style === style ? 'border-blue-600 ring-2 ring-blue-500' : 'border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    <img
+                      src={thumbnail(style)}
+                      alt=""
+                      className="w-full bg-white border border-gray-200 mb-1"
+                      style={{ aspectRatio: `${THUMB_WIDTH} / ${THUMB_HEIGHT}` }}
+                    />
+                    {FRAME_STYLE_LABELS[style]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Per page type overrides */}
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <h3 className="font-semibold text-gray-900 mb-3">By page type</h3>
+              <div className="grid gap-3 md:grid-cols-3">
+                {(Object.keys(FRAME_PAGE_TYPE_LABELS) as FramePageType[]).map(pageType => (
+                  <div key={pageType}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{FRAME_PAGE_TYPE_LABELS[pageType]}</label>
+                    <select
+                      value={frames.byPageType?.[pageType] || ''}
+                      onChange={(e) => setPageTypeStyle(pageType, e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="">Same as book</option>
+                      {Object.entries(FRAME_STYLE_LABELS).map(([key, label]) => (
+                        <option key={key} value={key}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">Covers and blank pages are never framed.</p>
+            </div>
+
+            <label className="flex items-center text-sm">
+              <input
+                type="checkbox"
+                checked={frames.numberBadge}
+                onChange={(e) => setFrames(prev => ({ ...prev, numberBadge: e.target.checked }))}
+                className="rounded"
+              />
+              <span className="ml-2">Show page numbers in a badge at the foot of the page</span>
+            </label>
+
+            <p className="text-xs text-gray-500">
+              Frames are drawn inside the safe area, so they are never trimmed off, and page content moves inside the frame.
+              Ebooks show the frame behind each page but no page numbers.
+            </p>
+
+            <button
+              onClick={saveFrames}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 font-semibold"
+            >
+              Save Page Frames
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PageFramePicker;
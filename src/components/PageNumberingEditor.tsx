@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { PageNumberingSettings, PageNumberPosition, TableOfContentsSource } from '../types';
+import {
+  PAGE_NUMBER_POSITION_LABELS,
+  TABLE_OF_CONTENTS_LABELS,
+  resolvePageNumbering,
+  toRoman
+} from '../utils/pageNumbering';
+
+interface PageNumberingEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId?: string;
+}
+
+const PageNumberingEditor: React.FC<PageNumberingEditorProps> = ({ isOpen, onClose, projectId }) => {
+  const { projects, updateProject, addNotification } = useAppStore();
+  const project = projects.find(p => p.id === projectId);
+
+  const [numbering, setNumbering] = useState<PageNumberingSettings>(resolvePageNumbering());
+
+  useEffect(() => {
+    if (!isOpen || !project) return;
+    setNumbering(resolvePageNumbering(project.metadata?.pageNumbering));
+  }, [isOpen, projectId]);
+
+  if (!isOpen || !project) return null;
+
+  const updateNumbering = (updates: Partial<PageNumberingSettings>) => {
+    setNumbering(prev => ({ ...prev, ...updates }));
+  };
+
+  const saveNumbering = async () => {
+    await updateProject(project.id, { metadata: { ...project.metadata, pageNumbering: resolvePageNumbering(numbering) } });
+    addNotification({ type: 'success', message: 'Page numbering saved. It applies to PDF exports and the EPUB contents.' });
+    onClose();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+  const sample = numbering.romanFrontMatter
+    ? `${toRoman(1)}, ${toRoman(2)}, ${toRoman(3)} … then ${numbering.startAt}, ${numbering.startAt + 1}, ${numbering.startAt + 2} …`
+    : `${numbering.startAt}, ${numbering.startAt + 1}, ${numbering.startAt + 2} …`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">#️⃣ Page Numbers & Contents</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+              ×
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+              <h3 className="font-semibold text-gray-900">Numbering</h3>
+              <label className="flex items-center text-sm">
+                <input
+                  type="checkbox"
+                  checked={numbering.romanFrontMatter}
+                  onChange={(e) => updateNumbering({ romanFrontMatter: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="ml-2">Roman numerals (i, ii, iii) for front matter</span>
+              </label>
+              <label className="flex items-center text-sm">
+                <input
+                  type="checkbox"
+                  checked={numbering.skipIllustrations}
+                  onChange={(e) => updateNumbering({ skipIllustrations: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="ml-2">Don't print numbers on coloring pages</span>
+              </label>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {numbering.romanFrontMatter ? 'First story page number' : 'First page number'}
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={numbering.startAt}
+                    onChange={(e) => updateNumbering({ startAt: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Position</label>
+                  <select
+                    value={numbering.position}
+                    onChange={(e) => updateNumbering({ position: e.target.value as PageNumberPosition })}
+                    className={inputClass}
+                  >
+                    {Object.entries(PAGE_NUMBER_POSITION_LABELS).map(([key, label]) => (
+                      <option key={key} value={key}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Pages run {sample}. The title page and blank pages are counted but never show a number.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Table of contents</label>
+              <select
+                value={numbering.tableOfContents}
+                onChange={(e) => updateNumbering({ tableOfContents: e.target.value as TableOfContentsSource })}
+                className={inputClass}
+              >
+                {Object.entries(TABLE_OF_CONTENTS_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                A contents page is added after the front matter. In the EPUB it becomes the book's navigation.
+              </p>
+            </div>
+
+            <button
+              onClick={saveNumbering}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 font-semibold"
+            >
+              Save Page Numbering
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PageNumberingEditor;
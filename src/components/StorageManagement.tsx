@@ -1,5 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../store/useAppStore';
+import { persistentStorage } from '../utils/persistentStorage';
+import { formatMigrationReport } from '../utils/storageMigrations';
+import SyncConflictResolver from './SyncConflictResolver';
+import SyncDeadLetters from './SyncDeadLetters';
 
 interface StorageManagementProps {
   isOpen: boolean;
@@ -32,6 +36,8 @@ const StorageManagement: React.FC<StorageManagementProps> = ({ isOpen, onClose }
   const [isDriveConnecting, setIsDriveConnecting] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
 
+  const migrationHistory = isOpen ? persistentStorage.getMigrationHistory() : [];
+
   useEffect(() => {
     if (isOpen) {
       updateStorageStats();
@@ -225,6 +231,40 @@ const StorageManagement: React.FC<StorageManagementProps> = ({ isOpen, onClose }
                 <span>Pending Items:</span>
                 <span className="font-mono">{syncStatus.queueSize} items</span>
               </div>
+
+              {syncStatus.failed > 0 && (
+                <div className="flex justify-between">
+                  <span>Retrying:</span>
+                  <span className="text-sm text-yellow-700">
+                    {syncStatus.failed} failed
+                    {syncStatus.nextRetryAt && `, next try ${new Date(syncStatus.nextRetryAt).toLocaleTimeString()}`}
+                  </span>
+                </div>
+              )}
+
+              {syncStatus.upload && (
+                <div>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span>Uploading {syncStatus.upload.type}:</span>
+                    <span className="font-mono">
+                      {formatBytes(syncStatus.upload.loaded)} / {formatBytes(syncStatus.upload.total)}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full"
+                      style={{ width: `${syncStatus.upload.total ? Math.round((syncStatus.upload.loaded / syncStatus.upload.total) * 100) : 0}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {syncStatus.conflicts > 0 && (
+                <div className="flex justify-between">
+                  <span>Conflicts:</span>
+                  <span className="font-mono text-red-600">{syncStatus.conflicts} to resolve</span>
+                </div>
+              )}
               
               <div className="flex justify-between">
                 <span>Last Sync:</span>
@@ -405,6 +445,12 @@ const StorageManagement: React.FC<StorageManagementProps> = ({ isOpen, onClose }
             </div>
           </div>
 
+          {/* Sync Conflicts */}
+          <SyncConflictResolver />
+
+          {/* Failed Syncs */}
+          <SyncDeadLetters />
+
           {/* Storage Information */}
           <div className="bg-gray-50 p-4 rounded-lg">
             <h3 className="text-lg font-semibold mb-3">📊 Storage Information</h3>
@@ -428,6 +474,19 @@ const StorageManagement: React.FC<StorageManagementProps> = ({ isOpen, onClose }
                 </ul>
               </div>
             </div>
+            {migrationHistory.length > 0 && (
+              <div className="mt-4 text-sm">
+                <h4 className="font-semibold mb-2">Schema Migrations</h4>
+                <ul className="space-y-1 text-gray-600">
+                  {migrationHistory.slice(-5).reverse().map(report => (
+                    <li key={`${report.source}-${report.ranAt}`}>
+                      • {new Date(report.ranAt).toLocaleString()} ({report.source === 'import' ? 'backup import' : 'database upgrade'}):{' '}
+                      {formatMigrationReport(report)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           {/* Performance Tips */}
@@ -3,6 +3,9 @@ import { Sparkles, BookOpen, Settings, Wand2, Download, RefreshCw, Edit } from '
 import { useAppStore } from '../store/useAppStore';
 import { AIService, StoryGenerationParams } from '../utils/aiService';
 import { StoryData, StoryPage } from '../types';
+import ImageQualityPanel from './ImageQualityPanel';
+import { imageDataToBlob } from '../utils/pageImages';
+import { useImageSource } from '../utils/blobStore';
 import './StoryGenerator.css';
 
 const StoryGenerator: React.FC = () => {
@@ -769,6 +772,7 @@ const StoryPageCard: React.FC<StoryPageCardProps> = ({
   const [isApplyingMagicEdit, setIsApplyingMagicEdit] = useState(false);
   
   const { apiSettings, addNotification } = useAppStore();
+  const imageSrc = useImageSource(page.imageData);
 
   const handleSaveStoryEdit = () => {
     onEditStory(pageIndex, editedStoryText);
@@ -790,26 +794,24 @@ const StoryPageCard: React.FC<StoryPageCardProps> = ({
     setIsEditingPrompt(false);
   };
 
-  const downloadImage = () => {
+  const downloadImage = async () => {
     if (!page.imageData) return;
-    
-    // For SVG images
-    if (page.imageData.includes('<svg')) {
-      const svgBlob = new Blob([page.imageData], { type: 'image/svg+xml' });
-      const url = URL.createObjectURL(svgBlob);
-      
+
+    try {
+      // SVG markup, base64 and stored images all come back as a typed Blob
+      const blob = await imageDataToBlob(page.imageData);
+      const extension = blob.type === 'image/svg+xml' ? 'svg' : blob.type === 'image/jpeg' ? 'jpg' : 'png';
+      const url = URL.createObjectURL(blob);
+
       const link = document.createElement('a');
-      link.download = `story-page-${page.pageNumber}.svg`;
+      link.download = `story-page-${page.pageNumber}.${extension}`;
       link.href = url;
       link.click();
-      
+
       URL.revokeObjectURL(url);
-    } else {
-      // For other image types
-      const link = document.createElement('a');
-      link.download = `story-page-${page.pageNumber}.png`;
-      link.href = page.imageData;
-      link.click();
+    } catch (error) {
+      console.error('Image download failed:', error);
+      addNotification({ type: 'error', message: 'Could not download the image' });
     }
   };
 
@@ -1111,12 +1113,15 @@ const StoryPageCard: React.FC<StoryPageCardProps> = ({
                 </div>
               </div>
               <div className="border rounded p-2 bg-white max-h-96 overflow-auto">
-                <img 
-                  src={`data:image/png;base64,${page.imageData}`} 
-                  alt={`Generated illustration for page ${pageIndex + 1}`}
-                  className="w-full h-auto rounded"
-                />
+                {imageSrc && (
+                  <img 
+                    src={imageSrc} 
+                    alt={`Generated illustration for page ${pageIndex + 1}`}
+                    className="w-full h-auto rounded"
+                  />
+                )}
               </div>
+              <ImageQualityPanel imageData={page.imageData} ageGroup={metadata?.targetAgeGroup} />
             </div>
           ) : (
             <div className="bg-blue-50 border-2 border-blue-200 rounded-lg p-6 text-center">
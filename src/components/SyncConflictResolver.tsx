@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { persistentStorage } from '../utils/persistentStorage';
+import { SyncChoice, conflictKey } from '../utils/syncMerge';
+import { SyncConflict } from '../types';
+import { isBlobRef } from '../utils/pageImages';
+
+// Characters of a conflicting value shown before it is cut short
+const VALUE_PREVIEW_LENGTH = 240;
+
+const isImageValue = (value: string): boolean => value.startsWith('data:image') || isBlobRef(value);
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '(removed)';
+  if (typeof value === 'string') {
+    if (isImageValue(value) || /^[A-Za-z0-9+/=]{500,}$/.test(value)) return '[image]';
+    return value.length > VALUE_PREVIEW_LENGTH ? `${value.slice(0, VALUE_PREVIEW_LENGTH)}…` : value || '(empty)';
+  }
+  if (typeof value === 'object') {
+    const json = JSON.stringify(value, (_key, item) => (typeof item === 'string' && isImageValue(item) ? '[image]' : item));
+    return json.length > VALUE_PREVIEW_LENGTH ? `${json.slice(0, VALUE_PREVIEW_LENGTH)}…` : json;
+  }
+  return String(value);
+};
+
+const SyncConflictResolver: React.FC = () => {
+  const { syncStatus, updateSyncStatus, addNotification } = useAppStore();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [choices, setChoices] = useState<Record<string, Record<string, SyncChoice>>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    persistentStorage.getSyncConflicts().then(result => {
+      if (!cancelled) setConflicts(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [syncStatus.conflicts]);
+
+  if (conflicts.length === 0) return null;
+
+  const choose = (conflictId: string, key: string, choice: SyncChoice) => {
+    setChoices(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [key]: choice } }));
+  };
+
+  const resolve = async (conflict: SyncConflict, resolution: 'local' | 'remote' | 'merge') => {
+    setResolving(conflict.id);
+    try {
+      await persistentStorage.resolveSyncConflict(conflict.id, resolution, choices[conflict.id]);
+      setConflicts(prev => prev.filter(item => item.id !== conflict.id));
+      updateSyncStatus();
+      addNotification({
+        type: 'success',
+        message: `"${conflict.title}" resolved - ${
+          resolution === 'local' ? 'kept your copy' : resolution === 'remote' ? 'kept the server copy' : 'merged'
+        }`
+      });
+    } catch (error) {
+      console.error('Conflict resolution failed:', error);
+      addNotification({ type: 'error', message: `Could not resolve "${conflict.title}"` });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="bg-red-50 border border-red-200 p-4 rounded-lg">
+      <h3 className="text-lg font-semibold mb-1">⚠️ Sync Conflicts</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        These were changed here and on the server at the same time. Everything else merged automatically -
+        pick which copy wins for the fields below.
+      </p>
+
+      <div className="space-y-4">
+        {conflicts.map(conflict => (
+          <div key={conflict.id} className="bg-white border border-gray-200 rounded-lg p-3">
+            <div className="flex justify-between items-baseline mb-2">
+              <span className="font-semibold text-gray-900">{conflict.title}</span>
+              <span className="text-xs text-gray-500">
+                {conflict.type} • server v{conflict.remoteVersion} • {new Date(conflict.detectedAt).toLocaleString()}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-xs">
+              <div className="font-semibold text-gray-700">Field</div>
+              <div className="font-semibold text-gray-700">Mine</div>
+              <div className="font-semibold text-gray-700">Theirs</div>
+              {conflict.conflicts.map(field => {
+                const key = conflictKey(field);
+                const choice = choices[conflict.id]?.[key] || 'local';
+                return (
+                  <React.Fragment key={key}>
+                    <div className="text-gray-700 py-1">{field.label}</div>
+                    {(['local', 'remote'] as SyncChoice[]).map(side => (
+                      <label
+                        key={side}
+                        className={`flex items-start gap-2 p-1 rounded cursor-pointer break-all ${
+                          choice === side ? 'bg-blue-50 ring-1 ring-blue-300' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name={`${conflict.id}-${key}`}
+                          checked={choice === side}
+                          onChange={() => choose(conflict.id, key, side)}
+                          className="mt-0.5"
+                        />
+                        <span className="font-mono text-gray-800">{formatValue(field[side])}</span>
+                      </label>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+            </div>
+
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => resolve(conflict, 'local')}
+                disabled={resolving === conflict.id}
+                className="flex-1 bg-gray-100 text-gray-800 py-1.5 px-3 rounded hover:bg-gray-200 disabled:opacity-50 text-sm"
+              >
+                Keep mine
+              </button>
+              <button
+                onClick={() => resolve(conflict, 'remote')}
+                disabled={resolving === conflict.id}
+                className="flex-1 bg-gray-100 text-gray-800 py-1.5 px-3 rounded hover:bg-gray-200 disabled:opacity-50 text-sm"
+              >
+                Keep theirs
+              </button>
+              <button
+                onClick={() => resolve(conflict, 'merge')}
+                disabled={resolving === conflict.id}
+                className="flex-1 bg-blue-600 text-white py-1.5 px-3 rounded hover:bg-blue-700 disabled:opacity-50 text-sm"
+              >
+                Merge with selected fields
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictResolver;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { persistentStorage } from '../utils/persistentStorage';
+
+const ACTION_LABELS: Record<string, string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete'
+};
+
+const SyncDeadLetters: React.FC = () => {
+  const { syncStatus, updateSyncStatus, addNotification } = useAppStore();
+
+  // The count in the store changes whenever the list does
+  const items = syncStatus.deadLetters > 0 ? persistentStorage.getDeadLetters() : [];
+  if (items.length === 0) return null;
+
+  const retry = (key?: string) => {
+    persistentStorage.retryDeadLetters(key);
+    updateSyncStatus();
+    addNotification({ type: 'info', message: key ? 'Sync item queued again' : `${items.length} sync items queued again` });
+  };
+
+  const discard = (key?: string) => {
+    persistentStorage.discardDeadLetters(key);
+    updateSyncStatus();
+    addNotification({ type: 'info', message: key ? 'Sync item discarded' : 'Failed sync items discarded' });
+  };
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-lg font-semibold">🚫 Failed Syncs</h3>
+        <div className="flex gap-2">
+          <button onClick={() => retry()} className="text-xs bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700">
+            Retry all
+          </button>
+          <button onClick={() => discard()} className="text-xs bg-gray-200 text-gray-800 px-3 py-1 rounded hover:bg-gray-300">
+            Discard all
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        These changes could not reach the server after several attempts. They are still saved on this device.
+      </p>
+
+      <ul className="space-y-2">
+        {items.map(item => {
+          const key = persistentStorage.getDeadLetterKey(item);
+          return (
+            <li key={key} className="bg-white border border-gray-200 rounded p-3 text-sm">
+              <div className="flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <div className="font-semibold text-gray-900">
+                    {ACTION_LABELS[item.action] || item.action} {item.type}{' '}
+                    <span className="font-normal text-gray-600">{item.data?.title || item.id}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {item.retryCount} attempts • last failed {new Date(item.failedAt).toLocaleString()}
+                  </div>
+                  {item.lastError && <div className="text-xs text-red-600 mt-1 break-words">{item.lastError}</div>}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={() => retry(key)} className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded hover:bg-blue-200">
+                    Retry
+                  </button>
+                  <button onClick={() => discard(key)} className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded hover:bg-gray-200">
+                    Discard
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SyncDeadLetters;
@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { TypographyProfile, TypographyPresetId, TextAlignment } from '../types';
+import {
+  TYPOGRAPHY_PRESET_LABELS,
+  FONT_FAMILY_LABELS,
+  TEXT_ALIGNMENT_LABELS,
+  resolveTypography,
+  applyTypographyPreset,
+  readFontFile,
+  loadFontFace,
+  getCSSFontStack
+} from '../utils/typography';
+
+interface TypographySettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId?: string;
+}
+
+const SAMPLE_TEXT =
+  'Once upon a time, in a forest full of whispering trees, a little fox found a map that glowed in the moonlight.';
+
+const TypographySettings: React.FC<TypographySettingsProps> = ({ isOpen, onClose, projectId }) => {
+  const { projects, updateProject, addNotification } = useAppStore();
+  const project = projects.find(p => p.id === projectId);
+
+  const [profile, setProfile] = useState<TypographyProfile>(resolveTypography());
+  const [fontError, setFontError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !project) return;
+    setProfile(resolveTypography(project.metadata?.typography));
+    setFontError(null);
+  }, [isOpen, projectId]);
+
+  // Load the uploaded font so the sample renders in it
+  useEffect(() => {
+    loadFontFace(profile).catch(() => setFontError('The uploaded font could not be previewed'));
+  }, [profile.customFont, profile.fontFamily]);
+
+  if (!isOpen || !project) return null;
+
+  // Any manual change turns the profile into a custom one
+  const updateProfile = (updates: Partial<TypographyProfile>) => {
+    setProfile(prev => ({ ...prev, ...updates, preset: 'custom' }));
+  };
+
+  const selectPreset = (preset: TypographyPresetId) => {
+    if (preset === 'custom') {
+      setProfile(prev => ({ ...prev, preset }));
+      return;
+    }
+    setProfile(prev => applyTypographyPreset(prev, preset));
+  };
+
+  const handleFontUpload = async (file?: File) => {
+    if (!file) return;
+    setFontError(null);
+    try {
+      const customFont = await readFontFile(file);
+      setProfile(prev => ({ ...prev, customFont, fontFamily: 'custom' }));
+    } catch (error) {
+      setFontError(error instanceof Error ? error.message : 'Font could not be read');
+    }
+  };
+
+  const saveProfile = async () => {
+    await updateProject(project.id, { metadata: { ...project.metadata, typography: profile } });
+    addNotification({ type: 'success', message: 'Typography saved. It applies to PDF, EPUB and Canva exports.' });
+    onClose();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">🔤 Typography</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+              ×
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {/* Presets */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Preset</label>
+              <select value={profile.preset} onChange={(e) => selectPreset(e.target.value as TypographyPresetId)} className={inputClass}>
+                {Object.entries(TYPOGRAPHY_PRESET_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {profile.preset === 'dyslexia-friendly' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Tip: upload a font designed for dyslexic readers, such as Lexend or OpenDyslexic, for the best results.
+                </p>
+              )}
+            </div>
+
+            {/* Font */}
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <h3 className="font-semibold text-gray-900 mb-3">Font</h3>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Family</label>
+                  <select
+                    value={profile.fontFamily}
+                    onChange={(e) => updateProfile({ fontFamily: e.target.value as TypographyProfile['fontFamily'] })}
+                    className={inputClass}
+                  >
+                    {Object.entries(FONT_FAMILY_LABELS).map(([key, label]) => (
+                      <option key={key} value={key} disabled={key === 'custom' && !profile.customFont}>
+                        {key === 'custom' && profile.customFont ? `${label}: ${profile.customFont.name}` : label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Upload TTF / OTF</label>
+                  <input
+                    type="file"
+                    accept=".ttf,.otf,font/ttf,font/otf"
+                    onChange={(e) => handleFontUpload(e.target.files?.[0])}
+                    className="w-full text-sm"
+                  />
+                </div>
+              </div>
+              {fontError && <p className="text-xs text-red-600 mt-2">{fontError}</p>}
+              <p className="text-xs text-gray-500 mt-2">
+                Uploaded fonts are embedded in every PDF and EPUB. Make sure the font's licence allows embedding.
+              </p>
+            </div>
+
+            {/* Size and spacing */}
+            <div className="grid gap-3 md:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Text size: {profile.fontSize}pt</label>
+                <input
+                  type="range"
+                  min={9}
+                  max={28}
+                  value={profile.fontSize}
+                  onChange={(e) => updateProfile({ fontSize: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Heading size: {profile.headingSize}pt</label>
+                <input
+                  type="range"
+                  min={12}
+                  max={40}
+                  value={profile.headingSize}
+                  onChange={(e) => updateProfile({ headingSize: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Line height: {profile.lineHeight.toFixed(1)}×</label>
+                <input
+                  type="range"
+                  min={1}
+                  max={2.5}
+                  step={0.1}
+                  value={profile.lineHeight}
+                  onChange={(e) => updateProfile({ lineHeight: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Letter spacing: {profile.letterSpacing.toFixed(2)}em</label>
+                <input
+                  type="range"
+                  min={0}
+                  max={0.2}
+                  step={0.01}
+                  value={profile.letterSpacing}
+                  onChange={(e) => updateProfile({ letterSpacing: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Alignment</label>
+                <div className="flex gap-2">
+                  {(Object.keys(TEXT_ALIGNMENT_LABELS) as TextAlignment[]).map(alignment => (
+                    <button
+                      key={alignment}
+                      onClick={() => updateProfile({ alignment })}
+                      className={`flex-1 py-2 rounded-lg border text-sm ${
+                        profile.alignment === alignment ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {TEXT_ALIGNMENT_LABELS[alignment]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Sample */}
+            <div className="border border-gray-200 rounded-lg p-4">
+              <div className="text-xs text-gray-500 mb-2">Preview</div>
+              <div style={{ fontFamily: getCSSFontStack(profile) }}>
+                <div style={{ fontSize: `${profile.headingSize}pt`, fontWeight: profile.customFont && profile.fontFamily === 'custom' ? 'normal' : 'bold' }}>
+                  Chapter 1
+                </div>
+                <p
+                  style={{
+                    fontSize: `${profile.fontSize}pt`,
+                    lineHeight: profile.lineHeight,
+                    letterSpacing: `${profile.letterSpacing}em`,
+                    textAlign: profile.alignment
+                  }}
+                >
+                  {SAMPLE_TEXT}
+                </p>
+              </div>
+            </div>
+
+            <button
+              onClick={saveProfile}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 font-semibold"
+            >
+              Save Typography
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TypographySettings;
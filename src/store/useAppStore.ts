@@ -10,7 +10,8 @@ import {
   Section,
   ComplianceResults
 } from '../types';
-import { persistentStorage } from '../utils/persistentStorage';
+import { persistentStorage, SyncUploadProgress } from '../utils/persistentStorage';
+import { formatMigrationReport } from '../utils/storageMigrations';
 import backendAPI from '../utils/backendAPI';
 import driveService from '../utils/driveService';
 
@@ -71,6 +72,11 @@ interface AppState {
     isOnline: boolean;
     syncInProgress: boolean;
     queueSize: number;
+    conflicts: number;
+    upload: SyncUploadProgress | null;
+    failed: number;
+    deadLetters: number;
+    nextRetryAt: string | null;
     lastSync: string | null;
   };
   // Google Drive
@@ -188,16 +194,18 @@ export const useAppStore = create<AppState>()(
       historyStep: -1,
       exportSettings: {
         pageSize: 'letter',
-        margins: {
-          vertical: 0.5,
-          horizontal: 0.5
-        },
         quality: 'print-high',
         colorMode: 'rgb',
+        pdfx: false,
         includeBleed: false,
         includeCropMarks: false,
         includeColorBars: false,
-        doubleSided: false
+        doubleSided: false,
+        interiorLayout: 'continuous',
+        colorTestBacks: false,
+        imposition: 'none',
+        impositionSheet: 'letter',
+        printPlatform: 'kdp'
       },
       lastComplianceResults: null,
       storageStats: {
@@ -212,6 +220,11 @@ export const useAppStore = create<AppState>()(
         isOnline: navigator.onLine,
         syncInProgress: false,
         queueSize: 0,
+        conflicts: 0,
+        upload: null,
+        failed: 0,
+        deadLetters: 0,
+        nextRetryAt: null,
         lastSync: null
       },
       driveConnected: false,
@@ -449,15 +462,13 @@ export const useAppStore = create<AppState>()(
         set({ isLoading: true });
         
         try {
-          const project: Project = {
+          // Always save to persistent storage for now; the stored copy references its artwork
+          const project = await persistentStorage.saveProject({
             ...projectData,
             id: generateId(),
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString()
-          };
-          
-          // Always save to persistent storage for now
-          await persistentStorage.saveProject(project);
+          });
           
           set((state) => ({
             projects: [...state.projects, project],
@@ -492,8 +503,7 @@ export const useAppStore = create<AppState>()(
           // Update in persistent storage
           const currentProject = get().projects.find(p => p.id === id);
           if (currentProject) {
-            const fullProject = { ...currentProject, ...updatedProject };
-            await persistentStorage.saveProject(fullProject);
+            const fullProject = await persistentStorage.saveProject({ ...currentProject, ...updatedProject });
             
             set((state) => ({
               projects: state.projects.map(p => 
@@ -569,11 +579,11 @@ export const useAppStore = create<AppState>()(
           };
           
           // Save to persistent storage
-          await persistentStorage.saveProject(duplicate);
+          const saved = await persistentStorage.saveProject(duplicate);
           
           // Update state
           set((state) => ({
-            projects: [...state.projects, duplicate],
+            projects: [...state.projects, saved],
             isLoading: false
           }));
           
@@ -843,14 +853,16 @@ export const useAppStore = create<AppState>()(
         try {
           set({ isLoading: true });
           
-          await persistentStorage.importData(jsonData);
+          const report = await persistentStorage.importData(jsonData);
           
           // Reload projects after import
           await get().loadProjects();
           
           get().addNotification({
             type: 'success',
-            message: 'Data imported successfully!'
+            message: report.applied.length > 0
+              ? `Data imported successfully! ${formatMigrationReport(report)}`
+              : 'Data imported successfully!'
           });
           
           set({ isLoading: false });
@@ -999,4 +1011,18 @@ export const useAppStore = create<AppState>()(
       })
     }
   )
-);
\ No newline at end of file
+);
+
+// Sync merges and conflict resolutions rewrite stored projects behind the store's back
+persistentStorage.onRecordsChanged(async () => {
+  const { loadProjects, updateSyncStatus } = useAppStore.getState();
+  await loadProjects();
+  useAppStore.setState((state) => ({
+    currentProject: state.currentProject
+      ? state.projects.find(p => p.id === state.currentProject!.id) || state.currentProject
+      : null
+  }));
+  updateSyncStatus();
+});
+
+persistentStorage.onSyncProgress(() => useAppStore.getState().updateSyncStatus());
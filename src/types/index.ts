@@ -4,22 +4,80 @@ export interface Project {
   description?: string;
   pages: Page[];
   currentStory?: StoryData;
-  drawings?: any[];
+  drawings?: ProjectDrawing[];
   metadata: ProjectMetadata;
   createdAt: string;
   updatedAt: string;
+  // Local storage and sync bookkeeping, kept apart from the book's own metadata
+  storage?: StorageMetadata;
+}
+
+export interface ProjectDrawing {
+  id: string;
+  dataUrl: string;
+  name?: string;
+  createdAt?: string;
+}
+
+export interface StorageMetadata {
+  id: string;
+  type: string;
+  // Local revision, bumped on every save
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  size?: number;
+  syncStatus: 'local' | 'synced' | 'conflict' | 'syncing';
+  cloudId?: string;
+  // Server version the local edits started from; unset until first synced
+  baseVersion?: number;
+  // Where an uploaded image or drawing lives on the server
+  remoteUrl?: string;
+  // Uploaded canvas image behind a synced drawing
+  remoteImageId?: string;
+}
+
+export type SyncRecordType = 'project' | 'story';
+
+// One field both sides changed differently since the last sync. Paths run
+// through pages by page id, e.g. ['pages', 'abc123', 'content', 'text']
+export interface SyncFieldConflict {
+  path: string[];
+  label: string;
+  base?: unknown;
+  local?: unknown;
+  remote?: unknown;
+}
+
+// A local record whose server copy diverged in ways the merge couldn't settle
+export interface SyncConflict {
+  id: string;
+  type: SyncRecordType;
+  recordId: string;
+  title: string;
+  local: any;
+  remote: any;
+  // Three-way merge with conflicting fields taken from the local copy
+  merged: any;
+  conflicts: SyncFieldConflict[];
+  remoteVersion: number;
+  detectedAt: string;
 }
 
 export interface Page {
   id: string;
-  type: 'story' | 'coloring' | 'cover';
+  type: 'story' | 'coloring' | 'cover' | MatterPageType;
   pageNumber: number;
   content: PageContent;
   createdAt: string;
   updatedAt: string;
 }
 
+// Generated front and back matter, stored as ordinary editable pages
+export type MatterPageType = 'title' | 'copyright' | 'dedication' | 'belongs-to' | 'about-author' | 'also-by';
+
 export interface PageContent {
+  heading?: string;
   text?: string;
   imageData?: string;
   imagePrompt?: string;
@@ -42,8 +100,80 @@ export interface ProjectMetadata {
   styleSettings?: any;
   marketAnalysis?: any;
   optimizationApplied?: boolean;
+  paperType?: PaperType;
+  backCoverText?: string;
+  subtitle?: string;
+  isbn?: string;
+  edition?: string;
+  publisher?: string;
+  publicationYear?: number;
+  dedication?: string;
+  aboutAuthor?: string;
+  alsoBy?: string[];
+  // Empty string removes the AI-assistance statement from the copyright page
+  aiDisclosure?: string;
+  typography?: TypographyProfile;
+  pageFrames?: PageFrameSettings;
+  pageNumbering?: PageNumberingSettings;
+}
+
+export type PageNumberPosition = 'bottom-center' | 'bottom-outer' | 'top-outer';
+
+export type TableOfContentsSource = 'none' | 'chapters' | 'coloring';
+
+// How interior pages are numbered, and what the generated contents page lists
+export interface PageNumberingSettings {
+  // Front matter runs i, ii, iii and arabic numbers restart at the first story page
+  romanFrontMatter: boolean;
+  // Illustrations still count but don't print a number
+  skipIllustrations: boolean;
+  // Number given to the first arabic-numbered page
+  startAt: number;
+  position: PageNumberPosition;
+  tableOfContents: TableOfContentsSource;
 }
 
+export type PageFrameStyle = 'none' | 'simple-rule' | 'double-rule' | 'scalloped' | 'star-corners' | 'leaf-corners';
+
+// Kinds of page that can carry their own frame
+export type FramePageType = 'story' | 'coloring' | 'matter';
+
+// Decorative page borders, drawn inside the trim's safe area
+export interface PageFrameSettings {
+  style: PageFrameStyle;
+  byPageType?: Partial<Record<FramePageType, PageFrameStyle>>;
+  // Print the page number in a round badge at the foot of the page
+  numberBadge: boolean;
+}
+
+// Story text settings shared by every exporter
+export interface TypographyProfile {
+  preset: TypographyPresetId;
+  fontFamily: 'helvetica' | 'times' | 'custom';
+  customFont?: EmbeddedFont;
+  // Points
+  fontSize: number;
+  headingSize: number;
+  // Multiple of the font size
+  lineHeight: number;
+  // Extra space between letters, in ems
+  letterSpacing: number;
+  alignment: TextAlignment;
+}
+
+export type TypographyPresetId = 'classic' | 'early-reader' | 'picture-book' | 'dyslexia-friendly' | 'custom';
+
+export type TextAlignment = 'left' | 'center' | 'right' | 'justify';
+
+// A user-supplied TrueType font, stored as base64 so it can be embedded on export
+export interface EmbeddedFont {
+  name: string;
+  fileName: string;
+  data: string;
+}
+
+export type PaperType = 'white' | 'cream' | 'premium-color';
+
 export interface StoryPage {
   pageNumber: number;
   story: string;
@@ -57,21 +187,38 @@ export interface StoryData {
   id?: string;
   pages: StoryPage[];
   metadata: ProjectMetadata;
+  storage?: StorageMetadata;
 }
 
+export type ComplianceCategory = 'content' | 'technical' | 'format' | 'legal';
+export type ComplianceSeverity = 'error' | 'warning' | 'info';
+
 export interface ComplianceCheck {
-  category: string;
-  status: 'pass' | 'warning' | 'fail';
-  issues: string[];
-  recommendations: string[];
+  ruleId: string;
+  title: string;
   description: string;
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  passed: boolean;
+  message: string;
+  details?: string[];
+  // Physical interior page numbers the finding applies to
+  pages?: number[];
+  // An automatic fix is available for this finding
+  fixable?: boolean;
 }
 
+// Full compliance report for one project against one print platform
 export interface ComplianceResults {
+  projectId: string;
+  projectTitle: string;
+  platform: PrintPlatformId;
+  trimSize: string;
+  pageCount: number;
+  checkedAt: string;
   score: number;
-  checks: ComplianceCheck[];
   hasIssues: boolean;
-  project: Project;
+  checks: ComplianceCheck[];
 }
 
 export interface APISettings {
@@ -93,18 +240,40 @@ export interface DrawingSettings {
 
 export interface ExportSettings {
   pageSize: string;
-  margins: {
-    vertical: number;
-    horizontal: number;
+  // Interior margins and bleed the PDF export uses; unset ones follow the trim and platform
+  margins?: {
+    inner: number;
+    outer: number;
+    top: number;
+    bottom: number;
   };
+  bleed?: number;
   quality: 'web' | 'print-standard' | 'print-high' | 'professional';
-  colorMode: 'rgb' | 'cmyk';
+  colorMode: ColorMode;
+  // PDF/X-1a output intent, page boxes and Info keys (CMYK only)
+  pdfx?: boolean;
   includeBleed: boolean;
   includeCropMarks: boolean;
   includeColorBars: boolean;
   doubleSided: boolean;
+  interiorLayout?: InteriorLayoutMode;
+  colorTestBacks?: boolean;
+  imposition?: ImpositionMode;
+  impositionSheet?: SheetSizeId;
+  printPlatform?: PrintPlatformId;
 }
 
+// Print-on-demand service the print package and compliance checks target
+export type PrintPlatformId = 'kdp' | 'ingramspark' | 'lulu';
+
+export type ColorMode = 'rgb' | 'cmyk';
+
+// Home and print-shop output: booklets or several pages per sheet
+export type ImpositionMode = 'none' | 'saddle-stitch' | '2-up' | '4-up';
+export type SheetSizeId = 'letter' | 'a4';
+
+export type InteriorLayoutMode = 'continuous' | 'single-sided' | 'spreads';
+
 export type NotificationType = 'success' | 'error' | 'warning' | 'info';
 
 export interface Notification {
@@ -1,6 +1,7 @@
 // The concrete AI providers are handled by AIService. Importing the
 // class here avoids build errors if individual providers are missing.
 import { AIService } from './aiService';
+import { ImageAnalysisOptions, LineArtAnalysis, analyzePageImage } from './imageAnalysis';
 
 // Placeholder service instance. Real settings will be provided by
 // the application when used.
@@ -364,17 +365,14 @@ class AdvancedAIService {
   }
 
   // Quality Analysis
-  analyzeImageQuality(): Promise<{
+  async analyzeImageQuality(imageData: string, options: ImageAnalysisOptions): Promise<{
     score: number;
     issues: string[];
     suggestions: string[];
+    analysis: LineArtAnalysis;
   }> {
-    // This would integrate with an image analysis service
-    return Promise.resolve({
-      score: 85,
-      issues: ['Background not completely white', 'Some lines too thin'],
-      suggestions: ['Increase contrast', 'Thicken outline strokes']
-    });
+    const analysis = await analyzePageImage(imageData, options);
+    return { score: analysis.score, issues: analysis.issues, suggestions: analysis.suggestions, analysis };
   }
 
   // Auto-Translation Support
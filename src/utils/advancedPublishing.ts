@@ -1,12 +1,57 @@
-interface PublishingOptions {
+import { MatterPageType, TypographyProfile, PageFrameSettings, PageFrameStyle, PageNumberingSettings, PaperType, PrintPlatformId } from '../types';
+import { colorManagement, PrintColorOptions, PDFX_OUTPUT_CONDITION, PDFX_FONT_ERROR } from './colorManagement';
+import { coverBuilder, calculateSpineWidth, PAPER_TYPE_LABELS } from './coverBuilder';
+import { isMatterPageType, MATTER_PAGE_LABELS } from './frontMatter';
+import { loadPageImage, fitWithin, decodeImage, canvasToBlob, ImagePlacement, LoadedPageImage } from './pageImages';
+import { resolvePageFrames, getPageFrameLayout, drawPageFrame, getFrameStyle, getUsedFrameStyles, frameStyleToSVG } from './pageFrames';
+import {
+  PageLabel,
+  ContentsEntry,
+  CONTENTS_TITLE,
+  resolvePageNumbering,
+  arrangeContentsPage,
+  findContentsPosition,
+  buildPageLabels,
+  buildContentsEntries,
+  getPageNumberPlacement,
+  drawPageNumber,
+  drawTableOfContents
+} from './pageNumbering';
+import { SHEET_SIZES, SHEET_MARGIN } from './imposition';
+import {
+  PrintPlatformProfile,
+  getPrintPlatform,
+  getPlatformGeometry,
+  getPaddedPageCount,
+  getPlatformFileNames
+} from './printPlatforms';
+import { PDFRenderOptions, throwIfCancelled, yieldToEventLoop, isRenderCancelled } from './renderProgress';
+import { TrimSizeId, PageGeometry, getPageGeometry, getSafeArea, formatTrimSize } from './trimSizes';
+import {
+  resolveTypography,
+  setPDFFont,
+  drawTextBlock,
+  getCSSFontStack,
+  getFontFaceCSS,
+  getFontFileExtension,
+  embedsAllFonts,
+  loadFontFace
+} from './typography';
+
+export interface PublishingOptions {
   title: string;
   author: string;
   description?: string;
   language: string;
+  trimSize?: TrimSizeId;
   pages: Array<{
-    type: 'cover' | 'story' | 'coloring' | 'activity' | 'copyright';
+    type: 'cover' | 'story' | 'coloring' | 'activity' | 'contents' | MatterPageType;
+    heading?: string;
     content: string;
+    // Page artwork as stored on PageContent; imageUrl is read when it is absent
+    imageData?: string;
     imageUrl?: string;
+    imagePrompt?: string;
   }>;
   metadata?: {
     isbn?: string;
@@ -15,37 +60,208 @@ interface PublishingOptions {
     keywords?: string[];
     category?: string;
   };
+  color?: PrintColorOptions;
+  typography?: TypographyProfile;
+  frames?: PageFrameSettings;
+  numbering?: PageNumberingSettings;
+  // Print-on-demand target; bleed, gutter and page count rules follow it
+  platform?: PrintPlatformId;
+  paperType?: PaperType;
+  coverImage?: string;
 }
 
-interface ExportResult {
+export interface ExportResult {
   success: boolean;
+  cancelled?: boolean;
   blob?: Blob;
   downloadUrl?: string;
   error?: string;
   metadata?: any;
 }
 
+export interface PrintPackageRenderOptions extends PDFRenderOptions {
+  // Renders the interior; the UI passes the PDF worker so the page loop runs off the main thread
+  renderInterior?: (options: PublishingOptions, renderOptions: PDFRenderOptions) => Promise<ExportResult>;
+}
+
+interface ImageIssue {
+  pageIndex: number;
+  type: 'missing' | 'undecodable';
+  message: string;
+}
+
+interface CBZOptions {
+  // Raster resolution for every page image
+  dpi?: number;
+}
+
+interface CBZPage {
+  base64: string;
+  width: number;
+  height: number;
+  size: number;
+  type: 'FrontCover' | 'Story' | 'Other';
+}
+
+interface EPUBManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+}
+
+interface EPUBChapter {
+  id: string;
+  href: string;
+  title: string;
+}
+
+// Book-wide settings shared by every page of a KDP PDF
+interface KDPRenderContext {
+  geometry: PageGeometry;
+  typography: TypographyProfile;
+  frames: PageFrameSettings;
+  labels: PageLabel[];
+  contents: ContentsEntry[];
+  color?: PrintColorOptions;
+}
+
+interface EPUBImage {
+  href: string;
+  alt: string;
+}
+
+export type PrintableSizeId = 'letter' | 'a4' | '8x10';
+
+export interface PrintableBundleOptions {
+  // Paper sizes to include; defaults to all of them
+  sizes?: PrintableSizeId[];
+  // Resolution of the standalone PNGs
+  dpi?: number;
+  // Text tiled across the listing previews; defaults to the title
+  watermark?: string;
+  // Replaces the standard personal-use terms in LICENSE.txt
+  terms?: string;
+}
+
+export interface LookInsideOptions {
+  // Resolution of the preview pages; low enough that they can't be printed
+  dpi?: number;
+  // Diagonal text tiled across each page; an empty string turns it off
+  watermarkText?: string;
+  // Logo image (data URL) drawn in the middle of each page
+  logo?: string;
+  opacity?: number;
+  // Pixel height of the pages in the PNG strip
+  stripHeight?: number;
+}
+
+export interface LookInsideResult extends ExportResult {
+  strip?: Blob;
+  stripUrl?: string;
+}
+
+interface PrintableSize {
+  id: PrintableSizeId;
+  name: string;
+  // Folder name inside the ZIP
+  folder: string;
+  width: number;
+  height: number;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const PRINTABLE_SIZES: Record<PrintableSizeId, PrintableSize> = {
+  letter: { ...SHEET_SIZES.letter, id: 'letter', folder: 'US-Letter' },
+  a4: { ...SHEET_SIZES.a4, id: 'a4', folder: 'A4' },
+  '8x10': { id: '8x10', name: '8" x 10"', folder: '8x10', width: 8, height: 10 }
+};
+
+const DEFAULT_PRINTABLE_SIZES: PrintableSizeId[] = ['letter', 'a4', '8x10'];
+
+// Home printers can't reach the paper edge
+const PRINTABLE_MARGIN = SHEET_MARGIN;
+
+// Pixel width of the watermarked listing previews
+const PREVIEW_WIDTH = 600;
+
+// Artwork for a page, whichever field the caller filled in
+export const getPublishingPageImage = (page: PublishingOptions['pages'][number]): string | undefined => {
+  return page.imageData || page.imageUrl;
+};
+
+const epubPageId = (index: number): string => `page-${String(index + 1).padStart(3, '0')}`;
+
+// EPUB structural semantics for generated front and back matter
+const EPUB_MATTER_TYPES: Record<MatterPageType, string> = {
+  title: 'titlepage',
+  copyright: 'copyright-page',
+  dedication: 'dedication',
+  'belongs-to': 'frontmatter',
+  'about-author': 'backmatter',
+  'also-by': 'backmatter'
+};
+
 class AdvancedPublishingService {
   
-  // Generate KDP-compliant PDF
-  async generateKDPPDF(options: PublishingOptions): Promise<ExportResult> {
+  // Generate KDP-compliant PDF; safe to run inside a worker once vector art is rasterised
+  async generateKDPPDF(options: PublishingOptions, renderOptions: PDFRenderOptions = {}): Promise<ExportResult> {
+    const { onProgress, signal } = renderOptions;
     try {
+      const platform = getPrintPlatform(options.platform);
+      const numbering = resolvePageNumbering(options.numbering);
+      const arranged: PublishingOptions['pages'] = arrangeContentsPage(options.pages, numbering, { type: 'contents', content: '' });
+      // Blank pages at the back bring the count up to the platform's multiple
+      const padding = getPaddedPageCount(platform, arranged.length) - arranged.length;
+      const pages: PublishingOptions['pages'] = [
+        ...arranged,
+        ...Array.from({ length: padding }, () => ({ type: 'activity' as const, content: '' }))
+      ];
+      const geometry = getPlatformGeometry(platform, options.trimSize, { pageCount: pages.length });
       const pdf = new (await import('jspdf')).jsPDF({
         orientation: 'portrait',
         unit: 'in',
-        format: [8.5, 11] // Letter size
+        format: [geometry.bleedWidth, geometry.bleedHeight],
+        putOnlyUsedFonts: true
       });
+      colorManagement.prepareDocument(pdf, options.color);
+      const labels = buildPageLabels(pages.map(page => page.type), numbering);
+      const context: KDPRenderContext = {
+        geometry,
+        typography: resolveTypography(options.typography),
+        frames: resolvePageFrames(options.frames),
+        labels,
+        contents: buildContentsEntries(pages, labels, numbering.tableOfContents),
+        color: options.color
+      };
 
-      // Add bleed and crop marks
-      this.addBleedAndCropMarks(pdf);
-      
       // Generate pages with proper margins
-      options.pages.forEach((page, index) => {
+      const imageIssues: ImageIssue[] = [];
+      let embeddedImages = 0;
+
+      const total = pages.length;
+      for (let index = 0; index < total; index++) {
+        throwIfCancelled(signal);
+        onProgress?.({ stage: 'rendering', completed: index, total });
+
+        // No printer's marks: platforms reject them in interiors, and the PDF/X TrimBox marks the trim
         if (index > 0) pdf.addPage();
-        this.addKDPPage(pdf, page);
-      });
 
-      const blob = pdf.output('blob');
+        const embedded = await this.addKDPPage(pdf, pages[index], index, context, numbering, imageIssues);
+        if (embedded) embeddedImages++;
+        await yieldToEventLoop();
+      }
+
+      throwIfCancelled(signal);
+      onProgress?.({ stage: 'saving', completed: total, total });
+      const blob = colorManagement.output(pdf, options.color, geometry.bleed);
       
       return {
         success: true,
@@ -54,109 +270,289 @@ class AdvancedPublishingService {
         metadata: {
           format: 'PDF-KDP',
           size: blob.size,
-          pages: options.pages.length,
+          pages: pages.length,
+          embeddedImages,
+          imageIssues,
           specifications: {
-            pageSize: '8.5" x 11"',
-            bleed: '0.125"',
-            safeMargin: '0.25"'
+            platform: platform.name,
+            trimSize: geometry.trim.id,
+            pageSize: formatTrimSize(geometry.trim),
+            bleed: `${geometry.bleed}"`,
+            margins: geometry.margins,
+            colorSpace: colorManagement.resolveColorMode(options.color).toUpperCase(),
+            pdfx: !!options.color?.pdfx
           }
         }
       };
     } catch (error) {
       return {
         success: false,
+        cancelled: isRenderCancelled(error),
         error: error instanceof Error ? error.message : 'KDP PDF generation failed'
       };
     }
   }
 
-  private addBleedAndCropMarks(pdf: any) {
-    const bleed = 0.125;
-    const pageWidth = 8.5;
-    const pageHeight = 11;
-    
-    // Add crop marks
-    pdf.setDrawColor(0, 0, 0);
-    pdf.setLineWidth(0.5);
-    
-    // Corner crop marks
-    const markLength = 0.25;
-    const positions = [
-      [bleed, bleed], // Top-left
-      [pageWidth - bleed, bleed], // Top-right
-      [bleed, pageHeight - bleed], // Bottom-left
-      [pageWidth - bleed, pageHeight - bleed] // Bottom-right
-    ];
-    
-    positions.forEach(([x, y]) => {
-      // Horizontal marks
-      pdf.line(x - markLength, y, x - bleed, y);
-      pdf.line(x + bleed, y, x + markLength, y);
-      
-      // Vertical marks
-      pdf.line(x, y - markLength, x, y - bleed);
-      pdf.line(x, y + bleed, x, y + markLength);
-    });
-  }
+  // Returns true when page artwork was embedded
+  private async addKDPPage(
+    pdf: any,
+    page: any,
+    index: number,
+    context: KDPRenderContext,
+    numbering: PageNumberingSettings,
+    imageIssues: ImageIssue[]
+  ): Promise<boolean> {
+    const { geometry, typography } = context;
+    // Safe area mirrors the gutter on left- and right-hand pages
+    const safeArea = getSafeArea(geometry, index + 1);
+    const label = context.labels[index].printed ? context.labels[index].label : null;
+    const frame = getPageFrameLayout(context.frames, page.type, safeArea, !!label);
+    if (frame) drawPageFrame(pdf, frame, typography, label || undefined);
+    const area = frame ? frame.content : safeArea;
 
-  private addKDPPage(pdf: any, page: any) {
-    const safeMargin = 0.75; // KDP safe margin
-    const contentWidth = 8.5 - (safeMargin * 2);
-    const contentHeight = 11 - (safeMargin * 2);
+    if (label && !frame?.badge) {
+      const trim = { x: geometry.bleed, y: geometry.bleed, width: geometry.width, height: geometry.height };
+      drawPageNumber(pdf, label, getPageNumberPlacement(numbering.position, index + 1, safeArea, trim), typography, 10);
+    }
 
-    pdf.setFont('helvetica', 'normal');
+    setPDFFont(pdf, typography, 'normal');
     
     if (page.type === 'cover') {
-      this.addCoverPage(pdf, page, safeMargin, contentWidth);
+      this.addCoverPage(pdf, page, area, typography);
     } else if (page.type === 'story') {
-      this.addStoryPage(pdf, page, safeMargin, contentWidth);
+      this.addStoryPage(pdf, page, area, typography);
     } else if (page.type === 'coloring') {
-      this.addColoringPage(pdf, page, safeMargin, contentWidth, contentHeight);
+      return this.addColoringPage(pdf, page, index, imageIssues, area, context.color);
+    } else if (page.type === 'contents') {
+      drawTableOfContents(pdf, context.contents, area, typography);
+    } else if (isMatterPageType(page.type)) {
+      this.addMatterPage(pdf, page, area, typography);
     }
+
+    return false;
   }
 
-  private addCoverPage(pdf: any, page: any, margin: number, width: number) {
+  private addMatterPage(pdf: any, page: any, area: ImagePlacement, typography: TypographyProfile) {
+    const centerX = area.x + area.width / 2;
+
+    if (page.type === 'copyright') {
+      // Copyright notice sits at the foot of the page in small type
+      pdf.setFontSize(9);
+      const lines = pdf.splitTextToSize(page.content, area.width);
+      pdf.text(lines, area.x, area.y + area.height - lines.length * 0.15);
+      return;
+    }
+
+    if (page.type === 'title' || page.type === 'dedication' || page.type === 'belongs-to') {
+      const headingLines = page.heading ? pdf.splitTextToSize(page.heading, area.width) : [];
+      setPDFFont(pdf, typography, 'bold');
+      pdf.setFontSize(page.type === 'title' ? 24 : 20);
+      pdf.text(headingLines, centerX, area.y + area.height / 3, { align: 'center' });
+
+      setPDFFont(pdf, typography, page.type === 'dedication' ? 'italic' : 'normal');
+      pdf.setFontSize(14);
+      const textY = area.y + area.height / 3 + 0.4 + headingLines.length * 0.35;
+      pdf.text(pdf.splitTextToSize(page.content, area.width * 0.8), centerX, textY, { align: 'center' });
+
+      if (page.type === 'belongs-to') {
+        pdf.setLineWidth(0.01);
+        pdf.line(area.x + area.width * 0.15, textY + 0.6, area.x + area.width * 0.85, textY + 0.6);
+      }
+      return;
+    }
+
+    setPDFFont(pdf, typography, 'bold');
+    pdf.setFontSize(typography.headingSize);
+    pdf.text(page.heading || MATTER_PAGE_LABELS[page.type as MatterPageType], area.x, area.y + 0.4);
+
+    drawTextBlock(pdf, page.content, area.x, area.y + 0.4 + (typography.headingSize / 72) * 1.6, area.width, typography);
+  }
+
+  private addCoverPage(pdf: any, page: any, area: ImagePlacement, typography: TypographyProfile) {
     pdf.setFontSize(24);
-    pdf.setFont('helvetica', 'bold');
+    setPDFFont(pdf, typography, 'bold');
     
     // Center title
-    const titleLines = pdf.splitTextToSize(page.content, width);
+    const titleLines = pdf.splitTextToSize(page.content, area.width);
     const titleHeight = titleLines.length * 0.3;
-    const startY = 5.5 - (titleHeight / 2);
+    const startY = area.y + area.height / 2 - (titleHeight / 2);
     
-    pdf.text(titleLines, margin, startY, { align: 'center' });
+    pdf.text(titleLines, area.x + area.width / 2, startY, { align: 'center' });
   }
 
-  private addStoryPage(pdf: any, page: any, margin: number, width: number) {
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'normal');
-    
-    const lines = pdf.splitTextToSize(page.content, width);
-    pdf.text(lines, margin, margin + 0.5);
-    
-    // Add page number
-    pdf.setFontSize(10);
-    pdf.text(`Page ${pdf.internal.getNumberOfPages()}`, 
-             8.5 - margin - 0.5, 11 - margin + 0.25);
+  private addStoryPage(pdf: any, page: any, area: ImagePlacement, typography: TypographyProfile) {
+    drawTextBlock(pdf, page.content, area.x, area.y + 0.5, area.width, typography);
   }
 
-  private addColoringPage(pdf: any, page: any, margin: number, width: number, height: number) {
-    // Add placeholder for coloring image
+  private async addColoringPage(
+    pdf: any,
+    page: any,
+    index: number,
+    imageIssues: ImageIssue[],
+    area: ImagePlacement,
+    color?: PrintColorOptions
+  ): Promise<boolean> {
+    const source = getPublishingPageImage(page);
+    if (source) {
+      try {
+        // Print never needs more than 300 DPI across the safe area
+        const image = await loadPageImage(source, { maxWidth: Math.ceil(area.width * 300) });
+        const placement = fitWithin(image.width, image.height, area);
+
+        await colorManagement.addImage(
+          pdf,
+          image.dataUrl,
+          image.format,
+          placement.x,
+          placement.y,
+          placement.width,
+          placement.height,
+          color
+        );
+        return true;
+      } catch (error) {
+        imageIssues.push({
+          pageIndex: index,
+          type: 'undecodable',
+          message: error instanceof Error ? error.message : 'Image could not be embedded'
+        });
+      }
+    } else {
+      imageIssues.push({
+        pageIndex: index,
+        type: 'missing',
+        message: 'Coloring page has no image'
+      });
+    }
+
+    // Fall back to a placeholder so the page count stays correct
     pdf.setDrawColor(200, 200, 200);
-    pdf.rect(margin, margin + 1, width, height - 2);
+    pdf.rect(area.x, area.y + 1, area.width, area.height - 2);
     
     // Add image prompt as comment
     pdf.setFontSize(8);
     pdf.setTextColor(150, 150, 150);
-    pdf.text('Image: ' + page.content, margin, margin + 0.25);
+    pdf.text('Image: ' + page.content, area.x, area.y + 0.25);
+    pdf.setTextColor(0, 0, 0);
+    return false;
   }
 
-  // Generate EPUB format (simplified)
+  // Generate EPUB 3 package
   async generateEPUB(options: PublishingOptions): Promise<ExportResult> {
     try {
-      // Create EPUB structure
-      const epubContent = this.createEPUBContent(options);
-      const blob = new Blob([epubContent], { type: 'application/epub+zip' });
+      const JSZip = (await import('jszip')).default;
+      const zip = new JSZip();
+      const imageIssues: ImageIssue[] = [];
+      const manifest: EPUBManifestItem[] = [];
+      const chapters: EPUBChapter[] = [];
+
+      // The mimetype entry must come first and be stored uncompressed
+      zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+      zip.file('META-INF/container.xml', this.generateEPUBContainer());
+
+      // Reading systems only use an uploaded font if it ships inside the book
+      const typography = resolveTypography(options.typography);
+      let fontHref: string | undefined;
+      if (typography.fontFamily === 'custom' && typography.customFont) {
+        const extension = getFontFileExtension(typography.customFont);
+        fontHref = `fonts/body.${extension}`;
+        zip.file(`OEBPS/${fontHref}`, typography.customFont.data, { base64: true });
+        manifest.push({ id: 'font-body', href: fontHref, mediaType: extension === 'otf' ? 'font/otf' : 'font/ttf' });
+      }
+
+      // Frames ship as SVG backgrounds sized to the print safe area's proportions
+      const frames = resolvePageFrames(options.frames);
+      const frameStyles = getUsedFrameStyles(frames, options.pages.map(page => page.type));
+      if (frameStyles.length > 0) {
+        const geometry = getPageGeometry(options.trimSize);
+        frameStyles.forEach(style => {
+          zip.file(`OEBPS/frames/${style}.svg`, frameStyleToSVG(style, geometry.safeWidth, geometry.safeHeight));
+          manifest.push({ id: `frame-${style}`, href: `frames/${style}.svg`, mediaType: 'image/svg+xml' });
+        });
+      }
+
+      zip.file('OEBPS/styles.css', this.generateEPUBStyles(typography, fontHref, frameStyles));
+      manifest.push({ id: 'css', href: 'styles.css', mediaType: 'text/css' });
+
+      if (!options.pages.some(page => page.type === 'cover' || page.type === 'title')) {
+        zip.file('OEBPS/title.xhtml', this.generateEPUBTitlePage(options));
+        manifest.push({ id: 'title', href: 'title.xhtml', mediaType: 'application/xhtml+xml' });
+        chapters.push({ id: 'title', href: 'title.xhtml', title: options.title });
+      }
+
+      let hasCoverImage = false;
+
+      for (let index = 0; index < options.pages.length; index++) {
+        const page = options.pages[index];
+        const id = epubPageId(index);
+        const href = `${id}.xhtml`;
+        let image: EPUBImage | undefined;
+
+        const source = getPublishingPageImage(page);
+        if (source) {
+          try {
+            const loaded = await loadPageImage(source);
+            const extension = loaded.format === 'PNG' ? 'png' : 'jpg';
+            const imageHref = `images/${id}.${extension}`;
+            const isCover = page.type === 'cover' && !hasCoverImage;
+
+            zip.file(`OEBPS/${imageHref}`, loaded.dataUrl.split(',')[1], { base64: true });
+            manifest.push({
+              id: `${id}-image`,
+              href: imageHref,
+              mediaType: loaded.format === 'PNG' ? 'image/png' : 'image/jpeg',
+              properties: isCover ? 'cover-image' : undefined
+            });
+            if (isCover) hasCoverImage = true;
+
+            image = {
+              href: imageHref,
+              alt: this.getImageAltText(page, index)
+            };
+          } catch (error) {
+            imageIssues.push({
+              pageIndex: index,
+              type: 'undecodable',
+              message: error instanceof Error ? error.message : 'Image could not be embedded'
+            });
+          }
+        } else if (page.type === 'coloring') {
+          imageIssues.push({
+            pageIndex: index,
+            type: 'missing',
+            message: 'Coloring page has no image'
+          });
+        }
+
+        const title = this.getEPUBPageTitle(page, index);
+        zip.file(`OEBPS/${href}`, this.generateEPUBPage(options, page, title, image, getFrameStyle(frames, page.type)));
+        manifest.push({ id, href, mediaType: 'application/xhtml+xml' });
+        chapters.push({ id, href, title });
+      }
+
+      // A generated table of contents narrows the nav to chapters or coloring
+      // pages and is shown to readers straight after the front matter
+      const numbering = resolvePageNumbering(options.numbering);
+      const contents = buildContentsEntries(
+        options.pages,
+        buildPageLabels(options.pages.map(page => page.type), numbering),
+        numbering.tableOfContents
+      );
+      const navItems = contents.length > 0
+        ? contents.map(entry => ({ id: epubPageId(entry.pageIndex), href: `${epubPageId(entry.pageIndex)}.xhtml`, title: entry.title }))
+        : chapters;
+      const spine = [...chapters];
+      if (contents.length > 0) {
+        const firstBodyId = epubPageId(findContentsPosition(options.pages.map(page => page.type)));
+        const position = spine.findIndex(chapter => chapter.id === firstBodyId);
+        spine.splice(position < 0 ? spine.length : position, 0, { id: 'nav', href: 'nav.xhtml', title: CONTENTS_TITLE });
+      }
+
+      zip.file('OEBPS/nav.xhtml', this.generateEPUBNav(options, navItems));
+      manifest.push({ id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' });
+      zip.file('OEBPS/content.opf', this.generateEPUBPackage(options, manifest, spine));
+
+      const blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip' });
       
       return {
         success: true,
@@ -164,8 +560,10 @@ class AdvancedPublishingService {
         downloadUrl: URL.createObjectURL(blob),
         metadata: {
           format: 'EPUB',
+          version: '3.0',
           size: blob.size,
-          pages: options.pages.length
+          pages: options.pages.length,
+          imageIssues
         }
       };
     } catch (error) {
@@ -176,63 +574,198 @@ class AdvancedPublishingService {
     }
   }
 
-  private createEPUBContent(options: PublishingOptions): string {
-    // Simplified EPUB as HTML
-    const html = `
+  private generateEPUBContainer(): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+  }
+
+  private generateEPUBPackage(
+    options: PublishingOptions,
+    manifest: EPUBManifestItem[],
+    chapters: EPUBChapter[]
+  ): string {
+    const metadata = options.metadata || {};
+    const isbn = metadata.isbn?.replace(/[^0-9Xx]/g, '');
+    const identifier = isbn ? `urn:isbn:${isbn}` : `urn:uuid:${crypto.randomUUID()}`;
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const subjects = [...(metadata.keywords || []), ...(metadata.category ? [metadata.category] : [])];
+
+    const metadataLines = [
+      `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+      `<dc:title>${escapeXml(options.title)}</dc:title>`,
+      `<dc:creator id="creator">${escapeXml(options.author)}</dc:creator>`,
+      '<meta refines="#creator" property="role" scheme="marc:relators">aut</meta>',
+      `<dc:language>${escapeXml(options.language)}</dc:language>`,
+      metadata.publisher && `<dc:publisher>${escapeXml(metadata.publisher)}</dc:publisher>`,
+      metadata.publishDate && `<dc:date>${new Date(metadata.publishDate).toISOString().slice(0, 10)}</dc:date>`,
+      options.description && `<dc:description>${escapeXml(options.description)}</dc:description>`,
+      ...subjects.map(subject => `<dc:subject>${escapeXml(subject)}</dc:subject>`),
+      `<meta property="dcterms:modified">${modified}</meta>`
+    ].filter(Boolean);
+
+    const manifestLines = manifest.map(item =>
+      `<item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"` +
+      `${item.properties ? ` properties="${item.properties}"` : ''}/>`
+    );
+
+    const spineLines = chapters.map(chapter => `<itemref idref="${chapter.id}"/>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(options.language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadataLines.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${manifestLines.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spineLines.join('\n    ')}
+  </spine>
+</package>`;
+  }
+
+  private generateEPUBNav(options: PublishingOptions, chapters: EPUBChapter[]): string {
+    const items = chapters
+      .map(chapter => `<li><a href="${chapter.href}">${escapeXml(chapter.title)}</a></li>`)
+      .join('\n        ');
+
+    return this.wrapXHTML(options, CONTENTS_TITLE, `<nav epub:type="toc" id="toc">
+      <h1>${CONTENTS_TITLE}</h1>
+      <ol>
+        ${items}
+      </ol>
+    </nav>`);
+  }
+
+  private generateEPUBTitlePage(options: PublishingOptions): string {
+    return this.wrapXHTML(options, options.title, `<section class="title-page" epub:type="titlepage">
+      <h1>${escapeXml(options.title)}</h1>
+      <p class="author">by ${escapeXml(options.author)}</p>
+    </section>`);
+  }
+
+  private generateEPUBPage(
+    options: PublishingOptions,
+    page: PublishingOptions['pages'][number],
+    title: string,
+    image?: EPUBImage,
+    frameStyle: PageFrameStyle = 'none'
+  ): string {
+    const figure = image
+      ? `<figure class="page-image"><img src="${image.href}" alt="${escapeXml(image.alt)}"/></figure>`
+      : '';
+
+    const paragraphs = page.type === 'coloring'
+      ? ''
+      : page.content
+          .split(/\n\s*\n/)
+          .map(paragraph => paragraph.trim())
+          .filter(Boolean)
+          .map(paragraph => `<p>${escapeXml(paragraph).replace(/\n/g, '<br/>')}</p>`)
+          .join('\n      ');
+
+    const heading = page.type === 'cover'
+      ? `<h1>${escapeXml(page.content || options.title)}</h1>`
+      : page.heading ? `<h2>${escapeXml(page.heading)}</h2>` : '';
+
+    const epubType = page.type === 'cover' ? ' epub:type="cover"'
+      : isMatterPageType(page.type) ? ` epub:type="${EPUB_MATTER_TYPES[page.type]}"`
+      : '';
+
+    const frameClass = frameStyle === 'none' ? '' : ` framed frame-${frameStyle}`;
+
+    return this.wrapXHTML(options, title, `<section class="page page-${page.type}${frameClass}"${epubType}>
+      ${[figure, heading, page.type === 'cover' ? '' : paragraphs].filter(Boolean).join('\n      ')}
+    </section>`);
+  }
+
+  private wrapXHTML(options: PublishingOptions, title: string, body: string): string {
+    const lang = escapeXml(options.language);
+    return `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE html>
-<html>
-<head>
-    <title>${options.title}</title>
-    <meta charset="UTF-8">
-    <style>
-        body { font-family: serif; margin: 2em; }
-        .cover { text-align: center; page-break-after: always; }
-        .page { page-break-after: always; margin-bottom: 2em; }
-        .coloring-page { border: 1px dashed #ccc; padding: 2em; margin: 1em 0; }
-    </style>
-</head>
-<body>
-    <div class="cover">
-        <h1>${options.title}</h1>
-        <h2>by ${options.author}</h2>
-    </div>
-    
-    ${options.pages.map((page, index) => `
-        <div class="page">
-            ${page.type === 'coloring' ? 
-                `<div class="coloring-page">
-                    <p><strong>Coloring Page ${index + 1}</strong></p>
-                    <p>${page.content}</p>
-                </div>` :
-                `<div>
-                    <h3>Page ${index + 1}</h3>
-                    <p>${page.content}</p>
-                </div>`
-            }
-        </div>
-    `).join('')}
-</body>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(title)}</title>
+    <link rel="stylesheet" type="text/css" href="styles.css"/>
+  </head>
+  <body>
+    ${body}
+  </body>
 </html>`;
-    
-    return html;
+  }
+
+  private generateEPUBStyles(typography: TypographyProfile, fontHref?: string, frameStyles: PageFrameStyle[] = []): string {
+    // Sizes are relative so readers can still scale the text
+    const fontFace = fontHref ? `${getFontFaceCSS(typography, fontHref)}\n` : '';
+    const frameRules = frameStyles
+      .map(style => `.frame-${style} { background-image: url("frames/${style}.svg"); }\n`)
+      .join('');
+    return `${fontFace}body { font-family: ${getCSSFontStack(typography)}; margin: 1em; line-height: ${typography.lineHeight}; }
+h1 { text-align: center; }
+h2 { font-size: ${(typography.headingSize / 12).toFixed(2)}em; }
+.page-story p { font-size: ${(typography.fontSize / 12).toFixed(2)}em; text-align: ${typography.alignment}; letter-spacing: ${typography.letterSpacing}em; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page .author { font-style: italic; }
+.page-cover { text-align: center; }
+.page-image { margin: 0; text-align: center; }
+.page-image img { max-width: 100%; max-height: 95vh; }
+.page-copyright { font-size: 0.8em; }
+.page-title, .page-dedication, .page-belongs-to { text-align: center; margin-top: 30%; }
+.page-dedication { font-style: italic; }
+.framed { box-sizing: border-box; min-height: 95vh; padding: 2em 1.75em; background-repeat: no-repeat; background-position: center; background-size: 100% 100%; }
+${frameRules}`;
+  }
+
+  private getEPUBPageTitle(page: PublishingOptions['pages'][number], index: number): string {
+    switch (page.type) {
+      case 'cover':
+        return 'Cover';
+      case 'coloring':
+        return `Coloring Page ${index + 1}`;
+      case 'activity':
+        return `Activity ${index + 1}`;
+      case 'story':
+        return `Page ${index + 1}`;
+      default:
+        if (isMatterPageType(page.type)) return MATTER_PAGE_LABELS[page.type];
+        return `Page ${index + 1}`;
+    }
+  }
+
+  private getImageAltText(page: PublishingOptions['pages'][number], index: number): string {
+    const prompt = page.imagePrompt || (page.type === 'coloring' ? page.content : '');
+    return prompt?.trim()
+      ? `Coloring illustration: ${prompt.trim()}`
+      : `Illustration for page ${index + 1}`;
   }
 
   // Generate CBZ (Comic Book Archive)
-  async generateCBZ(options: PublishingOptions): Promise<ExportResult> {
+  async generateCBZ(options: PublishingOptions, cbzOptions: CBZOptions = {}): Promise<ExportResult> {
     try {
       const JSZip = (await import('jszip')).default;
       const zip = new JSZip();
+      const dpi = cbzOptions.dpi || 150;
+      const imageIssues: ImageIssue[] = [];
+      const pages: CBZPage[] = [];
+
+      // Render every page to a JPEG so comic readers show the whole book
+      const geometry = getPageGeometry(options.trimSize, { includeBleed: false });
+      const typography = resolveTypography(options.typography);
+      await loadFontFace(typography);
+
+      for (let index = 0; index < options.pages.length; index++) {
+        const rendered = await this.renderCBZPage(options.pages[index], index, geometry, dpi, typography, imageIssues);
+        zip.file(`page_${String(index + 1).padStart(3, '0')}.jpg`, rendered.base64, { base64: true });
+        pages.push(rendered);
+      }
       
       // Add metadata
-      zip.file('ComicInfo.xml', this.generateComicInfo(options));
-      
-      // Add pages as images (placeholder for now)
-      options.pages.forEach((page, index) => {
-        if (page.imageUrl) {
-          // In a real implementation, you'd fetch and add the actual image
-          zip.file(`page_${String(index + 1).padStart(3, '0')}.jpg`, 'placeholder');
-        }
-      });
+      zip.file('ComicInfo.xml', this.generateComicInfo(options, pages));
       
       const blob = await zip.generateAsync({ type: 'blob' });
       
@@ -243,7 +776,9 @@ class AdvancedPublishingService {
         metadata: {
           format: 'CBZ',
           size: blob.size,
-          pages: options.pages.length
+          pages: options.pages.length,
+          dpi,
+          imageIssues
         }
       };
     } catch (error) {
@@ -254,50 +789,382 @@ class AdvancedPublishingService {
     }
   }
 
-  private generateComicInfo(options: PublishingOptions): string {
+  private async renderCBZPage(
+    page: PublishingOptions['pages'][number],
+    index: number,
+    geometry: PageGeometry,
+    dpi: number,
+    typography: TypographyProfile,
+    imageIssues: ImageIssue[]
+  ): Promise<CBZPage> {
+    const canvas = await this.renderPageCanvas(page, index, geometry, dpi, typography, imageIssues);
+    const base64 = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+
+    return {
+      base64,
+      width: canvas.width,
+      height: canvas.height,
+      size: Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0),
+      type: page.type === 'cover' ? 'FrontCover' : isMatterPageType(page.type) ? 'Other' : 'Story'
+    };
+  }
+
+  // Raster of a single page, as shown by comic readers and look-inside previews
+  private async renderPageCanvas(
+    page: PublishingOptions['pages'][number],
+    index: number,
+    geometry: PageGeometry,
+    dpi: number,
+    typography: TypographyProfile,
+    imageIssues: ImageIssue[]
+  ): Promise<HTMLCanvasElement> {
+    // Screen pages don't need a gutter, so centre content between even margins
+    const margin = Math.max(geometry.margins.outer, geometry.margins.top) * dpi;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(geometry.width * dpi);
+    canvas.height = Math.round(geometry.height * dpi);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#000000';
+
+    const contentBox = {
+      x: margin,
+      y: margin,
+      width: canvas.width - margin * 2,
+      height: canvas.height - margin * 2
+    };
+    const points = (size: number) => (size * dpi) / 72;
+    const fontStack = getCSSFontStack(typography);
+    let drewImage = false;
+
+    const source = getPublishingPageImage(page);
+    if ((page.type === 'coloring' || page.type === 'cover') && source) {
+      try {
+        const image = await loadPageImage(source);
+        const element = await decodeImage(image.dataUrl);
+        const placement = fitWithin(image.width, image.height, contentBox);
+        ctx.drawImage(element, placement.x, placement.y, placement.width, placement.height);
+        drewImage = true;
+      } catch (error) {
+        imageIssues.push({
+          pageIndex: index,
+          type: 'undecodable',
+          message: error instanceof Error ? error.message : 'Image could not be rendered'
+        });
+      }
+    } else if (page.type === 'coloring') {
+      imageIssues.push({
+        pageIndex: index,
+        type: 'missing',
+        message: 'Coloring page has no image'
+      });
+    }
+
+    if (page.type === 'cover' && !drewImage) {
+      ctx.font = `bold ${points(24)}px ${fontStack}`;
+      ctx.textAlign = 'center';
+      const lines = this.wrapCanvasText(ctx, page.content, contentBox.width);
+      const lineHeight = points(24) * 1.3;
+      const startY = canvas.height / 2 - (lines.length * lineHeight) / 2;
+      lines.forEach((line, lineIndex) => {
+        ctx.fillText(line, canvas.width / 2, startY + lineIndex * lineHeight);
+      });
+    } else if (page.type === 'coloring' && !drewImage) {
+      ctx.strokeStyle = '#c8c8c8';
+      ctx.lineWidth = Math.max(1, dpi / 100);
+      ctx.strokeRect(contentBox.x, contentBox.y + dpi, contentBox.width, contentBox.height - dpi * 2);
+      ctx.fillStyle = '#969696';
+      ctx.font = `${points(8)}px Helvetica, Arial, sans-serif`;
+      ctx.fillText(`Image: ${page.content}`, contentBox.x, contentBox.y + dpi * 0.25);
+    } else if (page.type !== 'coloring' && page.type !== 'cover') {
+      ctx.font = `${points(typography.fontSize)}px ${fontStack}`;
+      ctx.letterSpacing = `${typography.letterSpacing}em`;
+      ctx.textBaseline = 'top';
+      // Canvas text can't be justified, so justified profiles render ragged-right
+      const alignment = typography.alignment === 'justify' ? 'left' : typography.alignment;
+      ctx.textAlign = alignment;
+      const anchorX = alignment === 'center' ? contentBox.x + contentBox.width / 2
+        : alignment === 'right' ? contentBox.x + contentBox.width
+        : contentBox.x;
+      const text = page.heading ? `${page.heading}\n\n${page.content}` : page.content;
+      const lines = this.wrapCanvasText(ctx, text, contentBox.width);
+      const lineHeight = points(typography.fontSize) * typography.lineHeight;
+      lines.forEach((line, lineIndex) => {
+        ctx.fillText(line, anchorX, contentBox.y + dpi * 0.5 + lineIndex * lineHeight);
+      });
+    }
+
+    return canvas;
+  }
+
+  private wrapCanvasText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    text.split('\n').forEach(paragraph => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+
+    return lines;
+  }
+
+  private generateComicInfo(options: PublishingOptions, pages: CBZPage[]): string {
+    const pageLines = pages.map((page, index) =>
+      `<Page Image="${index}" Type="${page.type}" ImageWidth="${page.width}" ImageHeight="${page.height}" ImageSize="${page.size}"/>`
+    );
+
     return `<?xml version="1.0"?>
 <ComicInfo>
-    <Title>${options.title}</Title>
-    <Writer>${options.author}</Writer>
+    <Title>${escapeXml(options.title)}</Title>
+    <Writer>${escapeXml(options.author)}</Writer>
     <Genre>Coloring Book</Genre>
-    <PageCount>${options.pages.length}</PageCount>
-    <LanguageISO>${options.language}</LanguageISO>
-    <Summary>${options.description || ''}</Summary>
+    <PageCount>${pages.length}</PageCount>
+    <LanguageISO>${escapeXml(options.language)}</LanguageISO>
+    <Summary>${escapeXml(options.description || '')}</Summary>
+    <Pages>
+        ${pageLines.join('\n        ')}
+    </Pages>
 </ComicInfo>`;
   }
 
+  // Marketing-safe sample of the book: chosen pages, downscaled and watermarked,
+  // as a PDF plus a single PNG strip for listings
+  async generateLookInside(
+    options: PublishingOptions,
+    lookInsideOptions: LookInsideOptions = {},
+    renderOptions: PDFRenderOptions = {}
+  ): Promise<LookInsideResult> {
+    const { onProgress, signal } = renderOptions;
+    try {
+      if (options.pages.length === 0) throw new Error('Choose at least one page for the preview');
+
+      const { jsPDF } = await import('jspdf');
+      const dpi = lookInsideOptions.dpi || 72;
+      const geometry = getPageGeometry(options.trimSize, { includeBleed: false });
+      const typography = resolveTypography(options.typography);
+      await loadFontFace(typography);
+
+      const watermarkText = lookInsideOptions.watermarkText ?? `${options.title} · PREVIEW`;
+      const logo = lookInsideOptions.logo ? await decodeImage(lookInsideOptions.logo) : null;
+      const opacity = lookInsideOptions.opacity ?? 0.35;
+
+      const pdf = new jsPDF({ orientation: 'portrait', unit: 'in', format: [geometry.width, geometry.height] });
+      pdf.setProperties({ title: `${options.title} - Look Inside`, author: options.author, creator: 'ColorBook Engine' });
+
+      const imageIssues: ImageIssue[] = [];
+      const canvases: HTMLCanvasElement[] = [];
+
+      const total = options.pages.length;
+      for (let index = 0; index < total; index++) {
+        throwIfCancelled(signal);
+        onProgress?.({ stage: 'rendering', completed: index, total });
+
+        const canvas = await this.renderPageCanvas(options.pages[index], index, geometry, dpi, typography, imageIssues);
+        if (watermarkText) this.drawTextWatermark(canvas, watermarkText, opacity);
+        if (logo) this.drawLogoWatermark(canvas, logo, opacity);
+
+        if (index > 0) pdf.addPage([geometry.width, geometry.height], 'portrait');
+        pdf.addImage(canvas.toDataURL('image/jpeg', 0.8), 'JPEG', 0, 0, geometry.width, geometry.height, undefined, 'FAST');
+        canvases.push(canvas);
+        await yieldToEventLoop();
+      }
+
+      throwIfCancelled(signal);
+      onProgress?.({ stage: 'saving', completed: total, total });
+
+      const blob = pdf.output('blob');
+      const strip = await this.renderPageStrip(canvases, lookInsideOptions.stripHeight || 480);
+
+      return {
+        success: true,
+        blob,
+        downloadUrl: URL.createObjectURL(blob),
+        strip,
+        stripUrl: URL.createObjectURL(strip),
+        metadata: {
+          format: 'Look Inside',
+          size: blob.size,
+          pages: total,
+          dpi,
+          imageIssues
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        cancelled: isRenderCancelled(error),
+        error: error instanceof Error ? error.message : 'Look inside preview generation failed'
+      };
+    }
+  }
+
+  // Pages side by side at a fixed height, each with a soft edge so white pages stand out
+  private async renderPageStrip(pages: HTMLCanvasElement[], height: number): Promise<Blob> {
+    const gap = Math.round(height / 20);
+    const widths = pages.map(page => Math.round((page.width / page.height) * height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = widths.reduce((sum, width) => sum + width, 0) + gap * (pages.length + 1);
+    canvas.height = height + gap * 2;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    ctx.fillStyle = '#f3f4f6';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.strokeStyle = '#d1d5db';
+    ctx.lineWidth = 1;
+
+    let x = gap;
+    pages.forEach((page, index) => {
+      ctx.drawImage(page, x, gap, widths[index], height);
+      ctx.strokeRect(x + 0.5, gap + 0.5, widths[index] - 1, height - 1);
+      x += widths[index] + gap;
+    });
+
+    return canvasToBlob(canvas, 'image/png');
+  }
+
+  // Repeated diagonal text across the whole page, hard to crop out
+  private drawTextWatermark(canvas: HTMLCanvasElement, text: string, opacity: number) {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.save();
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(-Math.PI / 6);
+    ctx.font = `bold ${Math.round(canvas.width / 18)}px Helvetica, Arial, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = `rgba(120, 120, 120, ${opacity})`;
+    const step = Math.round(canvas.width / 4);
+    const reach = Math.hypot(canvas.width, canvas.height);
+    for (let y = -reach / 2; y <= reach / 2; y += step) {
+      ctx.fillText(text, 0, y);
+    }
+    ctx.restore();
+  }
+
+  private drawLogoWatermark(canvas: HTMLCanvasElement, logo: HTMLImageElement, opacity: number) {
+    const ctx = canvas.getContext('2d');
+    if (!ctx || !logo.width || !logo.height) return;
+
+    const size = canvas.width * 0.5;
+    const placement = fitWithin(logo.width, logo.height, {
+      x: (canvas.width - size) / 2,
+      y: (canvas.height - size) / 2,
+      width: size,
+      height: size
+    });
+
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.drawImage(logo, placement.x, placement.y, placement.width, placement.height);
+    ctx.restore();
+  }
+
   // Generate print-ready package
-  async generatePrintPackage(options: PublishingOptions): Promise<ExportResult> {
+  async generatePrintPackage(
+    options: PublishingOptions,
+    platformId = options.platform,
+    renderOptions: PrintPackageRenderOptions = {}
+  ): Promise<ExportResult> {
+    const { renderInterior = (interiorOptions, interiorRender) => this.generateKDPPDF(interiorOptions, interiorRender), ...progress } = renderOptions;
     try {
       const JSZip = (await import('jszip')).default;
       const zip = new JSZip();
-      
+      const platform = getPrintPlatform(platformId);
+      // Platforms that only take PDF/X-1a get CMYK files whatever the export settings say
+      const color: PrintColorOptions = platform.files.requiredPDFStandard
+        ? { ...options.color, colorMode: 'cmyk', pdfx: true }
+        : options.color || {};
+      const printOptions: PublishingOptions = { ...options, platform: platform.id, color };
+      const paperType = options.paperType || 'white';
+      const colorMode = colorManagement.resolveColorMode(color);
+      const files = getPlatformFileNames(platform, options.metadata?.isbn);
+
+      if (platform.files.isbnRequired && !options.metadata?.isbn) {
+        throw new Error(`${platform.name} requires your own ISBN - add one in the book details`);
+      }
+
+      // Caught here so the interior is not rendered only to fail at output
+      if (color.pdfx && !embedsAllFonts(options.typography)) {
+        throw new Error(`${platform.name}: ${PDFX_FONT_ERROR}`);
+      }
+
       // Generate multiple formats
-      const kdpPDF = await this.generateKDPPDF(options);
+      const interior = await renderInterior(printOptions, progress);
+      if (interior.cancelled) {
+        return interior;
+      }
+      if (!interior.success || !interior.blob) {
+        throw new Error(interior.error || 'Interior PDF generation failed');
+      }
+      const pageCount: number = interior.metadata.pages;
+      const geometry = getPlatformGeometry(platform, options.trimSize, { pageCount });
+
+      const cover = await coverBuilder.generateCoverPDF({
+        title: options.title,
+        author: options.author,
+        blurb: options.description,
+        coverImage: options.coverImage,
+        paperType,
+        pageCount,
+        trimSize: options.trimSize,
+        platform: platform.id,
+        color,
+        typography: options.typography
+      });
+      throwIfCancelled(progress.signal);
       const epub = await this.generateEPUB(options);
-      
-      if (kdpPDF.blob) {
-        zip.file('print-ready.pdf', kdpPDF.blob);
+      throwIfCancelled(progress.signal);
+
+      zip.file(files.interior, interior.blob);
+      if (cover.blob) {
+        zip.file(files.cover, cover.blob);
       }
-      
+
       if (epub.blob) {
         zip.file('ebook.epub', epub.blob);
       }
-      
+
       // Add publishing guide
-      zip.file('PUBLISHING_GUIDE.txt', this.generatePublishingGuide(options));
-      
+      zip.file('PUBLISHING_GUIDE.txt', this.generatePublishingGuide(printOptions, platform, geometry, pageCount));
+
       // Add specifications
       zip.file('SPECIFICATIONS.json', JSON.stringify({
         title: options.title,
         author: options.author,
-        formats: ['PDF-KDP', 'EPUB'],
+        platform: platform.name,
+        formats: [`PDF-${platform.id.toUpperCase()}`, 'Cover-PDF', 'EPUB'],
+        files: { interior: files.interior, cover: cover.blob ? files.cover : null },
         printSpecs: {
-          pageSize: '8.5" x 11"',
-          bleed: '0.125"',
-          safeMargin: '0.75"',
-          colorSpace: 'RGB',
-          resolution: '300 DPI'
+          trimSize: geometry.trim.id,
+          pageSize: formatTrimSize(geometry.trim),
+          pages: pageCount,
+          paperType,
+          bleed: `${geometry.bleed}"`,
+          margins: geometry.margins,
+          spineWidth: `${calculateSpineWidth(pageCount, paperType, platform.id).toFixed(4)}"`,
+          coverSize: cover.metadata ? `${cover.metadata.coverWidth}" x ${cover.metadata.coverHeight}"` : null,
+          colorSpace: colorMode.toUpperCase(),
+          pdfStandard: color.pdfx ? 'PDF/X-1a:2001' : null,
+          outputIntent: color.pdfx ? PDFX_OUTPUT_CONDITION.identifier : null,
+          resolution: `${platform.files.minImageDPI} DPI`
         },
         ebookSpecs: {
           format: 'EPUB 3.0',
@@ -305,47 +1172,65 @@ class AdvancedPublishingService {
           accessibility: 'AA compliant'
         }
       }, null, 2));
-      
+
       const blob = await zip.generateAsync({ type: 'blob' });
-      
+
       return {
         success: true,
         blob,
         downloadUrl: URL.createObjectURL(blob),
         metadata: {
           format: 'Print Package',
+          platform: platform.name,
           size: blob.size,
-          includes: ['PDF-KDP', 'EPUB', 'Publishing Guide', 'Specifications']
+          includes: [files.interior, ...(cover.blob ? [files.cover] : []), 'EPUB', 'Publishing Guide', 'Specifications'],
+          coverError: cover.success ? undefined : cover.error
         }
       };
     } catch (error) {
       return {
         success: false,
+        cancelled: isRenderCancelled(error),
         error: error instanceof Error ? error.message : 'Print package generation failed'
       };
     }
   }
 
-  private generatePublishingGuide(options: PublishingOptions): string {
+  private generatePublishingGuide(
+    options: PublishingOptions,
+    platform: PrintPlatformProfile,
+    geometry: PageGeometry,
+    pageCount: number
+  ): string {
+    const colorMode = colorManagement.resolveColorMode(options.color);
+    const paperType = options.paperType || 'white';
+    const files = getPlatformFileNames(platform, options.metadata?.isbn);
     return `PUBLISHING GUIDE - ${options.title}
 =====================================
 
-AMAZON KDP PUBLISHING:
-- Use the included print-ready.pdf
-- Recommended trim size: 8.5" x 11"
-- Bleed: 0.125" (already included)
-- Safe margin: 0.75" (already applied)
+${platform.name.toUpperCase()} PUBLISHING:
+${platform.uploadSteps.map((step, index) => `${index + 1}. ${step}`).join('\n')}
 
+- Interior: ${files.interior}
+- Cover: ${files.cover} (full wrap: back, spine and front)
+- Trim size: ${formatTrimSize(geometry.trim)}
+- Paper: ${PAPER_TYPE_LABELS[paperType]}
+- Bleed: ${geometry.bleed}" (already included)
+- Inside margin: ${geometry.margins.inner}" / outside margin: ${geometry.margins.outer}" (already applied)
+- Spine width: ${calculateSpineWidth(pageCount, paperType, platform.id).toFixed(3)}"${pageCount < platform.cover.spineTextMinPages ? ' (too thin for spine text)' : ''}
+- Barcode area: ${platform.cover.barcode.width}" x ${platform.cover.barcode.height}" kept clear on the back cover
+${platform.files.isbnRequired ? '- Your own ISBN is required\n' : ''}
 EBOOK DISTRIBUTION:
 - Use the included ebook.epub
 - Compatible with Amazon Kindle, Apple Books, Google Play Books
 - Flowable layout for optimal reading experience
 
 PRINT SPECIFICATIONS:
-- Pages: ${options.pages.length}
-- Color Mode: RGB (KDP will convert to CMYK)
-- Resolution: 300 DPI minimum
-- File Format: PDF/X-1a:2001 compliant
+- Pages: ${pageCount} (${platform.name} accepts ${platform.minPages}-${platform.maxPages}${platform.pageMultiple > 1 ? `, in multiples of ${platform.pageMultiple}` : ''})
+- Color Mode: ${colorMode === 'cmyk' ? 'CMYK (black text and line art on the K plate only)' : `RGB (${platform.name} will convert to CMYK)`}
+- Resolution: ${platform.files.minImageDPI} DPI minimum
+- File Format: ${options.color?.pdfx ? `PDF/X-1a:2001 (output intent ${PDFX_OUTPUT_CONDITION.info})` : 'Standard PDF'}
+- Maximum file size: ${platform.files.maxFileSizeMB} MB
 
 MARKETING TIPS:
 1. Add relevant keywords to your book description
@@ -360,7 +1245,225 @@ QUALITY CHECKLIST:
 □ Cover design follows platform guidelines
 □ Metadata is complete and accurate
 
-For more information, visit the platform-specific publishing guidelines.
+For more information, visit the ${platform.name} publishing guidelines.
+`;
+  }
+
+  // Printable digital download: every coloring page at several home-print
+  // paper sizes, as PNGs and PDFs, with a license and watermarked previews
+  async generatePrintableBundle(
+    options: PublishingOptions,
+    bundleOptions: PrintableBundleOptions = {},
+    renderOptions: PDFRenderOptions = {}
+  ): Promise<ExportResult> {
+    const { onProgress, signal } = renderOptions;
+    try {
+      const JSZip = (await import('jszip')).default;
+      const { jsPDF } = await import('jspdf');
+      const zip = new JSZip();
+      const dpi = bundleOptions.dpi || 300;
+      const sizes = (bundleOptions.sizes || DEFAULT_PRINTABLE_SIZES).map(id => PRINTABLE_SIZES[id]);
+      if (sizes.length === 0) throw new Error('Choose at least one paper size');
+
+      const coloringPages = options.pages.filter(page => page.type === 'coloring');
+      if (coloringPages.length === 0) throw new Error('No coloring pages to export');
+
+      const imageIssues: ImageIssue[] = [];
+      const combined = new Map<PrintableSizeId, InstanceType<typeof jsPDF>>();
+      const watermark = bundleOptions.watermark || `${options.title} · PREVIEW`;
+      const maxAreaWidth = Math.max(...sizes.map(size => size.width - PRINTABLE_MARGIN * 2));
+      let exported = 0;
+
+      const total = coloringPages.length;
+      for (let index = 0; index < total; index++) {
+        throwIfCancelled(signal);
+        onProgress?.({ stage: 'rendering', completed: index, total });
+
+        const page = coloringPages[index];
+        const name = `page-${String(exported + 1).padStart(2, '0')}`;
+        let image: LoadedPageImage;
+        let element: HTMLImageElement;
+
+        // A printable without its artwork is worthless, so skip it rather than add a placeholder
+        try {
+          image = await loadPageImage(getPublishingPageImage(page), {
+            maxWidth: Math.ceil(maxAreaWidth * dpi),
+            rasterWidth: Math.ceil(maxAreaWidth * dpi)
+          });
+          element = await decodeImage(image.dataUrl);
+        } catch (error) {
+          imageIssues.push({
+            pageIndex: index,
+            type: getPublishingPageImage(page) ? 'undecodable' : 'missing',
+            message: getPublishingPageImage(page)
+              ? error instanceof Error ? error.message : 'Image could not be rendered'
+              : 'Coloring page has no image'
+          });
+          continue;
+        }
+
+        for (const size of sizes) {
+          const area = {
+            x: PRINTABLE_MARGIN,
+            y: PRINTABLE_MARGIN,
+            width: size.width - PRINTABLE_MARGIN * 2,
+            height: size.height - PRINTABLE_MARGIN * 2
+          };
+          const placement = fitWithin(image.width, image.height, area);
+
+          const png = await this.renderPrintablePNG(element, placement, size, dpi);
+          zip.file(`${size.folder}/PNG/${name}.png`, png);
+
+          const single = new jsPDF({ orientation: 'portrait', unit: 'in', format: [size.width, size.height] });
+          this.addPrintableImage(single, image, placement, options.title);
+          zip.file(`${size.folder}/PDF/${name}.pdf`, single.output('blob'));
+
+          let book = combined.get(size.id);
+          if (book) {
+            book.addPage([size.width, size.height], 'portrait');
+          } else {
+            book = new jsPDF({ orientation: 'portrait', unit: 'in', format: [size.width, size.height] });
+            combined.set(size.id, book);
+          }
+          this.addPrintableImage(book, image, placement, options.title);
+        }
+
+        zip.file(`Listing Previews/${name}-preview.jpg`, await this.renderPrintablePreview(element, image, watermark));
+        exported++;
+        await yieldToEventLoop();
+      }
+
+      if (exported === 0) throw new Error('None of the coloring pages have usable artwork');
+
+      throwIfCancelled(signal);
+      onProgress?.({ stage: 'saving', completed: total, total });
+
+      const fileTitle = options.title.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '') || 'Coloring-Pages';
+      sizes.forEach(size => {
+        const book = combined.get(size.id);
+        if (book) zip.file(`${size.folder}/${fileTitle}-All-Pages-${size.folder}.pdf`, book.output('blob'));
+      });
+      zip.file('LICENSE.txt', this.generatePrintableLicense(options, bundleOptions, sizes, exported, dpi));
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+
+      return {
+        success: true,
+        blob,
+        downloadUrl: URL.createObjectURL(blob),
+        metadata: {
+          format: 'Printable Bundle',
+          size: blob.size,
+          pages: exported,
+          sizes: sizes.map(size => size.id),
+          dpi,
+          imageIssues
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        cancelled: isRenderCancelled(error),
+        error: error instanceof Error ? error.message : 'Printable bundle generation failed'
+      };
+    }
+  }
+
+  private async renderPrintablePNG(
+    element: HTMLImageElement,
+    placement: ImagePlacement,
+    size: PrintableSize,
+    dpi: number
+  ): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(size.width * dpi);
+    canvas.height = Math.round(size.height * dpi);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(element, placement.x * dpi, placement.y * dpi, placement.width * dpi, placement.height * dpi);
+
+    return canvasToBlob(canvas, 'image/png');
+  }
+
+  private addPrintableImage(pdf: any, image: LoadedPageImage, placement: ImagePlacement, title: string) {
+    pdf.setProperties({ title, creator: 'ColorBook Engine' });
+    pdf.addImage(image.dataUrl, image.format, placement.x, placement.y, placement.width, placement.height, undefined, 'FAST');
+  }
+
+  // Small enough to be useless for printing, with the title tiled across the art
+  private async renderPrintablePreview(element: HTMLImageElement, image: LoadedPageImage, watermark: string): Promise<Blob> {
+    const size = PRINTABLE_SIZES.letter;
+    const scale = PREVIEW_WIDTH / size.width;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = PREVIEW_WIDTH;
+    canvas.height = Math.round(size.height * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const placement = fitWithin(image.width, image.height, {
+      x: PRINTABLE_MARGIN * scale,
+      y: PRINTABLE_MARGIN * scale,
+      width: canvas.width - PRINTABLE_MARGIN * scale * 2,
+      height: canvas.height - PRINTABLE_MARGIN * scale * 2
+    });
+    ctx.drawImage(element, placement.x, placement.y, placement.width, placement.height);
+
+    this.drawTextWatermark(canvas, watermark, 0.35);
+
+    return canvasToBlob(canvas, 'image/jpeg', 0.8);
+  }
+
+  private generatePrintableLicense(
+    options: PublishingOptions,
+    bundleOptions: PrintableBundleOptions,
+    sizes: PrintableSize[],
+    pageCount: number,
+    dpi: number
+  ): string {
+    const year = (options.metadata?.publishDate || new Date()).getFullYear();
+    const owner = options.metadata?.publisher || options.author;
+    const terms = bundleOptions.terms?.trim() || `PERSONAL USE LICENSE
+
+You may:
+- Print these pages as many times as you like for yourself, your family,
+  or your own classroom
+- Color them by hand or digitally for personal enjoyment
+
+You may not:
+- Resell, share or redistribute these files, printed or digital
+- Use the artwork in products for sale (print-on-demand, merchandise,
+  stock, templates or other digital downloads)
+- Claim the artwork as your own or use it to train AI models`;
+
+    return `${options.title}
+by ${options.author}
+${'='.repeat(Math.max(options.title.length, options.author.length + 3))}
+
+Thank you for your purchase!
+
+WHAT'S INSIDE
+- ${pageCount} coloring page${pageCount === 1 ? '' : 's'}, each in: ${sizes.map(size => size.name).join(', ')}
+- PNG folder: one ${dpi} DPI image per page
+- PDF folder: one PDF per page
+- All-Pages PDF: every page in a single file for easy printing
+- Listing Previews: low-resolution, watermarked samples
+
+PRINTING TIPS
+- Print at 100% / "Actual size" so nothing is cropped
+- Every page keeps a ${PRINTABLE_MARGIN}" white margin for home printers
+- Heavier paper (cardstock) stops markers bleeding through
+
+${terms}
+
+Copyright © ${year} ${owner}. All rights reserved.
 `;
   }
 
@@ -373,7 +1476,7 @@ For more information, visit the platform-specific publishing guidelines.
       totalSize: number;
     };
   }> {
-    const formats = ['KDP-PDF', 'EPUB', 'CBZ', 'Print-Package'];
+    const formats = ['KDP-PDF', 'EPUB', 'CBZ', 'Print-Package', 'Printables'];
     const results: Record<string, ExportResult> = {};
     let totalSize = 0;
     let successful = 0;
@@ -396,6 +1499,9 @@ For more information, visit the platform-specific publishing guidelines.
           case 'Print-Package':
             result = await this.generatePrintPackage(options);
             break;
+          case 'Printables':
+            result = await this.generatePrintableBundle(options);
+            break;
           default:
             result = { success: false, error: 'Unknown format' };
         }
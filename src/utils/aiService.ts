@@ -165,6 +165,7 @@ IMPORTANT: Each IMAGE_PROMPT must be detailed enough to generate a proper colori
     return {
       pages: pages,
       metadata: {
+        targetAgeGroup: params.isAdult ? 'adult' : `${params.ageMin}-${params.ageMax}`,
         imageStyle: params.imageStyle,
         lineWeight: params.lineWeight,
         aspectRatio: params.aspectRatio,
@@ -35,6 +35,8 @@ interface APIResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  // HTTP status of a failed request; 409 responses carry the current server copy in data
+  status?: number;
 }
 
 class BackendAPIClient {
@@ -120,7 +122,12 @@ class BackendAPIClient {
           }
         }
 
-        return { error: data.error, message: data.message };
+        return {
+          error: data.error,
+          message: data.message,
+          status: response.status,
+          ...(response.status === 409 ? { data } : {})
+        };
       }
 
       return { data };
@@ -270,11 +277,18 @@ class BackendAPIClient {
   }
 
   // Image methods
-  async uploadImage(file: File, metadata: any): Promise<APIResponse<{ image: any }>> {
+  async uploadImage(
+    file: Blob,
+    metadata: any,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<APIResponse<{ image: any }>> {
     const formData = new FormData();
     formData.append('image', file);
     formData.append('metadata', JSON.stringify(metadata));
 
+    if (onProgress) {
+      return this.uploadWithProgress('POST', '/images', formData, {}, onProgress);
+    }
     return this.request('/images', {
       method: 'POST',
       headers: {}, // Don't set Content-Type for FormData
@@ -282,6 +296,96 @@ class BackendAPIClient {
     });
   }
 
+  // Resumable uploads: start a session, send byte ranges, then complete it
+  async startImageUpload(metadata: any): Promise<APIResponse<{ upload: { id: string; received: number } }>> {
+    return this.request('/images/uploads', {
+      method: 'POST',
+      body: JSON.stringify(metadata),
+    });
+  }
+
+  async getImageUpload(uploadId: string): Promise<APIResponse<{ upload: { id: string; received: number } }>> {
+    return this.request(`/images/uploads/${uploadId}`);
+  }
+
+  async uploadImageChunk(
+    uploadId: string,
+    chunk: Blob,
+    offset: number,
+    total: number,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<APIResponse<{ upload: { id: string; received: number } }>> {
+    return this.uploadWithProgress('PUT', `/images/uploads/${uploadId}`, chunk, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Range': `bytes ${offset}-${offset + chunk.size - 1}/${total}`,
+    }, onProgress);
+  }
+
+  async completeImageUpload(uploadId: string): Promise<APIResponse<{ image: any }>> {
+    return this.request(`/images/uploads/${uploadId}/complete`, { method: 'POST' });
+  }
+
+  // fetch can't report upload progress, so uploads that need it go through XHR;
+  // an expired token is refreshed and the upload retried, as request() does
+  private async uploadWithProgress<T = any>(
+    method: string,
+    endpoint: string,
+    body: XMLHttpRequestBodyInit,
+    headers: Record<string, string>,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<APIResponse<T>> {
+    const response = await this.sendWithProgress<T>(method, endpoint, body, headers, onProgress);
+    if (response.status !== 401 || !this.refreshToken) {
+      return response;
+    }
+
+    if (await this.refreshAccessToken()) {
+      return this.sendWithProgress<T>(method, endpoint, body, headers, onProgress);
+    }
+
+    // Refresh failed, redirect to login
+    this.clearTokensFromStorage();
+    window.location.href = '/login';
+    return { error: 'Authentication failed', message: 'Please log in again' };
+  }
+
+  private sendWithProgress<T = any>(
+    method: string,
+    endpoint: string,
+    body: XMLHttpRequestBodyInit,
+    headers: Record<string, string>,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<APIResponse<T>> {
+    return new Promise(resolve => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(method, `${this.baseURL}${endpoint}`);
+      Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      if (this.accessToken) {
+        xhr.setRequestHeader('Authorization', `Bearer ${this.accessToken}`);
+      }
+
+      if (onProgress) {
+        xhr.upload.onprogress = (event) => {
+          if (event.lengthComputable) onProgress(event.loaded, event.total);
+        };
+      }
+
+      xhr.onload = () => {
+        let data: any = {};
+        try {
+          data = xhr.responseText ? JSON.parse(xhr.responseText) : {};
+        } catch {
+          data = { error: 'Invalid response', message: xhr.responseText };
+        }
+        resolve(xhr.status >= 200 && xhr.status < 300
+          ? { data }
+          : { error: data.error || `HTTP ${xhr.status}`, message: data.message, status: xhr.status });
+      };
+      xhr.onerror = () => resolve({ error: 'Network Error', message: 'Upload failed' });
+      xhr.send(body);
+    });
+  }
+
   async getImages(projectId: string): Promise<APIResponse<{ images: any[] }>> {
     return this.request(`/images?projectId=${projectId}`);
   }
@@ -0,0 +1,313 @@
+/**
+ * Blob Store
+ * Content-addressed storage for artwork. Each image is kept once as a binary
+ * Blob keyed by the SHA-256 of its bytes, and records hold "cbe-blob:<hash>"
+ * references that resolve to object URLs only when something draws them.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  BLOB_REF_PREFIX,
+  isBlobRef,
+  toImageSource,
+  decodeDataUrl,
+  blobToDataUrl,
+  resolveImageSource,
+  setBlobRefLoader
+} from './pageImages';
+
+export interface StoredBlob {
+  hash: string;
+  blob: Blob;
+  type: string;
+  size: number;
+  createdAt: string;
+  // Last time a save wrote this blob; pruning spares recently written ones
+  usedAt?: string;
+}
+
+export interface ExtractedImages<T> {
+  record: T;
+  // Blobs to write alongside the record
+  blobs: StoredBlob[];
+}
+
+export const BLOB_STORE_NAME = 'blobs';
+
+// Fields that hold artwork: page and story images, image records, drawing canvases
+const IMAGE_FIELDS = new Set(['imageData', 'dataUrl', 'canvasData', 'data']);
+
+// `data` is also used for fonts, so bare base64 there must start like an image
+const IMAGE_BASE64_PREFIXES = ['iVBORw0KGgo', '/9j/', 'R0lGOD', 'PHN2Zy', 'PD94bWw'];
+
+// Blobs are written before the record that points at them, and generated art
+// waits in the editor before it is saved, so pruning leaves young blobs alone
+const PRUNE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+// Synchronous, because IndexedDB upgrade transactions close if they wait on crypto.subtle
+export const sha256Hex = (bytes: Uint8Array): string => {
+  const bitLength = bytes.length * 8;
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (value: number, shift: number) => (value >>> shift) | (value << (32 - shift));
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  return Array.from(hash, word => word.toString(16).padStart(8, '0')).join('');
+};
+
+export const getBlobRefHash = (ref: string): string => ref.trim().slice(BLOB_REF_PREFIX.length);
+
+const isInlineImage = (field: string, value: string): boolean => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('data:image/')) return true;
+  if (/^(<\?xml|<svg)/.test(trimmed)) return trimmed.includes('<svg');
+  if (trimmed.length < 64 || !/^[A-Za-z0-9+/=\r\n]+$/.test(trimmed)) return false;
+  return field !== 'data' || IMAGE_BASE64_PREFIXES.some(prefix => trimmed.startsWith(prefix));
+};
+
+// Turn one inline image string into a blob and the reference that replaces it
+export const extractImage = (field: string, value: unknown): { ref: string; blob: StoredBlob } | null => {
+  if (typeof value !== 'string' || isBlobRef(value) || !isInlineImage(field, value)) return null;
+
+  const { bytes, type } = decodeDataUrl(toImageSource(value)!);
+  const hash = sha256Hex(bytes);
+  return {
+    ref: `${BLOB_REF_PREFIX}${hash}`,
+    blob: { hash, blob: new Blob([bytes], { type }), type, size: bytes.length, createdAt: new Date().toISOString() }
+  };
+};
+
+// Swap inline artwork anywhere in a record for references; the same image twice becomes one blob
+export const extractImages = <T>(record: T): ExtractedImages<T> => {
+  const blobs = new Map<string, StoredBlob>();
+
+  const walk = (value: unknown, field: string): unknown => {
+    if (Array.isArray(value)) return value.map(item => walk(item, field));
+    if (typeof value === 'object' && value !== null && !(value instanceof Blob)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, walk(item, key)]));
+    }
+    if (!IMAGE_FIELDS.has(field)) return value;
+
+    const extracted = extractImage(field, value);
+    if (!extracted) return value;
+    blobs.set(extracted.blob.hash, extracted.blob);
+    return extracted.ref;
+  };
+
+  return { record: walk(record, '') as T, blobs: Array.from(blobs.values()) };
+};
+
+// Every blob a record points at
+export const collectBlobRefs = (value: unknown, hashes: Set<string> = new Set()): Set<string> => {
+  if (typeof value === 'string') {
+    if (isBlobRef(value)) hashes.add(getBlobRefHash(value));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectBlobRefs(item, hashes));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach(item => collectBlobRefs(item, hashes));
+  }
+  return hashes;
+};
+
+class BlobStore {
+  private db: IDBDatabase | null = null;
+  private waiting: Array<(db: IDBDatabase) => void> = [];
+
+  constructor() {
+    setBlobRefLoader(ref => this.getBlob(ref));
+  }
+
+  // The database is opened and upgraded by persistentStorage
+  attach(db: IDBDatabase): void {
+    this.db = db;
+    this.waiting.forEach(resolve => resolve(db));
+    this.waiting = [];
+  }
+
+  private getDB(): Promise<IDBDatabase> {
+    if (this.db) return Promise.resolve(this.db);
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction([BLOB_STORE_NAME], mode).objectStore(BLOB_STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Blobs already stored under the same hash keep their bytes and are marked as just used
+  async putAll(blobs: StoredBlob[]): Promise<void> {
+    if (blobs.length === 0) return;
+    const db = await this.getDB();
+    const usedAt = new Date().toISOString();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([BLOB_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(BLOB_STORE_NAME);
+      blobs.forEach(blob => {
+        const request = store.get(blob.hash);
+        request.onsuccess = () => {
+          const existing = request.result as StoredBlob | undefined;
+          store.put(existing ? { ...existing, usedAt } : { ...blob, usedAt });
+        };
+      });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getBlob(ref: string): Promise<Blob> {
+    const hash = getBlobRefHash(ref);
+    const stored = await this.request<StoredBlob | undefined>('readonly', store => store.get(hash));
+    if (!stored) throw new Error(`Stored image ${hash.slice(0, 12)} is missing`);
+    return stored.blob;
+  }
+
+  // References back to data URLs, for backups and the server, which have no blob store
+  async inlineImages<T>(record: T): Promise<T> {
+    const inlined = new Map<string, Promise<string>>();
+
+    const walk = async (value: unknown): Promise<unknown> => {
+      if (typeof value === 'string' && isBlobRef(value)) {
+        const ref = value.trim();
+        if (!inlined.has(ref)) inlined.set(ref, this.getBlob(ref).then(blobToDataUrl));
+        return inlined.get(ref);
+      }
+      if (Array.isArray(value)) return Promise.all(value.map(walk));
+      if (typeof value === 'object' && value !== null && !(value instanceof Blob)) {
+        const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await walk(item)]));
+        return Object.fromEntries(entries);
+      }
+      return value;
+    };
+
+    return walk(record) as Promise<T>;
+  }
+
+  // Delete blobs no record points at any more, once they are older than the grace window
+  async prune(referenced: Set<string>, graceMs = PRUNE_GRACE_MS): Promise<number> {
+    const cutoff = Date.now() - graceMs;
+    const db = await this.getDB();
+    let removed = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([BLOB_STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(BLOB_STORE_NAME).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const stored = cursor.value as StoredBlob;
+        if (!referenced.has(stored.hash) && Date.parse(stored.usedAt || stored.createdAt) < cutoff) {
+          cursor.delete();
+          removed++;
+        }
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    return removed;
+  }
+
+  async getUsage(): Promise<{ count: number; size: number }> {
+    const usage = { count: 0, size: 0 };
+    const db = await this.getDB();
+
+    // A cursor reads the size field without holding every blob in an array
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction([BLOB_STORE_NAME], 'readonly').objectStore(BLOB_STORE_NAME).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        usage.count++;
+        usage.size += (cursor.value as StoredBlob).size || 0;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return usage;
+  }
+}
+
+// Resolve page artwork for an <img>; stored references load when the component first renders them
+export const useImageSource = (raw?: string | null): string | null => {
+  const [src, setSrc] = useState<string | null>(() => (isBlobRef(raw) ? null : toImageSource(raw)));
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!isBlobRef(raw)) {
+      setSrc(toImageSource(raw));
+      return;
+    }
+
+    setSrc(null);
+    resolveImageSource(raw)
+      .then(url => {
+        if (!cancelled) setSrc(url);
+      })
+      .catch(error => console.error('Error loading stored image:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [raw]);
+
+  return src;
+};
+
+export const blobStore = new BlobStore();
+
+export default blobStore;
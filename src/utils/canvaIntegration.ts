@@ -1,3 +1,7 @@
+import { TypographyProfile, PageFrameSettings } from '../types';
+import { resolveTypography, getFontFileExtension } from './typography';
+import { resolvePageFrames, getFrameStyle, getUsedFrameStyles, frameStyleToSVG, FRAME_STYLE_LABELS } from './pageFrames';
+
 interface CanvaTemplate {
   id: string;
   name: string;
@@ -32,6 +36,9 @@ interface CanvaExportOptions {
   includeMetadata?: boolean;
 }
 
+// Frames sit this far inside the page edge, in the template's units
+const CANVA_FRAME_INSET = 0.5;
+
 class CanvaIntegrationService {
   private apiKey: string | null = null;
 
@@ -84,9 +91,11 @@ class CanvaIntegrationService {
 
     // Convert story pages to Canva elements
     if (project.currentStory?.pages) {
+      const typography = resolveTypography(project.metadata?.typography);
+      const frames = resolvePageFrames(project.metadata?.pageFrames);
       for (let i = 0; i < project.currentStory.pages.length; i++) {
         const page = project.currentStory.pages[i];
-        const pageElements = await this.convertPageToCanvaElements(page, i, template.dimensions);
+        const pageElements = await this.convertPageToCanvaElements(page, i, template.dimensions, typography, frames);
         template.elements.push(...pageElements);
       }
     }
@@ -119,11 +128,29 @@ class CanvaIntegrationService {
   private async convertPageToCanvaElements(
     page: any,
     pageIndex: number,
-    dimensions: CanvaTemplate['dimensions']
+    dimensions: CanvaTemplate['dimensions'],
+    typography: TypographyProfile,
+    frames: PageFrameSettings
   ): Promise<CanvaElement[]> {
     const elements: CanvaElement[] = [];
     const pageOffset = pageIndex * (dimensions.height + 0.5); // Space between pages
 
+    // Frame artwork sits behind the page content, half an inch in from the edge
+    const frameStyle = getFrameStyle(frames, this.getCanvaPageType(page));
+    if (frameStyle !== 'none') {
+      elements.push({
+        id: `page_frame_${pageIndex}`,
+        type: 'image',
+        position: { x: CANVA_FRAME_INSET, y: pageOffset + CANVA_FRAME_INSET },
+        size: { width: dimensions.width - CANVA_FRAME_INSET * 2, height: dimensions.height - CANVA_FRAME_INSET * 2 },
+        properties: {
+          src: `frames/${frameStyle}.svg`,
+          fit: 'fill',
+          name: FRAME_STYLE_LABELS[frameStyle]
+        }
+      });
+    }
+
     // Add story text
     if (page.story) {
       elements.push({
@@ -133,11 +160,12 @@ class CanvaIntegrationService {
         size: { width: dimensions.width - 1.5, height: 2 },
         properties: {
           text: page.story,
-          fontSize: 14,
-          fontFamily: 'Arial',
+          fontSize: typography.fontSize,
+          fontFamily: this.getCanvaFontFamily(typography),
           color: '#000000',
-          alignment: 'left',
-          lineHeight: 1.4
+          alignment: typography.alignment,
+          lineHeight: typography.lineHeight,
+          letterSpacing: typography.letterSpacing
         }
       });
     }
@@ -193,6 +221,19 @@ class CanvaIntegrationService {
     return elements;
   }
 
+  // Story pages carry both text and artwork; pages without text are coloring pages
+  private getCanvaPageType(page: any): 'story' | 'coloring' {
+    return page.story ? 'story' : 'coloring';
+  }
+
+  // Canva matches fonts by family name; uploaded fonts ship in the package's fonts/ folder
+  private getCanvaFontFamily(typography: TypographyProfile): string {
+    if (typography.fontFamily === 'custom' && typography.customFont) {
+      return typography.customFont.name;
+    }
+    return typography.fontFamily === 'times' ? 'Times New Roman' : 'Arial';
+  }
+
   private async convertDrawingsToCanvaElements(
     drawings: any[],
     dimensions: CanvaTemplate['dimensions']
@@ -336,7 +377,8 @@ class CanvaIntegrationService {
           fontSize: element.properties.fontSize,
           color: element.properties.color,
           textAlign: element.properties.alignment,
-          lineHeight: element.properties.lineHeight
+          lineHeight: element.properties.lineHeight,
+          letterSpacing: element.properties.letterSpacing
         };
       
       case 'image':
@@ -436,6 +478,26 @@ Contact our support team for assistance with Canva integration.
         });
       }
 
+      // Canva Pro users can upload the book's font under Brand Kit > Fonts
+      const typography = resolveTypography(project.metadata?.typography);
+      if (typography.fontFamily === 'custom' && typography.customFont) {
+        const font = typography.customFont;
+        zip.folder('fonts')?.file(`${font.name}.${getFontFileExtension(font)}`, font.data, { base64: true });
+      }
+
+      // Frames as SVG, sized to match their placement in canva-template.json
+      const frames = resolvePageFrames(project.metadata?.pageFrames);
+      const frameStyles = getUsedFrameStyles(
+        frames,
+        (project.currentStory?.pages || []).map((page: any) => this.getCanvaPageType(page))
+      );
+      frameStyles.forEach(style => {
+        zip.folder('frames')?.file(
+          `${style}.svg`,
+          frameStyleToSVG(style, template.dimensions.width - CANVA_FRAME_INSET * 2, template.dimensions.height - CANVA_FRAME_INSET * 2)
+        );
+      });
+
       // Add text content
       if (project.currentStory?.pages) {
         let textContent = `# ${project.title}\nby ${project.author || 'Unknown'}\n\n`;
@@ -464,14 +526,26 @@ Contact our support team for assistance with Canva integration.
             quality: 'High',
             colorMode: 'RGB',
             bleed: '0.125 inches'
-          }
+          },
+          typography: {
+            preset: typography.preset,
+            fontFamily: this.getCanvaFontFamily(typography),
+            fontSize: `${typography.fontSize}pt`,
+            headingSize: `${typography.headingSize}pt`,
+            lineHeight: typography.lineHeight,
+            letterSpacing: `${typography.letterSpacing}em`,
+            alignment: typography.alignment
+          },
+          pageFrames: frameStyles.map(style => ({ style: FRAME_STYLE_LABELS[style], file: `frames/${style}.svg` }))
         },
         instructions: [
           '1. Extract this zip file',
           '2. Read the CANVA_IMPORT_GUIDE.md file',
           '3. Upload images from the images/ folder to Canva',
           '4. Copy text content from story-content.md',
-          '5. Use the template.json for precise positioning'
+          '5. Apply the font, size and spacing listed under canva.typography (upload fonts/ to your Brand Kit if present)',
+          '6. Upload frames/ and place each frame behind its page as positioned in template.json',
+          '7. Use the template.json for precise positioning'
         ]
       };
       
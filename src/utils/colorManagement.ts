@@ -0,0 +1,293 @@
+/**
+ * Print Color Management
+ * CMYK output for the cover and interior PDFs. Drawing colours and artwork are
+ * converted to process colour with neutrals on the black plate only, and
+ * PDF/X-1a documents get an output intent, page boxes and the PDF/X Info keys.
+ */
+
+import { jsPDF } from 'jspdf';
+import { ColorMode } from '../types';
+import { readImagePixels } from './pageImages';
+
+export interface PrintColorOptions {
+  colorMode?: ColorMode;
+  pdfx?: boolean;
+}
+
+export type CMYK = [number, number, number, number];
+
+interface PageBox {
+  bottomLeftX: number;
+  bottomLeftY: number;
+  topRightX: number;
+  topRightY: number;
+}
+
+type ColorSetter = 'setFillColor' | 'setDrawColor' | 'setTextColor';
+
+export const COLOR_MODE_LABELS: Record<ColorMode, string> = {
+  rgb: 'RGB (screen, home printing)',
+  cmyk: 'CMYK (offset and print-on-demand)'
+};
+
+// US web offset (SWOP) - a registered characterisation, so PDF/X-1a needs no embedded ICC profile
+export const PDFX_OUTPUT_CONDITION = {
+  identifier: 'CGATS TR 001',
+  registry: 'http://www.color.org',
+  info: 'U.S. Web Coated (SWOP) v2'
+};
+
+// jsPDF never embeds its built-in fonts, and PDF/X-1a forbids unembedded ones
+export const PDFX_FONT_ERROR = 'PDF/X-1a needs every font embedded - upload a TTF font under Typography or turn PDF/X off';
+
+// Channels this close together are treated as grey and printed with black ink only
+const NEUTRAL_TOLERANCE = 6;
+
+// Artwork with fewer coloured pixels than this is line art (anti-aliasing noise aside)
+const LINE_ART_COLOR_RATIO = 0.001;
+
+// jsPDF has no raw-pixel image format, so converted artwork travels in this container
+const PRINT_IMAGE_FORMAT = 'PRINTRAW';
+const PRINT_IMAGE_MAGIC = [0x43, 0x42, 0x50, 0x58];
+const PRINT_IMAGE_HEADER = 13;
+
+const isNeutral = (r: number, g: number, b: number): boolean => {
+  return Math.abs(r - g) <= NEUTRAL_TOLERANCE && Math.abs(g - b) <= NEUTRAL_TOLERANCE && Math.abs(r - b) <= NEUTRAL_TOLERANCE;
+};
+
+const round3 = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Greys (including pure black text and linework) map to K-only; colours use
+// full grey-component replacement, which keeps total ink at or below 300%
+export const rgbToCmyk = (r: number, g: number, b: number): CMYK => {
+  if (isNeutral(r, g, b)) {
+    return [0, 0, 0, round3(1 - (r + g + b) / 765)];
+  }
+
+  const red = r / 255;
+  const green = g / 255;
+  const blue = b / 255;
+  const k = 1 - Math.max(red, green, blue);
+  const white = 1 - k;
+
+  return [
+    round3((white - red) / white),
+    round3((white - green) / white),
+    round3((white - blue) / white),
+    round3(k)
+  ];
+};
+
+// jsPDF colour arguments: a grey level, a hex string, RGB, or CMYK (0-1)
+const toCmykArgs = (args: unknown[]): unknown[] => {
+  if (args.length >= 4 && args[3] !== undefined) return args;
+
+  const [ch1, ch2, ch3] = args;
+  if (typeof ch1 === 'number' && ch2 === undefined) {
+    return rgbToCmyk(ch1, ch1, ch1);
+  }
+  if (typeof ch1 === 'number' && typeof ch2 === 'number' && typeof ch3 === 'number') {
+    return rgbToCmyk(ch1, ch2, ch3);
+  }
+  if (typeof ch1 === 'string' && /^#[0-9a-f]{6}$/i.test(ch1)) {
+    const hex = parseInt(ch1.slice(1), 16);
+    return rgbToCmyk((hex >> 16) & 255, (hex >> 8) & 255, hex & 255);
+  }
+  return args;
+};
+
+const toBinaryString = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+const fromBinaryString = (value: string): Uint8Array => {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+// zlib-wrapped deflate, which is exactly what a PDF FlateDecode filter expects
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const packPrintImage = (width: number, height: number, channels: number, data: Uint8Array): Uint8Array => {
+  const packed = new Uint8Array(PRINT_IMAGE_HEADER + data.length);
+  const view = new DataView(packed.buffer);
+  packed.set(PRINT_IMAGE_MAGIC, 0);
+  view.setUint32(4, width);
+  view.setUint32(8, height);
+  packed[12] = channels;
+  packed.set(data, PRINT_IMAGE_HEADER);
+  return packed;
+};
+
+// addImage plugin: unpacks the container into a Flate-compressed image XObject
+(jsPDF.API as any)[`process${PRINT_IMAGE_FORMAT}`] = function (
+  imageData: Uint8Array,
+  index: number,
+  alias: string
+) {
+  const view = new DataView(imageData.buffer, imageData.byteOffset, imageData.byteLength);
+  const channels = imageData[12];
+
+  return {
+    data: toBinaryString(imageData.subarray(PRINT_IMAGE_HEADER)),
+    width: view.getUint32(4),
+    height: view.getUint32(8),
+    colorSpace: channels === 4 ? 'DeviceCMYK' : 'DeviceGray',
+    bitsPerComponent: 8,
+    filter: 'FlateDecode',
+    index,
+    alias
+  };
+};
+
+class ColorManagementService {
+  private imageCount = 0;
+
+  resolveColorMode(options: PrintColorOptions = {}): ColorMode {
+    // PDF/X-1a forbids RGB, so it always implies CMYK
+    return options.pdfx ? 'cmyk' : options.colorMode || 'rgb';
+  }
+
+  // Call straight after creating the document, before anything is drawn
+  prepareDocument(pdf: jsPDF, options: PrintColorOptions = {}) {
+    if (this.resolveColorMode(options) === 'cmyk') {
+      const setters: ColorSetter[] = ['setFillColor', 'setDrawColor', 'setTextColor'];
+      setters.forEach(method => {
+        const original = (pdf[method] as (...args: unknown[]) => jsPDF).bind(pdf);
+        (pdf as any)[method] = (...args: unknown[]) => original(...toCmykArgs(args));
+      });
+    }
+
+    if (options.pdfx) {
+      const write = (pdf.internal as any).write as (value: string) => void;
+      pdf.internal.events.subscribe('putCatalog', () => {
+        write(
+          `/OutputIntents [<< /Type /OutputIntent /S /GTS_PDFX ` +
+          `/OutputConditionIdentifier (${PDFX_OUTPUT_CONDITION.identifier}) ` +
+          `/RegistryName (${PDFX_OUTPUT_CONDITION.registry}) ` +
+          `/Info (${PDFX_OUTPUT_CONDITION.info}) >>]`
+        );
+      });
+    }
+  }
+
+  // Embed artwork, converting it to DeviceCMYK - or DeviceGray (black ink only) for line art
+  async addImage(
+    pdf: jsPDF,
+    dataUrl: string,
+    format: 'PNG' | 'JPEG',
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: PrintColorOptions = {}
+  ) {
+    if (this.resolveColorMode(options) === 'rgb') {
+      pdf.addImage(dataUrl, format, x, y, width, height, undefined, 'FAST');
+      return;
+    }
+
+    const pixels = await readImagePixels(dataUrl);
+    const { data } = pixels;
+    const pixelCount = pixels.width * pixels.height;
+
+    let colored = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      if (!isNeutral(data[i], data[i + 1], data[i + 2])) colored++;
+    }
+
+    let channels: number;
+    let samples: Uint8Array;
+
+    if (colored / pixelCount <= LINE_ART_COLOR_RATIO) {
+      channels = 1;
+      samples = new Uint8Array(pixelCount);
+      for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+        samples[p] = Math.round((data[i] + data[i + 1] + data[i + 2]) / 3);
+      }
+    } else {
+      channels = 4;
+      samples = new Uint8Array(pixelCount * 4);
+      for (let i = 0; i < data.length; i += 4) {
+        const cmyk = rgbToCmyk(data[i], data[i + 1], data[i + 2]);
+        // jsPDF writes an inverted Decode array for DeviceCMYK, so store 1 - ink
+        for (let c = 0; c < 4; c++) {
+          samples[i + c] = Math.round((1 - cmyk[c]) * 255);
+        }
+      }
+    }
+
+    const packed = packPrintImage(pixels.width, pixels.height, channels, await deflate(samples));
+    pdf.addImage(packed, PRINT_IMAGE_FORMAT, x, y, width, height, `print-image-${++this.imageCount}`);
+  }
+
+  // Serialise the document, adding PDF/X page boxes and Info keys when requested
+  output(pdf: jsPDF, options: PrintColorOptions = {}, bleed = 0): Blob {
+    if (!options.pdfx) {
+      return pdf.output('blob');
+    }
+
+    const k = pdf.internal.scaleFactor;
+    for (let n = 1; n <= pdf.getNumberOfPages(); n++) {
+      const context = pdf.getPageInfo(n).pageContext;
+      const media: PageBox = context.mediaBox;
+      context.bleedBox = { ...media };
+      context.trimBox = {
+        bottomLeftX: media.bottomLeftX + bleed * k,
+        bottomLeftY: media.bottomLeftY + bleed * k,
+        topRightX: media.topRightX - bleed * k,
+        topRightY: media.topRightY - bleed * k
+      };
+    }
+
+    // Built-in fonts are written as bare Type1 dictionaries with no font file
+    const source = pdf.output();
+    if (/\/Subtype \/Type1\b/.test(source)) {
+      throw new Error(PDFX_FONT_ERROR);
+    }
+
+    return new Blob([fromBinaryString(this.addPDFXInfo(source))], { type: 'application/pdf' });
+  }
+
+  // jsPDF only writes its own Info keys, so the PDF/X ones are spliced in
+  // afterwards. Info is followed only by the catalog, the xref and startxref,
+  // so those are the only offsets that move
+  private addPDFXInfo(source: string): string {
+    const infoAt = source.lastIndexOf('/Producer (');
+    const xrefAt = source.lastIndexOf('\nxref\n');
+    if (infoAt < 0 || xrefAt < 0) {
+      throw new Error('PDF/X metadata could not be written');
+    }
+
+    const creationDate = source.slice(infoAt).match(/\/CreationDate \(([^)]*)\)/)?.[1] || '';
+    const keys = [
+      '/GTS_PDFXVersion (PDF/X-1:2001)',
+      '/GTS_PDFXConformance (PDF/X-1a:2001)',
+      '/Trapped /False',
+      `/ModDate (${creationDate})`,
+      ''
+    ].join('\n');
+    const shift = (offset: number) => (offset > infoAt ? offset + keys.length : offset);
+
+    const body = source.slice(0, infoAt) + keys + source.slice(infoAt, xrefAt);
+    const tail = source
+      .slice(xrefAt)
+      .replace(/^(\d{10}) 00000 n /gm, (_, offset: string) => `${String(shift(Number(offset))).padStart(10, '0')} 00000 n `)
+      .replace(/startxref\n(\d+)/, (_, offset: string) => `startxref\n${shift(Number(offset))}`);
+
+    return body + tail;
+  }
+}
+
+export const colorManagement = new ColorManagementService();
+export default colorManagement;
@@ -0,0 +1,812 @@
+/**
+ * Print Compliance Engine
+ * Typed rules run against the interior the exporters will actually produce -
+ * arranged pages, decoded artwork, measured story text and page geometry - for
+ * the chosen print platform. Failing rules can offer a fix the UI applies.
+ */
+
+import {
+  Project,
+  ExportSettings,
+  PaperType,
+  TypographyProfile,
+  ComplianceCategory,
+  ComplianceSeverity,
+  ComplianceCheck,
+  ComplianceResults
+} from '../types';
+import { calculateSpineWidth, calculateCoverLayout, PAPER_TYPE_LABELS } from './coverBuilder';
+import { applyMatterPages } from './frontMatter';
+import { PreviewPage, arrangeInteriorPages, buildProjectPages, DEFAULT_PAGE_SELECTION } from './interiorLayout';
+import { AGE_BAND_LABELS, AGE_BAND_LIMITS, AgeBand, LineArtAnalysis, analyzePageImage, resolveAgeBand } from './imageAnalysis';
+import { toImageSource, fitWithin, ImagePlacement } from './pageImages';
+import { resolvePageFrames, getPageFrameLayout } from './pageFrames';
+import { resolvePageNumbering, buildPageLabels } from './pageNumbering';
+import { PrintPlatformProfile, getPrintPlatform, getPlatformGeometry, getPaddedPageCount, supportsTrimSize } from './printPlatforms';
+import { TrimSize, TrimSizeId, PageGeometry, TRIM_SIZES, isTrimSizeId, getTrimSize, getRequiredGutter, formatTrimSize, isRectoPage } from './trimSizes';
+import { resolveTypography, measureTextBlock, embedsAllFonts } from './typography';
+
+export interface ArtworkInfo {
+  pageNumber: number;
+  // Pixel size, or null for vector artwork which prints sharp at any size
+  width: number | null;
+  height: number | null;
+  // Box the exporter fits the artwork into, in inches
+  area: ImagePlacement;
+  analysis?: LineArtAnalysis;
+  error?: string;
+}
+
+export interface TextFit {
+  pageNumber: number;
+  // Inches of story text below the bottom of the safe area
+  overflow: number;
+}
+
+export interface ComplianceContext {
+  project: Project;
+  settings: ExportSettings;
+  platform: PrintPlatformProfile;
+  trim: TrimSize;
+  // The export trim isn't one we know, so the exporters fall back to the default
+  unknownTrim: boolean;
+  geometry: PageGeometry;
+  pages: PreviewPage[];
+  pageCount: number;
+  paperType: PaperType;
+  typography: TypographyProfile;
+  ageBand: AgeBand;
+  artwork: ArtworkInfo[];
+  // Front cover art, placed full-bleed on the cover's front panel; pageNumber is 0
+  coverArtwork: ArtworkInfo | null;
+  textFit: TextFit[];
+  // Largest story font size at which every story page fits, when the current one doesn't
+  fittingFontSize: number | null;
+}
+
+export interface RuleOutcome {
+  passed: boolean;
+  message: string;
+  details?: string[];
+  pages?: number[];
+}
+
+// Changes applied through the store: export settings and/or the project
+export interface ComplianceFix {
+  label: string;
+  exportSettings?: Partial<ExportSettings>;
+  project?: Partial<Project>;
+}
+
+export interface ComplianceRule {
+  id: string;
+  title: string;
+  description: string | ((context: ComplianceContext) => string);
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  // Rules that only apply to some platforms or books
+  applies?: (context: ComplianceContext) => boolean;
+  check: (context: ComplianceContext) => RuleOutcome;
+  // Only asked for when the check fails
+  fix?: (context: ComplianceContext) => ComplianceFix | null;
+}
+
+export interface ComplianceRun {
+  report: ComplianceResults;
+  fixes: Record<string, ComplianceFix>;
+}
+
+// Matched as whole words against the book's own text
+const FLAGGED_TERMS = ['violence', 'violent', 'weapon', 'gun', 'blood', 'kill', 'gore', 'adult', 'explicit'];
+
+// Platforms reject interiors with long runs of blank pages
+export const MAX_CONSECUTIVE_BLANK_PAGES = 10;
+export const MAX_TRAILING_BLANK_PAGES = 4;
+// More than this share of blank pages reads as padding to reviewers
+export const MAX_BLANK_PAGE_RATIO = 0.5;
+
+// Smallest story size a fix will suggest
+const MIN_STORY_FONT_SIZE = 8;
+// Heading line drawn above story text on a story page, see interiorPDF
+const STORY_TEXT_OFFSET = 0.4;
+
+const formatPages = (pages: number[]): string => {
+  const shown = pages.slice(0, 12).join(', ');
+  return pages.length > 12 ? `${shown} and ${pages.length - 12} more` : shown;
+};
+
+const isBlank = (page: PreviewPage): boolean => page.type === 'blank' && !page.content?.testPattern;
+
+// Supported trim closest in shape and size to the current one
+const nearestTrim = (platform: PrintPlatformProfile, trim: TrimSize): TrimSizeId => {
+  const distance = (id: TrimSizeId) => Math.abs(TRIM_SIZES[id].width - trim.width) + Math.abs(TRIM_SIZES[id].height - trim.height);
+  return [...platform.trimSizes].sort((a, b) => distance(a) - distance(b))[0];
+};
+
+export const COMPLIANCE_RULES: ComplianceRule[] = [
+  // Content Rules
+  {
+    id: 'page-count',
+    title: 'Page Count',
+    description: ({ platform }) => `${platform.name} accepts ${platform.minPages} to ${platform.maxPages} pages for paperback books`,
+    category: 'content',
+    severity: 'error',
+    check: ({ platform, pageCount }) => {
+      const padded = getPaddedPageCount(platform, pageCount);
+      const padding = padded > pageCount
+        ? [`${platform.name} needs a multiple of ${platform.pageMultiple} pages - ${padded - pageCount} blank page will be added at the back`]
+        : [];
+
+      if (pageCount > platform.maxPages) {
+        return {
+          passed: false,
+          message: `✗ ${pageCount} pages is over the ${platform.maxPages} page limit`,
+          details: ['Split the book into volumes', 'Remove blank backs by switching the interior layout to continuous']
+        };
+      }
+      return {
+        passed: padded >= platform.minPages,
+        message: padded >= platform.minPages
+          ? `✓ ${pageCount} pages meets minimum requirement`
+          : `✗ Only ${pageCount} pages, need at least ${platform.minPages}`,
+        details: padded < platform.minPages ? [
+          'Add more story chapters',
+          'Include additional coloring pages',
+          'Add front/back matter (title page, copyright, etc.)',
+          ...padding
+        ] : padding.length > 0 ? padding : undefined
+      };
+    }
+  },
+  {
+    id: 'content-appropriateness',
+    title: 'Content Appropriateness',
+    description: ({ platform }) => `Content must be appropriate for all ages and follow ${platform.name} guidelines`,
+    category: 'content',
+    severity: 'warning',
+    check: ({ project, pages, platform }) => {
+      if (!project.pages || project.pages.length === 0) return { passed: false, message: '✗ No story content to check' };
+
+      const pattern = new RegExp(`\\b(${FLAGGED_TERMS.join('|')})\\b`, 'gi');
+      const found = new Set<string>();
+      const flaggedPages = new Set<number>();
+
+      [project.title, project.description].forEach(text => {
+        (text?.match(pattern) || []).forEach(term => found.add(term.toLowerCase()));
+      });
+      project.pages.forEach(page => {
+        const text = [page.content.heading, page.content.text, page.content.imagePrompt].filter(Boolean).join(' ');
+        const matches = text.match(pattern);
+        if (!matches) return;
+        matches.forEach(term => found.add(term.toLowerCase()));
+        pages.filter(p => p.content?.id === page.id).forEach(p => flaggedPages.add(p.pageNumber));
+      });
+
+      return {
+        passed: found.size === 0,
+        message: found.size === 0
+          ? '✓ Content appears appropriate for all ages'
+          : `⚠ Content may need review: ${Array.from(found).join(', ')}`,
+        details: found.size > 0 ? [
+          'Review content for age-appropriateness',
+          `Ensure compliance with ${platform.name} content guidelines`,
+          'Consider family-friendly alternatives'
+        ] : undefined,
+        pages: flaggedPages.size > 0 ? Array.from(flaggedPages).sort((a, b) => a - b) : undefined
+      };
+    }
+  },
+  {
+    id: 'blank-pages',
+    title: 'Blank Pages',
+    description: 'Long runs of blank pages or a mostly blank book are flagged in review',
+    category: 'content',
+    severity: 'warning',
+    check: ({ pages, pageCount }) => {
+      const blanks = pages.filter(isBlank).map(page => page.pageNumber);
+      let longestRun = 0;
+      let run = 0;
+      pages.forEach(page => {
+        run = isBlank(page) ? run + 1 : 0;
+        longestRun = Math.max(longestRun, run);
+      });
+      const trailing = run;
+      const ratio = pageCount > 0 ? blanks.length / pageCount : 0;
+
+      const problems = [
+        longestRun > MAX_CONSECUTIVE_BLANK_PAGES && `${longestRun} blank pages in a row (limit ${MAX_CONSECUTIVE_BLANK_PAGES})`,
+        trailing > MAX_TRAILING_BLANK_PAGES && `${trailing} blank pages at the end (limit ${MAX_TRAILING_BLANK_PAGES})`,
+        ratio > MAX_BLANK_PAGE_RATIO && `${Math.round(ratio * 100)}% of the pages are blank`
+      ].filter((item): item is string => !!item);
+
+      return {
+        passed: problems.length === 0,
+        message: problems.length === 0
+          ? `✓ ${blanks.length} blank page(s) (${Math.round(ratio * 100)}%)`
+          : `⚠ ${problems[0]}`,
+        details: problems.length > 0 ? [...problems.slice(1), 'Print a color test swatch on blank backs, or use the continuous layout'] : undefined,
+        pages: problems.length > 0 ? blanks : undefined
+      };
+    },
+    fix: ({ settings }) => {
+      if (settings.interiorLayout === 'single-sided' && !settings.colorTestBacks) {
+        return { label: 'Print color test swatches on blank backs', exportSettings: { colorTestBacks: true } };
+      }
+      return settings.interiorLayout && settings.interiorLayout !== 'continuous'
+        ? { label: 'Switch to the continuous layout', exportSettings: { interiorLayout: 'continuous' } }
+        : null;
+    }
+  },
+
+  // Technical Rules
+  {
+    id: 'image-resolution',
+    title: 'Image Resolution',
+    description: ({ platform }) => `Artwork must reach ${platform.files.minImageDPI} DPI at the size it prints`,
+    category: 'technical',
+    severity: 'warning',
+    check: ({ artwork, platform }) => {
+      if (artwork.length === 0) {
+        return { passed: true, message: '⚠ No coloring pages to check', details: ['Add coloring page images to your story'] };
+      }
+
+      const dpi = platform.files.minImageDPI;
+      const missing = artwork.filter(art => art.error);
+      const low = artwork
+        .filter(art => !art.error && art.width && art.height)
+        .map(art => {
+          const placement = fitWithin(art.width!, art.height!, art.area);
+          return {
+            art,
+            effective: Math.floor(art.width! / placement.width),
+            needed: `${Math.ceil(placement.width * dpi)} × ${Math.ceil(placement.height * dpi)} px`
+          };
+        })
+        .filter(item => item.effective < dpi);
+      const vectors = artwork.filter(art => !art.error && art.width === null).length;
+
+      const passed = missing.length === 0 && low.length === 0;
+      return {
+        passed,
+        message: passed
+          ? `✓ ${artwork.length} illustrations print at ${dpi} DPI or better${vectors > 0 ? ` (${vectors} vector)` : ''}`
+          : `✗ ${low.length} low-resolution and ${missing.length} missing illustration(s)`,
+        details: passed ? undefined : [
+          ...low.map(({ art, effective, needed }) =>
+            `Page ${art.pageNumber}: ${art.width} × ${art.height} px prints at ${effective} DPI (needs ${needed})`),
+          ...missing.map(art => `Page ${art.pageNumber}: ${art.error}`),
+          'Regenerate or upscale the artwork before printing'
+        ],
+        pages: passed ? undefined : [...low.map(item => item.art.pageNumber), ...missing.map(art => art.pageNumber)].sort((a, b) => a - b)
+      };
+    }
+  },
+  {
+    id: 'safe-zone',
+    title: 'Safe Zone',
+    description: 'Story text must stay inside the margins, clear of the trim and gutter',
+    category: 'technical',
+    severity: 'warning',
+    check: ({ textFit, typography }) => {
+      const overflowing = textFit.filter(fit => fit.overflow > 0.01);
+      return {
+        passed: overflowing.length === 0,
+        message: overflowing.length === 0
+          ? `✓ Story text fits the safe area at ${typography.fontSize}pt`
+          : `⚠ Story text runs past the bottom margin on ${overflowing.length} page(s)`,
+        details: overflowing.length > 0 ? [
+          ...overflowing.slice(0, 5).map(fit => `Page ${fit.pageNumber}: ${fit.overflow.toFixed(2)}" too long`),
+          'Shorten the text, lower the font size or reduce line spacing under Typography'
+        ] : undefined,
+        pages: overflowing.length > 0 ? overflowing.map(fit => fit.pageNumber) : undefined
+      };
+    },
+    fix: ({ project, typography, fittingFontSize }) => fittingFontSize === null ? null : {
+      label: `Reduce story text to ${fittingFontSize}pt`,
+      project: { metadata: { ...project.metadata, typography: { ...typography, fontSize: fittingFontSize } } }
+    }
+  },
+  {
+    id: 'line-art',
+    title: 'Line Art Quality',
+    description: ({ ageBand }) => `Pure black outlines on white, at least ${AGE_BAND_LIMITS[ageBand].minLineWidth}pt thick for ${AGE_BAND_LABELS[ageBand].toLowerCase()}`,
+    category: 'technical',
+    severity: 'warning',
+    check: ({ artwork }) => {
+      const analysed = artwork.filter(art => art.analysis);
+      const flagged = analysed.filter(art => art.analysis!.hasGradients || art.analysis!.hasColor || art.analysis!.thinLines || !art.analysis!.lineWidth);
+      return {
+        passed: flagged.length === 0,
+        message: flagged.length === 0
+          ? `✓ ${analysed.length} illustration(s) are clean line art`
+          : `⚠ ${flagged.length} illustration(s) have shading, colour or thin outlines`,
+        details: flagged.length > 0 ? [
+          ...flagged.slice(0, 6).map(art => {
+            const { hasGradients, hasColor, thinLines, lineWidth } = art.analysis!;
+            const problems = [
+              !lineWidth && 'no outlines found',
+              hasGradients && 'grey shading',
+              hasColor && 'colour',
+              thinLines && lineWidth && `${lineWidth.thinnest}pt lines`
+            ].filter(Boolean);
+            return `Page ${art.pageNumber}: ${problems.join(', ')}`;
+          }),
+          'Regenerate with "black and white line art, no shading, thick outlines"'
+        ] : undefined,
+        pages: flagged.length > 0 ? flagged.map(art => art.pageNumber) : undefined
+      };
+    }
+  },
+  {
+    id: 'colorable-regions',
+    title: 'Colorable Areas',
+    description: ({ ageBand }) => `Closed shapes should be at least ${AGE_BAND_LIMITS[ageBand].minRegionArea} sq in for ${AGE_BAND_LABELS[ageBand].toLowerCase()}`,
+    category: 'content',
+    severity: 'info',
+    check: ({ artwork }) => {
+      const flagged = artwork.filter(art => art.analysis && art.analysis.regions.tooSmall > 0);
+      return {
+        passed: flagged.length === 0,
+        message: flagged.length === 0
+          ? '✓ Every closed area is large enough to color'
+          : `ℹ ${flagged.length} illustration(s) have areas too small for the target age`,
+        details: flagged.length > 0 ? [
+          ...flagged.slice(0, 6).map(art =>
+            `Page ${art.pageNumber}: ${art.analysis!.regions.tooSmall} of ${art.analysis!.regions.total} areas too small`),
+          'Simplify detail, or set an older target age group'
+        ] : undefined,
+        pages: flagged.length > 0 ? flagged.map(art => art.pageNumber) : undefined
+      };
+    }
+  },
+  {
+    id: 'artwork-edges',
+    title: 'Artwork Edges and Bleed',
+    description: 'Line art should sit whole inside the page, not cropped or running into the bleed',
+    category: 'technical',
+    severity: 'warning',
+    check: ({ artwork, coverArtwork }) => {
+      const flagged = artwork.filter(art => art.analysis && (art.analysis.intoBleed || art.analysis.edgeContact.length > 0));
+      const coverIntoBleed = !!coverArtwork?.analysis?.intoBleed;
+      const count = flagged.length + (coverIntoBleed ? 1 : 0);
+      return {
+        passed: count === 0,
+        message: count === 0
+          ? '✓ No artwork is cropped or runs into the bleed'
+          : `⚠ ${count} illustration(s) are cut off at the edge or trimmed`,
+        details: count > 0 ? [
+          ...(coverIntoBleed ? ['Front cover: line art runs into the bleed'] : []),
+          ...flagged.slice(0, 6).map(art => art.analysis!.intoBleed
+            ? `Page ${art.pageNumber}: line art runs into the bleed`
+            : `Page ${art.pageNumber}: cut off at the ${art.analysis!.edgeContact.join(', ')} edge`),
+          'Regenerate with the whole subject and a white border around it'
+        ] : undefined,
+        pages: flagged.length > 0 ? flagged.map(art => art.pageNumber) : undefined
+      };
+    }
+  },
+  {
+    id: 'bleed-margins',
+    title: 'Bleed and Margins',
+    description: 'Interior and cover bleed and the margins must match the platform',
+    category: 'technical',
+    severity: 'error',
+    check: ({ platform, trim, settings, pageCount }) => {
+      const gutter = getRequiredGutter(trim, pageCount, platform.gutterRules);
+      // The export settings, not the geometry derived from the platform's own values
+      const bleed = settings.bleed ?? platform.bleed;
+      const margins = { ...trim.recommendedMargins, ...settings.margins };
+      const minMargin = bleed > 0 ? trim.minMargin : trim.minMarginNoBleed;
+      const problems = [
+        bleed !== platform.bleed && `Interior bleed is ${bleed}", ${platform.name} expects ${platform.bleed}"`,
+        platform.cover.bleed !== bleed && `Cover bleed ${platform.cover.bleed}" differs from the interior's ${bleed}"`,
+        margins.inner < gutter && `Inner margin ${margins.inner}" is under the ${gutter}" gutter for ${pageCount} pages`,
+        Math.min(margins.outer, margins.top, margins.bottom) < minMargin && `Outer margins are under ${minMargin}"`
+      ].filter((item): item is string => !!item);
+
+      return {
+        passed: problems.length === 0,
+        message: problems.length === 0
+          ? `✓ PDF export applies ${formatTrimSize(trim)} margins and bleed for ${platform.name}`
+          : `✗ ${problems[0]}`,
+        details: problems.length === 0 ? [
+          `${bleed}" bleed on all sides`,
+          `${margins.inner}" inner margins (${gutter}" required for ${pageCount} pages), ${margins.outer}" outer margins`,
+          'Text kept within safe zones'
+        ] : problems.slice(1)
+      };
+    }
+  },
+
+  // Format Rules
+  {
+    id: 'trim-size',
+    title: 'Trim Size',
+    description: ({ platform }) => `Trim size must be one ${platform.name} offers for paperbacks`,
+    category: 'format',
+    severity: 'error',
+    check: ({ platform, trim, unknownTrim, settings }) => {
+      if (unknownTrim) {
+        return {
+          passed: false,
+          message: `✗ Unknown trim size "${settings.pageSize}" - exports fall back to ${trim.name}`,
+          details: ['Choose a trim size in PDF Export']
+        };
+      }
+      const supported = supportsTrimSize(platform, trim.id);
+      return {
+        passed: supported,
+        message: supported
+          ? `✓ ${trim.name} is a supported ${platform.name} trim size`
+          : `✗ ${trim.name} is not available for ${platform.name} paperbacks`,
+        details: supported ? undefined : [
+          `Choose a ${platform.name} trim size in PDF Export`,
+          `Supported trims: ${platform.trimSizes.map(id => formatTrimSize(TRIM_SIZES[id])).join(', ')}`
+        ]
+      };
+    },
+    fix: ({ platform, trim }) => {
+      const id = nearestTrim(platform, trim);
+      return { label: `Switch to ${TRIM_SIZES[id].name}`, exportSettings: { pageSize: id } };
+    }
+  },
+  {
+    id: 'file-format',
+    title: 'File Format Compliance',
+    description: ({ platform }) => platform.files.requiredPDFStandard
+      ? `${platform.name} only accepts ${platform.files.requiredPDFStandard} files`
+      : 'Files must be in acceptable formats (PDF for interior)',
+    category: 'format',
+    severity: 'error',
+    check: ({ platform, settings, typography }) => {
+      const required = platform.files.requiredPDFStandard;
+      const pdfx = settings.colorMode === 'cmyk' && !!settings.pdfx;
+      // PDF/X-1a can only be written when every font is embedded
+      const fontsEmbedded = embedsAllFonts(typography);
+      const passed = (!required || pdfx) && (!(required || pdfx) || fontsEmbedded);
+      return {
+        passed,
+        message: passed
+          ? `✓ App exports ${pdfx ? 'PDF/X-1a:2001' : 'print-ready PDF'} files`
+          : !fontsEmbedded
+            ? `✗ ${required || 'PDF/X-1a'} needs embedded fonts; the built-in PDF fonts are not embedded`
+            : `✗ Export settings produce a standard PDF, not ${required}`,
+        details: [
+          ...(passed || !fontsEmbedded ? [] : ['The print package converts to PDF/X-1a automatically']),
+          ...(fontsEmbedded ? [] : ['Upload a TTF font under Typography so it is embedded in the PDF']),
+          `Interior file: ${platform.files.interiorFile.replace('{isbn}', 'ISBN')}`,
+          `Cover file: ${platform.files.coverFile.replace('{isbn}', 'ISBN')}`,
+          `Maximum file size: ${platform.files.maxFileSizeMB} MB`
+        ]
+      };
+    },
+    fix: () => ({ label: 'Export CMYK PDF/X-1a files', exportSettings: { colorMode: 'cmyk', pdfx: true } })
+  },
+  {
+    id: 'spine-width',
+    title: 'Spine Width Calculation',
+    description: 'Spine width must match page count and paper type',
+    category: 'format',
+    severity: 'info',
+    check: ({ platform, pageCount, paperType }) => ({
+      passed: true,
+      message: `ℹ Spine width: ${calculateSpineWidth(pageCount, paperType, platform.id).toFixed(3)}"`,
+      details: [
+        `Based on ${pageCount} pages of ${PAPER_TYPE_LABELS[paperType].toLowerCase()}`,
+        pageCount >= platform.cover.spineTextMinPages
+          ? 'Book is thick enough for spine text'
+          : `Spine text needs at least ${platform.cover.spineTextMinPages} pages`,
+        'Export the full-wrap cover from PDF Export to match this width'
+      ]
+    })
+  },
+  {
+    id: 'front-matter',
+    title: 'Front Matter',
+    description: 'A title page helps readers and reviewers identify the book',
+    category: 'format',
+    severity: 'info',
+    check: ({ project }) => {
+      const hasTitlePage = !!project.pages?.some(page => page.type === 'title');
+      return {
+        passed: hasTitlePage,
+        message: hasTitlePage ? '✓ Title page included' : 'ℹ Add a title page to the front matter',
+        details: hasTitlePage ? undefined : [
+          'Generate front matter under PDF Export → Front & Back Matter',
+          'Add a dedication or "This book belongs to" page for gift books'
+        ]
+      };
+    },
+    fix: ({ project }) => ({ label: 'Add a title page', project: { pages: applyMatterPages(project, ['title']) } })
+  },
+
+  // Legal Rules
+  {
+    id: 'isbn',
+    title: 'ISBN',
+    description: ({ platform }) => `${platform.name} requires your own ISBN for every print edition`,
+    category: 'legal',
+    severity: 'error',
+    applies: ({ platform }) => platform.files.isbnRequired,
+    check: ({ project }) => {
+      const isbn = project.metadata?.isbn?.replace(/[^0-9X]/gi, '') || '';
+      const valid = isbn.length === 10 || isbn.length === 13;
+      return {
+        passed: valid,
+        message: valid ? `✓ ISBN ${project.metadata?.isbn}` : isbn ? '✗ ISBN should have 10 or 13 digits' : '✗ No ISBN set',
+        details: valid ? undefined : [
+          'Buy an ISBN from your national agency (Bowker in the US)',
+          'Add it to the book details so it appears on the copyright page'
+        ]
+      };
+    }
+  },
+  {
+    id: 'copyright-page',
+    title: 'Copyright Information',
+    description: 'Books should include proper copyright information',
+    category: 'legal',
+    severity: 'warning',
+    check: ({ project }) => {
+      const copyrightPage = project.pages?.find(page => page.type === 'copyright');
+      const text = copyrightPage?.content.text || '';
+      const missing = [
+        !project.metadata?.author && 'Add author information for the copyright notice',
+        !copyrightPage && 'Generate a copyright page under PDF Export → Front & Back Matter',
+        copyrightPage && !text.includes('©') && 'Include copyright notice (© Year Author Name)',
+        copyrightPage && !/all rights reserved/i.test(text) && 'Add "All rights reserved" statement'
+      ].filter((item): item is string => !!item);
+      const passed = missing.length === 0;
+      const details = project.metadata?.isbn ? missing : [...missing, 'Consider ISBN if planning wide distribution'];
+
+      return {
+        passed,
+        message: passed
+          ? '✓ Copyright page included'
+          : copyrightPage ? '⚠ Copyright page is incomplete' : '⚠ No copyright page in the book',
+        details: details.length > 0 ? details : undefined
+      };
+    },
+    // Regenerating rebuilds the notice from the current book details
+    fix: ({ project }) => ({ label: 'Generate the copyright page', project: { pages: applyMatterPages(project, ['copyright'], true) } })
+  },
+  {
+    id: 'keyword-compliance',
+    title: 'Keyword and Category Compliance',
+    description: 'Title and keywords should accurately represent content',
+    category: 'legal',
+    severity: 'info',
+    check: ({ project, platform }) => {
+      const hasTitle = !!project.title;
+      const hasDescription = !!project.description;
+      return {
+        passed: hasTitle && hasDescription,
+        message: hasTitle && hasDescription
+          ? '✓ Title and description available for accurate categorization'
+          : 'ℹ Add detailed title and description',
+        details: [
+          'Use relevant keywords in title',
+          `Choose appropriate ${platform.name} categories`,
+          'Avoid misleading descriptions'
+        ]
+      };
+    }
+  }
+];
+
+// Box the exporter lays a page's content into: the safe area, or the frame's inside
+const getContentBox = (
+  page: PreviewPage,
+  geometry: PageGeometry,
+  context: { frames: ReturnType<typeof resolvePageFrames>; numbered: boolean }
+): ImagePlacement => {
+  const safeArea = {
+    x: geometry.bleed + (isRectoPage(page.pageNumber) ? geometry.margins.inner : geometry.margins.outer),
+    y: geometry.bleed + geometry.margins.top,
+    width: geometry.safeWidth,
+    height: geometry.safeHeight
+  };
+  const frame = getPageFrameLayout(context.frames, page.type, safeArea, context.numbered);
+  return frame ? frame.content : safeArea;
+};
+
+const analyseArtwork = async (
+  pages: PreviewPage[],
+  boxes: ImagePlacement[],
+  geometry: PageGeometry,
+  ageBand: AgeBand,
+  minDPI: number
+): Promise<ArtworkInfo[]> => {
+  const trim = { x: geometry.bleed, y: geometry.bleed, width: geometry.width, height: geometry.height };
+  const results: ArtworkInfo[] = [];
+
+  // One page at a time keeps only one decoded image in memory
+  for (let index = 0; index < pages.length; index++) {
+    const page = pages[index];
+    if (page.type !== 'coloring') continue;
+    const raw: string | undefined = page.content?.content?.imageData;
+    const base = { pageNumber: page.pageNumber, width: null, height: null, area: boxes[index] };
+
+    if (!raw || !toImageSource(raw)) {
+      results.push({ ...base, error: 'No artwork - a placeholder will be printed' });
+      continue;
+    }
+    try {
+      const analysis = await analyzePageImage(raw, { area: boxes[index], trim, ageBand, minDPI });
+      results.push({
+        ...base,
+        width: analysis.vector ? null : analysis.pixelWidth,
+        height: analysis.vector ? null : analysis.pixelHeight,
+        analysis
+      });
+    } catch {
+      results.push({ ...base, error: 'Artwork could not be decoded' });
+    }
+  }
+
+  return results;
+};
+
+// The cover builder crops the front art to fill the front panel out to the bleed
+const analyseCoverArtwork = async (
+  project: Project,
+  platform: PrintPlatformProfile,
+  trim: TrimSize,
+  pageCount: number,
+  ageBand: AgeBand
+): Promise<ArtworkInfo | null> => {
+  const raw = (project.pages.find(p => p.type === 'cover' && p.content.imageData)
+    || project.pages.find(p => p.content.imageData))?.content.imageData;
+  if (!raw || !toImageSource(raw)) return null;
+
+  const layout = calculateCoverLayout({
+    title: project.title,
+    author: project.metadata?.author || '',
+    paperType: project.metadata?.paperType || 'white',
+    pageCount,
+    trimSize: trim.id,
+    platform: platform.id
+  });
+  const area = { x: layout.front.x, y: 0, width: layout.front.width + layout.bleed, height: layout.height };
+  const base = { pageNumber: 0, width: null, height: null, area };
+
+  try {
+    const analysis = await analyzePageImage(raw, { area, fill: true, trim: layout.front, ageBand, minDPI: platform.files.minImageDPI });
+    return {
+      ...base,
+      width: analysis.vector ? null : analysis.pixelWidth,
+      height: analysis.vector ? null : analysis.pixelHeight,
+      analysis
+    };
+  } catch {
+    return { ...base, error: 'Cover artwork could not be decoded' };
+  }
+};
+
+// Gather everything the rules look at: the same pages, geometry and artwork the exporters use
+export const prepareComplianceContext = async (project: Project, settings: ExportSettings): Promise<ComplianceContext> => {
+  const platform = getPrintPlatform(settings.printPlatform);
+  const trim = getTrimSize(settings.pageSize);
+  const pages = arrangeInteriorPages(buildProjectPages(project, DEFAULT_PAGE_SELECTION), {
+    mode: settings.interiorLayout || 'continuous',
+    colorTestBacks: settings.colorTestBacks || false
+  });
+  const geometry = getPlatformGeometry(platform, trim.id, { pageCount: pages.length });
+  const typography = resolveTypography(project.metadata?.typography);
+  const ageBand = resolveAgeBand(project.metadata?.targetAgeGroup);
+
+  const numbering = resolvePageNumbering(project.metadata?.pageNumbering);
+  const labels = buildPageLabels(pages.map(page => page.type), numbering);
+  const frames = resolvePageFrames(project.metadata?.pageFrames);
+  const boxes = pages.map((page, index) => getContentBox(page, geometry, { frames, numbered: !!labels[index]?.printed }));
+
+  // Measure story text exactly as the interior PDF wraps it
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'in' });
+  const measureOverflow = (profile: TypographyProfile): TextFit[] => pages.flatMap((page, index) => {
+    if (page.type !== 'story') return [];
+    const box = boxes[index];
+    const available = box.height - STORY_TEXT_OFFSET - (profile.headingSize / 72) * 1.6;
+    const needed = measureTextBlock(pdf, page.content?.content?.text || '', box.width, profile);
+    return [{ pageNumber: page.pageNumber, overflow: Math.max(0, needed - available) }];
+  });
+  const textFit = measureOverflow(typography);
+
+  let fittingFontSize: number | null = null;
+  if (textFit.some(fit => fit.overflow > 0.01)) {
+    for (let size = typography.fontSize - 0.5; size >= MIN_STORY_FONT_SIZE; size -= 0.5) {
+      if (measureOverflow({ ...typography, fontSize: size }).every(fit => fit.overflow <= 0.01)) {
+        fittingFontSize = size;
+        break;
+      }
+    }
+  }
+
+  return {
+    project,
+    settings,
+    platform,
+    trim,
+    unknownTrim: !isTrimSizeId(settings.pageSize),
+    geometry,
+    pages,
+    pageCount: pages.length,
+    paperType: project.metadata?.paperType || 'white',
+    typography,
+    ageBand,
+    artwork: await analyseArtwork(pages, boxes, geometry, ageBand, platform.files.minImageDPI),
+    coverArtwork: await analyseCoverArtwork(project, platform, trim, getPaddedPageCount(platform, pages.length), ageBand),
+    textFit,
+    fittingFontSize
+  };
+};
+
+export const runComplianceRules = (context: ComplianceContext, rules: ComplianceRule[] = COMPLIANCE_RULES): ComplianceRun => {
+  const fixes: Record<string, ComplianceFix> = {};
+
+  const checks: ComplianceCheck[] = rules
+    .filter(rule => !rule.applies || rule.applies(context))
+    .map(rule => {
+      const outcome = rule.check(context);
+      const fix = outcome.passed ? null : rule.fix?.(context) || null;
+      if (fix) fixes[rule.id] = fix;
+
+      return {
+        ruleId: rule.id,
+        title: rule.title,
+        description: typeof rule.description === 'function' ? rule.description(context) : rule.description,
+        category: rule.category,
+        severity: rule.severity,
+        ...outcome,
+        fixable: !!fix
+      };
+    });
+
+  const passed = checks.filter(check => check.passed).length;
+
+  return {
+    report: {
+      projectId: context.project.id,
+      projectTitle: context.project.title,
+      platform: context.platform.id,
+      trimSize: context.trim.id,
+      pageCount: context.pageCount,
+      checkedAt: new Date().toISOString(),
+      score: checks.length > 0 ? Math.round((passed / checks.length) * 100) : 100,
+      hasIssues: checks.some(check => !check.passed && check.severity !== 'info'),
+      checks
+    },
+    fixes
+  };
+};
+
+export const checkCompliance = async (project: Project, settings: ExportSettings): Promise<ComplianceRun> => {
+  return runComplianceRules(await prepareComplianceContext(project, settings));
+};
+
+// Plain-text version of the report for sharing or filing with a proof
+export const formatComplianceReport = (report: ComplianceResults): string => {
+  const platform = getPrintPlatform(report.platform);
+  const passed = report.checks.filter(check => check.passed).length;
+
+  const lines = [
+    `COMPLIANCE REPORT - ${report.projectTitle}`,
+    '='.repeat(40),
+    `Platform: ${platform.name}`,
+    `Trim size: ${formatTrimSize(getTrimSize(report.trimSize))}`,
+    `Interior pages: ${report.pageCount}`,
+    `Checked: ${new Date(report.checkedAt).toLocaleString()}`,
+    `Score: ${report.score}% (${passed} of ${report.checks.length} checks passed)`,
+    ''
+  ];
+
+  report.checks.forEach(check => {
+    lines.push(`[${check.passed ? 'PASS' : check.severity.toUpperCase()}] ${check.title}`);
+    lines.push(`  ${check.message}`);
+    check.details?.forEach(detail => lines.push(`  - ${detail}`));
+    if (check.pages?.length) lines.push(`  Pages: ${formatPages(check.pages)}`);
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
@@ -0,0 +1,269 @@
+/**
+ * Full-Wrap Cover Builder
+ * Lays out back cover, spine and front cover on a single print-ready sheet
+ * sized from the trim, the interior page count and the paper stock.
+ */
+
+import { PaperType, PrintPlatformId, TypographyProfile } from '../types';
+import { ExportResult } from './advancedPublishing';
+import { colorManagement, PrintColorOptions } from './colorManagement';
+import { loadPageImage, decodeImage, ImagePlacement } from './pageImages';
+import { getPrintPlatform, calculatePlatformSpineWidth } from './printPlatforms';
+import { TrimSizeId, getTrimSize, formatTrimSize } from './trimSizes';
+import { resolveTypography, setPDFFont } from './typography';
+
+export interface CoverOptions {
+  title: string;
+  author: string;
+  subtitle?: string;
+  blurb?: string;
+  coverImage?: string;
+  paperType: PaperType;
+  pageCount: number;
+  trimSize?: TrimSizeId;
+  // Spine formula, bleed and barcode area follow this platform's cover spec
+  platform?: PrintPlatformId;
+  color?: PrintColorOptions;
+  // Cover text uses the interior's typeface at cover sizes
+  typography?: TypographyProfile;
+}
+
+export interface CoverLayout {
+  width: number;
+  height: number;
+  bleed: number;
+  spineWidth: number;
+  spineText: boolean;
+  back: ImagePlacement;
+  spine: ImagePlacement;
+  front: ImagePlacement;
+  barcode: ImagePlacement;
+}
+
+export const PAPER_TYPE_LABELS: Record<PaperType, string> = {
+  white: 'Black & white on white paper',
+  cream: 'Black & white on cream paper',
+  'premium-color': 'Premium color on white paper'
+};
+
+// Text must stay this far inside the trim and spine folds
+const COVER_SAFE_MARGIN = 0.25;
+const SPINE_TEXT_MARGIN = 0.0625;
+
+export const calculateSpineWidth = (pageCount: number, paperType: PaperType, platform?: PrintPlatformId): number => {
+  return calculatePlatformSpineWidth(getPrintPlatform(platform), pageCount, paperType);
+};
+
+export const calculateCoverLayout = (options: CoverOptions): CoverLayout => {
+  const trim = getTrimSize(options.trimSize);
+  const platform = getPrintPlatform(options.platform);
+  const bleed = platform.cover.bleed;
+  const spineWidth = calculatePlatformSpineWidth(platform, options.pageCount, options.paperType);
+
+  const back = { x: bleed, y: bleed, width: trim.width, height: trim.height };
+  const spine = { x: bleed + trim.width, y: bleed, width: spineWidth, height: trim.height };
+  const front = { x: bleed + trim.width + spineWidth, y: bleed, width: trim.width, height: trim.height };
+
+  // The platform prints the barcode in the lower right of the back cover
+  const { width: barcodeWidth, height: barcodeHeight } = platform.cover.barcode;
+  const barcode = {
+    x: back.x + back.width - COVER_SAFE_MARGIN - barcodeWidth,
+    y: back.y + back.height - COVER_SAFE_MARGIN - barcodeHeight,
+    width: barcodeWidth,
+    height: barcodeHeight
+  };
+
+  return {
+    width: trim.width * 2 + spineWidth + bleed * 2,
+    height: trim.height + bleed * 2,
+    bleed,
+    spineWidth,
+    spineText: options.pageCount >= platform.cover.spineTextMinPages,
+    back,
+    spine,
+    front,
+    barcode
+  };
+};
+
+class CoverBuilderService {
+
+  // Generate a single full-wrap cover PDF with bleed
+  async generateCoverPDF(options: CoverOptions): Promise<ExportResult> {
+    try {
+      const layout = calculateCoverLayout(options);
+      const trim = getTrimSize(options.trimSize);
+      const pdf = new (await import('jspdf')).jsPDF({
+        orientation: 'landscape',
+        unit: 'in',
+        format: [layout.width, layout.height],
+        putOnlyUsedFonts: true
+      });
+      colorManagement.prepareDocument(pdf, options.color);
+
+      pdf.setProperties({
+        title: `${options.title} - Cover`,
+        author: options.author,
+        creator: 'ColorBook Engine Cover Builder'
+      });
+
+      pdf.setFillColor(255, 255, 255);
+      pdf.rect(0, 0, layout.width, layout.height, 'F');
+
+      let imageIssue: string | undefined;
+      if (options.coverImage) {
+        try {
+          await this.addFrontArtwork(pdf, options.coverImage, layout, options.color);
+        } catch (error) {
+          imageIssue = error instanceof Error ? error.message : 'Cover image could not be embedded';
+        }
+      } else {
+        imageIssue = 'No cover image';
+      }
+
+      this.addFrontText(pdf, options, layout);
+      this.addBackCover(pdf, options, layout);
+      if (layout.spineText) {
+        this.addSpineText(pdf, options, layout);
+      }
+
+      const blob = colorManagement.output(pdf, options.color, layout.bleed);
+
+      return {
+        success: true,
+        blob,
+        downloadUrl: URL.createObjectURL(blob),
+        metadata: {
+          format: 'PDF-Cover',
+          size: blob.size,
+          trimSize: formatTrimSize(trim),
+          paperType: options.paperType,
+          platform: getPrintPlatform(options.platform).name,
+          pageCount: options.pageCount,
+          spineWidth: Number(layout.spineWidth.toFixed(4)),
+          coverWidth: Number(layout.width.toFixed(4)),
+          coverHeight: Number(layout.height.toFixed(4)),
+          bleed: layout.bleed,
+          spineText: layout.spineText,
+          colorMode: colorManagement.resolveColorMode(options.color),
+          pdfx: !!options.color?.pdfx,
+          imageIssue
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Cover PDF generation failed'
+      };
+    }
+  }
+
+  // Front artwork fills the front panel through the bleed, cropped to fit
+  private async addFrontArtwork(pdf: any, coverImage: string, layout: CoverLayout, color?: PrintColorOptions) {
+    const image = await loadPageImage(coverImage);
+    const element = await decodeImage(image.dataUrl);
+
+    const panelWidth = layout.front.width + layout.bleed;
+    const panelHeight = layout.height;
+    const scale = Math.max(panelWidth / image.width, panelHeight / image.height);
+    const cropWidth = panelWidth / scale;
+    const cropHeight = panelHeight / scale;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(cropWidth);
+    canvas.height = Math.round(cropHeight);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    ctx.drawImage(
+      element,
+      (image.width - cropWidth) / 2,
+      (image.height - cropHeight) / 2,
+      cropWidth,
+      cropHeight,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    );
+
+    await colorManagement.addImage(
+      pdf,
+      canvas.toDataURL('image/jpeg', 0.95),
+      'JPEG',
+      layout.front.x,
+      0,
+      panelWidth,
+      panelHeight,
+      color
+    );
+  }
+
+  private addFrontText(pdf: any, options: CoverOptions, layout: CoverLayout) {
+    const typography = resolveTypography(options.typography);
+    const { front } = layout;
+    const textWidth = front.width - COVER_SAFE_MARGIN * 2;
+    const centerX = front.x + front.width / 2;
+
+    pdf.setTextColor(0, 0, 0);
+    setPDFFont(pdf, typography, 'bold');
+    pdf.setFontSize(32);
+    const titleLines = pdf.splitTextToSize(options.title, textWidth);
+    pdf.text(titleLines, centerX, front.y + COVER_SAFE_MARGIN + 0.75, { align: 'center' });
+
+    if (options.subtitle) {
+      setPDFFont(pdf, typography, 'normal');
+      pdf.setFontSize(16);
+      const subtitleY = front.y + COVER_SAFE_MARGIN + 0.85 + titleLines.length * 0.45;
+      pdf.text(pdf.splitTextToSize(options.subtitle, textWidth), centerX, subtitleY, { align: 'center' });
+    }
+
+    setPDFFont(pdf, typography, 'normal');
+    pdf.setFontSize(18);
+    pdf.text(options.author, centerX, front.y + front.height - COVER_SAFE_MARGIN - 0.25, { align: 'center' });
+  }
+
+  private addBackCover(pdf: any, options: CoverOptions, layout: CoverLayout) {
+    const typography = resolveTypography(options.typography);
+    if (!options.blurb) return;
+
+    const { back, barcode } = layout;
+    const x = back.x + COVER_SAFE_MARGIN + 0.25;
+    const width = back.width - (COVER_SAFE_MARGIN + 0.25) * 2;
+
+    pdf.setTextColor(0, 0, 0);
+    setPDFFont(pdf, typography, 'normal');
+    pdf.setFontSize(12);
+
+    // Keep the blurb clear of the barcode box
+    const top = back.y + COVER_SAFE_MARGIN + 0.5;
+    const lineHeight = (12 / 72) * pdf.getLineHeightFactor();
+    const maxLines = Math.floor((barcode.y - 0.25 - top) / lineHeight);
+    const lines = pdf.splitTextToSize(options.blurb, width).slice(0, Math.max(0, maxLines));
+    pdf.text(lines, x, top);
+  }
+
+  private addSpineText(pdf: any, options: CoverOptions, layout: CoverLayout) {
+    const typography = resolveTypography(options.typography);
+    const { spine } = layout;
+    const available = spine.width - SPINE_TEXT_MARGIN * 2;
+    // Convert the usable spine width to a font size, leaving room for ascenders
+    const fontSize = Math.min(14, available * 72 * 0.7);
+    const centerX = spine.x + spine.width / 2;
+
+    pdf.setTextColor(0, 0, 0);
+    setPDFFont(pdf, typography, 'bold');
+    pdf.setFontSize(fontSize);
+
+    // Spine text reads top-to-bottom when the book lies face up
+    const text = `${options.title}  -  ${options.author}`;
+    const textLength = Math.min(pdf.getTextWidth(text), spine.height - COVER_SAFE_MARGIN * 2);
+    pdf.text(text, centerX - (fontSize / 72) * 0.35, spine.y + (spine.height - textLength) / 2, {
+      angle: -90,
+      maxWidth: spine.height - COVER_SAFE_MARGIN * 2
+    });
+  }
+}
+
+export const coverBuilder = new CoverBuilderService();
+export default coverBuilder;
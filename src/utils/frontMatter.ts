@@ -0,0 +1,139 @@
+/**
+ * Front & Back Matter Generator
+ * Builds title, copyright, dedication, ownership, about-the-author and also-by
+ * pages from project metadata as ordinary pages the author can edit.
+ */
+
+import { Project, Page, PageContent, MatterPageType } from '../types';
+import { generateId } from './helpers';
+
+export const FRONT_MATTER_TYPES: MatterPageType[] = ['title', 'copyright', 'dedication', 'belongs-to'];
+export const BACK_MATTER_TYPES: MatterPageType[] = ['about-author', 'also-by'];
+
+export const MATTER_PAGE_LABELS: Record<MatterPageType, string> = {
+  title: 'Title Page',
+  copyright: 'Copyright Page',
+  dedication: 'Dedication',
+  'belongs-to': 'This Book Belongs To',
+  'about-author': 'About the Author',
+  'also-by': 'Also By'
+};
+
+export const DEFAULT_AI_DISCLOSURE =
+  'Portions of the text and illustrations in this book were created with the assistance of AI tools and were reviewed and edited by the author.';
+
+export const isMatterPageType = (type: string): type is MatterPageType => {
+  return (FRONT_MATTER_TYPES as string[]).includes(type) || (BACK_MATTER_TYPES as string[]).includes(type);
+};
+
+export const isFrontMatterType = (type: string): boolean => {
+  return (FRONT_MATTER_TYPES as string[]).includes(type);
+};
+
+// Pages worth generating by default; optional pages need metadata to say something
+export const getSuggestedMatterTypes = (project: Project): MatterPageType[] => {
+  const metadata = project.metadata || {};
+  const types: MatterPageType[] = ['title', 'copyright'];
+
+  if (metadata.dedication?.trim()) types.push('dedication');
+  types.push('belongs-to');
+  if (metadata.aboutAuthor?.trim()) types.push('about-author');
+  if (metadata.alsoBy?.some(title => title.trim())) types.push('also-by');
+
+  return types;
+};
+
+export const buildCopyrightText = (project: Project): string => {
+  const metadata = project.metadata || {};
+  const author = metadata.author || 'the author';
+  const year = metadata.publicationYear || new Date().getFullYear();
+  const disclosure = metadata.aiDisclosure ?? DEFAULT_AI_DISCLOSURE;
+
+  const blocks = [
+    `Copyright © ${year} ${author}. All rights reserved.`,
+    'No part of this publication may be reproduced, distributed, or transmitted in any form or by any means, including photocopying, recording, or other electronic or mechanical methods, without the prior written permission of the publisher.',
+    [
+      metadata.isbn ? `ISBN: ${metadata.isbn}` : '',
+      metadata.edition || '',
+      metadata.publisher ? `Published by ${metadata.publisher}` : ''
+    ].filter(Boolean).join('\n'),
+    disclosure.trim()
+  ];
+
+  return blocks.filter(Boolean).join('\n\n');
+};
+
+export const buildMatterContent = (project: Project, type: MatterPageType): PageContent => {
+  const metadata = project.metadata || {};
+  const author = metadata.author || 'Unknown Author';
+
+  switch (type) {
+    case 'title':
+      return {
+        heading: project.title,
+        text: [metadata.subtitle, `by ${author}`, metadata.publisher].filter(Boolean).join('\n\n')
+      };
+    case 'copyright':
+      return { heading: 'Copyright', text: buildCopyrightText(project) };
+    case 'dedication':
+      return { heading: '', text: metadata.dedication?.trim() || 'For everyone who loves to color.' };
+    case 'belongs-to':
+      return { heading: 'This Book Belongs To', text: '' };
+    case 'about-author':
+      return {
+        heading: 'About the Author',
+        text: metadata.aboutAuthor?.trim() || `${author} is the author of ${project.title}.`
+      };
+    case 'also-by':
+      return {
+        heading: `Also by ${author}`,
+        text: (metadata.alsoBy || []).map(title => title.trim()).filter(Boolean).join('\n')
+      };
+  }
+};
+
+export const createMatterPage = (project: Project, type: MatterPageType): Page => {
+  const now = new Date().toISOString();
+  return {
+    id: generateId(),
+    type,
+    pageNumber: 0,
+    content: buildMatterContent(project, type),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Insert the requested matter pages in reading order around the body pages.
+// Existing matter pages are kept as edited unless regenerate is set.
+export const applyMatterPages = (
+  project: Project,
+  types: MatterPageType[],
+  regenerate = false
+): Page[] => {
+  const pages = project.pages || [];
+  const existing = new Map<MatterPageType, Page>();
+  pages.forEach(page => {
+    if (isMatterPageType(page.type) && !existing.has(page.type)) existing.set(page.type, page);
+  });
+
+  const resolve = (type: MatterPageType): Page | null => {
+    const current = existing.get(type);
+    if (!types.includes(type)) return current || null;
+    if (current && !regenerate) return current;
+    return current
+      ? { ...current, content: buildMatterContent(project, type), updatedAt: new Date().toISOString() }
+      : createMatterPage(project, type);
+  };
+
+  const front = FRONT_MATTER_TYPES.map(resolve).filter((page): page is Page => page !== null);
+  const back = BACK_MATTER_TYPES.map(resolve).filter((page): page is Page => page !== null);
+  const body = pages.filter(page => !isMatterPageType(page.type));
+
+  // Matter pages are numbered within their own section; body numbering is untouched
+  return [
+    ...front.map((page, index) => ({ ...page, pageNumber: index + 1 })),
+    ...body,
+    ...back.map((page, index) => ({ ...page, pageNumber: index + 1 }))
+  ];
+};
@@ -0,0 +1,360 @@
+/**
+ * Line Art Analysis
+ * Measures decoded coloring-page pixels the way a printer and a child would
+ * meet them: effective DPI at the chosen trim, grey or colour fills where pure
+ * line art is expected, stroke thickness, closed regions too small to color,
+ * and ink running off the artwork's edges or past the trim into the bleed.
+ */
+
+import { ImagePixels, ImagePlacement, fitWithin, fillWithin, getImageMimeType, loadPageImage, readImagePixels, resolveImageSource, decodeImage } from './pageImages';
+
+export type AgeBand = 'toddler' | 'kids' | 'tweens' | 'adult';
+
+export interface AgeBandLimits {
+  // Smallest closed region a child in this band can comfortably color, in square inches
+  minRegionArea: number;
+  // Thinnest printed outline, in points
+  minLineWidth: number;
+}
+
+export interface ImageAnalysisOptions {
+  // Box the exporter fits the image into, in page inches from the bleed corner
+  area: ImagePlacement;
+  // Full-bleed art (the front cover) is scaled to cover the area and cropped instead
+  fill?: boolean;
+  // Trim box in the same coordinates; ink beyond it is cut off by the printer
+  trim: ImagePlacement;
+  ageBand: AgeBand;
+  minDPI?: number;
+}
+
+export interface LineArtAnalysis {
+  pixelWidth: number;
+  pixelHeight: number;
+  vector: boolean;
+  // Pixels per printed inch at the placed size; null for vector art
+  effectiveDPI: number | null;
+  // Share of the image that is grey or coloured away from the outlines
+  grayRatio: number;
+  colorRatio: number;
+  hasGradients: boolean;
+  hasColor: boolean;
+  // Outline thickness in points; null when there is no ink at all
+  lineWidth: { median: number; thinnest: number } | null;
+  thinLines: boolean;
+  regions: { total: number; tooSmall: number; smallestArea: number | null };
+  // Sides where ink touches the edge of the image, i.e. the art looks cropped
+  edgeContact: Array<'top' | 'right' | 'bottom' | 'left'>;
+  // Ink lands outside the trim once the art is placed
+  intoBleed: boolean;
+  score: number;
+  issues: string[];
+  suggestions: string[];
+}
+
+export const AGE_BAND_LABELS: Record<AgeBand, string> = {
+  toddler: 'Ages 2-5',
+  kids: 'Ages 6-9',
+  tweens: 'Ages 10-12',
+  adult: 'Teens & adults'
+};
+
+export const AGE_BAND_LIMITS: Record<AgeBand, AgeBandLimits> = {
+  toddler: { minRegionArea: 0.25, minLineWidth: 2 },
+  kids: { minRegionArea: 0.08, minLineWidth: 1 },
+  tweens: { minRegionArea: 0.03, minLineWidth: 0.75 },
+  adult: { minRegionArea: 0.01, minLineWidth: 0.5 }
+};
+
+// Analysis runs on a scaled copy; this keeps a full page under a few megapixels
+const ANALYSIS_MAX_DIMENSION = 1600;
+// Vector art is rasterised at this resolution for analysis
+const VECTOR_ANALYSIS_DPI = 200;
+
+// Luminance and saturation thresholds on 0-255 channels
+const INK_LUMINANCE = 128;
+const PAPER_LUMINANCE = 230;
+const COLOR_SATURATION = 48;
+// Grey within this many pixels of an outline is anti-aliasing, not a fill
+const ANTI_ALIAS_DISTANCE = 2.5;
+// Share of the image before fills or colour count as a problem
+const GRAY_RATIO_LIMIT = 0.01;
+const COLOR_RATIO_LIMIT = 0.005;
+// Ignore specks smaller than this, in analysis pixels
+const MIN_REGION_PIXELS = 4;
+// Share of an edge covered by ink before the art counts as cropped
+const EDGE_CONTACT_RATIO = 0.02;
+
+// "4-8", "ages 3 to 5", "adult" or "adults" from story generation
+export const resolveAgeBand = (targetAgeGroup?: string): AgeBand => {
+  const value = (targetAgeGroup || '').toLowerCase();
+  if (/adult|teen/.test(value)) return 'adult';
+  const ages = value.match(/\d+/g)?.map(Number);
+  if (!ages || ages.length === 0) return 'kids';
+
+  const oldest = Math.max(...ages);
+  if (oldest <= 5) return 'toddler';
+  if (oldest <= 9) return 'kids';
+  if (oldest <= 12) return 'tweens';
+  return 'adult';
+};
+
+// Two-pass 3-4 chamfer distance to the nearest pixel outside the mask, in pixels.
+// With openEdges, whatever lies beyond the image counts as outside the mask
+const chamferDistance = (mask: Uint8Array, width: number, height: number, openEdges: boolean): Float32Array => {
+  const far = 1e6;
+  const dist = new Float32Array(width * height);
+  for (let i = 0; i < dist.length; i++) dist[i] = mask[i] ? far : 0;
+
+  const relax = (i: number, j: number, cost: number) => {
+    if (dist[j] + cost < dist[i]) dist[i] = dist[j] + cost;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!dist[i]) continue;
+      if (openEdges && (x === 0 || y === 0)) dist[i] = Math.min(dist[i], 3);
+      if (x > 0) relax(i, i - 1, 3);
+      if (y > 0) {
+        relax(i, i - width, 3);
+        if (x > 0) relax(i, i - width - 1, 4);
+        if (x < width - 1) relax(i, i - width + 1, 4);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (!dist[i]) continue;
+      if (openEdges && (x === width - 1 || y === height - 1)) dist[i] = Math.min(dist[i], 3);
+      if (x < width - 1) relax(i, i + 1, 3);
+      if (y < height - 1) {
+        relax(i, i + width, 3);
+        if (x < width - 1) relax(i, i + width + 1, 4);
+        if (x > 0) relax(i, i + width - 1, 4);
+      }
+    }
+  }
+
+  for (let i = 0; i < dist.length; i++) dist[i] /= 3;
+  return dist;
+};
+
+const percentile = (values: number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Sizes of the closed non-ink regions; anything touching the image edge is background
+const measureRegions = (ink: Uint8Array, width: number, height: number): number[] => {
+  const labels = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  const sizes: number[] = [];
+
+  for (let start = 0; start < ink.length; start++) {
+    if (ink[start] || labels[start]) continue;
+
+    let top = 0;
+    let size = 0;
+    let open = false;
+    stack[top++] = start;
+    labels[start] = 1;
+
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const y = (i - x) / width;
+      size++;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) open = true;
+
+      const visit = (j: number) => {
+        if (!ink[j] && !labels[j]) {
+          labels[j] = 1;
+          stack[top++] = j;
+        }
+      };
+      if (x > 0) visit(i - 1);
+      if (x < width - 1) visit(i + 1);
+      if (y > 0) visit(i - width);
+      if (y < height - 1) visit(i + width);
+    }
+
+    if (!open && size >= MIN_REGION_PIXELS) sizes.push(size);
+  }
+
+  return sizes;
+};
+
+// Pure analysis of decoded pixels; source gives the full-resolution size
+export const analyzeLineArt = (
+  pixels: ImagePixels,
+  source: { width: number; height: number; vector: boolean },
+  options: ImageAnalysisOptions
+): LineArtAnalysis => {
+  const { width, height, data } = pixels;
+  const total = width * height;
+  const limits = AGE_BAND_LIMITS[options.ageBand];
+  const minDPI = options.minDPI || 300;
+
+  const placement = (options.fill ? fillWithin : fitWithin)(source.width, source.height, options.area);
+  const effectiveDPI = source.vector ? null : Math.floor(source.width / placement.width);
+  // Analysis pixels per printed inch
+  const ppi = width / placement.width;
+
+  const ink = new Uint8Array(total);
+  const gray = new Uint8Array(total);
+  let colored = 0;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let i = 0; i < total; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    const saturation = Math.max(r, g, b) - Math.min(r, g, b);
+
+    if (saturation > COLOR_SATURATION) colored++;
+    if (luminance < INK_LUMINANCE) {
+      ink[i] = 1;
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    } else if (luminance < PAPER_LUMINANCE) {
+      gray[i] = 1;
+    }
+  }
+
+  // Grey away from the outlines is shading or a fill
+  const paper = new Uint8Array(total);
+  for (let i = 0; i < total; i++) paper[i] = ink[i] ? 0 : 1;
+  const toInk = chamferDistance(paper, width, height, false);
+  let fills = 0;
+  for (let i = 0; i < total; i++) {
+    if (gray[i] && toInk[i] > ANTI_ALIAS_DISTANCE) fills++;
+  }
+
+  // Stroke width from the distance transform along the middle of each line
+  // Paper continues past the image edge, so lines cut off there still get a width
+  const toPaper = chamferDistance(ink, width, height, true);
+  const widths: number[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const d = toPaper[i];
+      if (!d) continue;
+      if (d >= toPaper[i - 1] && d >= toPaper[i + 1] && d >= toPaper[i - width] && d >= toPaper[i + width]) {
+        widths.push(Math.max(1, 2 * d - 1));
+      }
+    }
+  }
+  const toPoints = (px: number) => Number(((px / ppi) * 72).toFixed(2));
+  const lineWidth = widths.length > 0
+    ? { median: toPoints(percentile(widths, 0.5)), thinnest: toPoints(percentile(widths, 0.1)) }
+    : null;
+
+  const regionAreas = measureRegions(ink, width, height).map(size => size / (ppi * ppi));
+  const tooSmall = regionAreas.filter(area => area < limits.minRegionArea).length;
+
+  const edgeContact: LineArtAnalysis['edgeContact'] = [];
+  const edgeShare = (indices: (k: number) => number, length: number) => {
+    let count = 0;
+    for (let k = 0; k < length; k++) count += ink[indices(k)];
+    return count / length;
+  };
+  if (edgeShare(k => k, width) > EDGE_CONTACT_RATIO) edgeContact.push('top');
+  if (edgeShare(k => k * width + width - 1, height) > EDGE_CONTACT_RATIO) edgeContact.push('right');
+  if (edgeShare(k => (height - 1) * width + k, width) > EDGE_CONTACT_RATIO) edgeContact.push('bottom');
+  if (edgeShare(k => k * width, height) > EDGE_CONTACT_RATIO) edgeContact.push('left');
+
+  // Bounding box of the ink on the page, against the trim
+  const intoBleed = maxX >= 0 && (
+    placement.x + minX / ppi < options.trim.x ||
+    placement.y + minY / ppi < options.trim.y ||
+    placement.x + (maxX + 1) / ppi > options.trim.x + options.trim.width ||
+    placement.y + (maxY + 1) / ppi > options.trim.y + options.trim.height
+  );
+
+  const grayRatio = fills / total;
+  const colorRatio = colored / total;
+  const analysis: LineArtAnalysis = {
+    pixelWidth: source.width,
+    pixelHeight: source.height,
+    vector: source.vector,
+    effectiveDPI,
+    grayRatio: Number(grayRatio.toFixed(4)),
+    colorRatio: Number(colorRatio.toFixed(4)),
+    hasGradients: grayRatio > GRAY_RATIO_LIMIT,
+    hasColor: colorRatio > COLOR_RATIO_LIMIT,
+    lineWidth,
+    thinLines: !!lineWidth && lineWidth.thinnest < limits.minLineWidth,
+    regions: {
+      total: regionAreas.length,
+      tooSmall,
+      smallestArea: regionAreas.length > 0 ? Number(Math.min(...regionAreas).toFixed(3)) : null
+    },
+    edgeContact,
+    intoBleed,
+    score: 100,
+    issues: [],
+    suggestions: []
+  };
+
+  const flag = (penalty: number, issue: string, suggestion: string) => {
+    analysis.score -= penalty;
+    analysis.issues.push(issue);
+    if (!analysis.suggestions.includes(suggestion)) analysis.suggestions.push(suggestion);
+  };
+
+  if (effectiveDPI !== null && effectiveDPI < minDPI) {
+    flag(20, `Prints at ${effectiveDPI} DPI (needs ${minDPI})`, 'Regenerate at a higher resolution or upscale the image');
+  }
+  if (!lineWidth) {
+    flag(40, 'No line art found', 'Check the image is black outlines on white');
+  }
+  if (analysis.hasGradients) {
+    flag(15, `${(grayRatio * 100).toFixed(1)}% grey shading or fills`, 'Ask for "no shading, white background" or threshold the image to pure black and white');
+  }
+  if (analysis.hasColor) {
+    flag(15, `${(colorRatio * 100).toFixed(1)}% coloured pixels`, 'Ask for "black and white line art" in the prompt');
+  }
+  if (analysis.thinLines && lineWidth) {
+    flag(10, `Thinnest outlines are ${lineWidth.thinnest}pt (${AGE_BAND_LABELS[options.ageBand]} need ${limits.minLineWidth}pt)`, 'Thicken outline strokes');
+  }
+  if (tooSmall > 0) {
+    flag(10, `${tooSmall} of ${regionAreas.length} areas are too small to color for ${AGE_BAND_LABELS[options.ageBand].toLowerCase()}`, 'Simplify detail or ask for larger shapes');
+  }
+  if (edgeContact.length > 0) {
+    flag(10, `Artwork is cut off at the ${edgeContact.join(', ')} edge`, 'Ask for the whole subject with a white border around it');
+  }
+  if (intoBleed) {
+    flag(20, 'Line art runs into the bleed and will be trimmed', 'Keep outlines inside the safe area');
+  }
+
+  analysis.score = Math.max(0, analysis.score);
+  return analysis;
+};
+
+// Decode page artwork (raster, base64 or SVG) and analyse it at the placed size
+export const analyzePageImage = async (raw: string, options: ImageAnalysisOptions): Promise<LineArtAnalysis> => {
+  // Stored artwork is resolved to an object URL first, which also tells us whether it is vector
+  const src = await resolveImageSource(raw);
+  if (!src) throw new Error('No image data');
+
+  if (getImageMimeType(src) === 'image/svg+xml') {
+    const rasterWidth = Math.min(ANALYSIS_MAX_DIMENSION, Math.round(options.area.width * VECTOR_ANALYSIS_DPI));
+    const raster = await loadPageImage(raw, { rasterWidth });
+    const pixels = await readImagePixels(raster.dataUrl, ANALYSIS_MAX_DIMENSION);
+    return analyzeLineArt(pixels, { width: raster.width, height: raster.height, vector: true }, options);
+  }
+
+  const image = await decodeImage(src);
+  const pixels = await readImagePixels(src, ANALYSIS_MAX_DIMENSION);
+  return analyzeLineArt(pixels, { width: image.naturalWidth, height: image.naturalHeight, vector: false }, options);
+};
@@ -0,0 +1,177 @@
+/**
+ * Print Imposition
+ * Arranges interior pages onto printer sheets: saddle-stitch booklets (folded
+ * and stapled down the middle) and 2-up / 4-up sheets that are cut apart.
+ */
+
+import { ImpositionMode, SheetSizeId } from '../types';
+import { PreviewPage } from './interiorLayout';
+
+export interface SheetSize {
+  id: SheetSizeId;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface ImposedSlot {
+  page: PreviewPage | null;
+  x: number;
+  y: number;
+  // Placed trim size on the sheet, after scaling
+  width: number;
+  height: number;
+  scale: number;
+}
+
+export interface ImposedSheet {
+  width: number;
+  height: number;
+  side: 'front' | 'back' | 'single';
+  slots: ImposedSlot[];
+  // x position of the booklet fold
+  foldX?: number;
+}
+
+interface TrimBox {
+  width: number;
+  height: number;
+}
+
+export const SHEET_SIZES: Record<SheetSizeId, SheetSize> = {
+  letter: { id: 'letter', name: 'US Letter (8.5" x 11")', width: 8.5, height: 11 },
+  a4: { id: 'a4', name: 'A4 (8.27" x 11.69")', width: 8.27, height: 11.69 }
+};
+
+export const IMPOSITION_LABELS: Record<ImpositionMode, string> = {
+  none: 'None (one page per sheet)',
+  'saddle-stitch': 'Saddle-stitch booklet',
+  '2-up': '2-up sheets',
+  '4-up': '4-up sheets'
+};
+
+// Most home printers can't print closer than this to the paper edge
+export const SHEET_MARGIN = 0.25;
+
+// Staples stop holding comfortably beyond this many pages
+export const SADDLE_STITCH_MAX_PAGES = 64;
+
+const blankPage = (pageNumber: number): PreviewPage => ({ type: 'blank', pageNumber });
+
+// Booklets need whole sheets: four pages each
+export const padToMultiple = (pages: PreviewPage[], multiple: number): PreviewPage[] => {
+  const padded = [...pages];
+  while (padded.length % multiple !== 0) {
+    padded.push(blankPage(padded.length + 1));
+  }
+  return padded;
+};
+
+// Reader order to sheet order: the outer sheet carries the first and last pages
+export const saddleStitchOrder = (pageCount: number): Array<[number, number]> => {
+  const sides: Array<[number, number]> = [];
+  for (let sheet = 0; sheet < pageCount / 4; sheet++) {
+    sides.push([pageCount - 1 - sheet * 2, sheet * 2]);
+    sides.push([sheet * 2 + 1, pageCount - 2 - sheet * 2]);
+  }
+  return sides;
+};
+
+export const countImposedSheets = (pageCount: number, mode: ImpositionMode): number => {
+  switch (mode) {
+    case 'saddle-stitch':
+      return Math.ceil(pageCount / 4);
+    case '2-up':
+      return Math.ceil(pageCount / 2);
+    case '4-up':
+      return Math.ceil(pageCount / 4);
+    default:
+      return pageCount;
+  }
+};
+
+// Uniform scale so a trim-size page fits a cell without enlarging it
+const fitScale = (trim: TrimBox, cellWidth: number, cellHeight: number): number => {
+  return Math.min(1, cellWidth / trim.width, cellHeight / trim.height);
+};
+
+const imposeBooklet = (pages: PreviewPage[], trim: TrimBox, sheet: SheetSize): ImposedSheet[] => {
+  const padded = padToMultiple(pages, 4);
+  const width = sheet.height;
+  const height = sheet.width;
+  const scale = fitScale(trim, (width - SHEET_MARGIN * 2) / 2, height - SHEET_MARGIN * 2);
+  const pageWidth = trim.width * scale;
+  const pageHeight = trim.height * scale;
+  const foldX = width / 2;
+  const y = (height - pageHeight) / 2;
+
+  // Both pages butt against the fold so the spread lines up when folded
+  return saddleStitchOrder(padded.length).map(([left, right], index) => ({
+    width,
+    height,
+    side: index % 2 === 0 ? 'front' : 'back',
+    foldX,
+    slots: [
+      { page: padded[left], x: foldX - pageWidth, y, width: pageWidth, height: pageHeight, scale },
+      { page: padded[right], x: foldX, y, width: pageWidth, height: pageHeight, scale }
+    ]
+  }));
+};
+
+const imposeGrid = (
+  pages: PreviewPage[],
+  trim: TrimBox,
+  sheet: SheetSize,
+  columns: number,
+  rows: number,
+  landscape: boolean
+): ImposedSheet[] => {
+  const width = landscape ? sheet.height : sheet.width;
+  const height = landscape ? sheet.width : sheet.height;
+  const cellWidth = (width - SHEET_MARGIN * 2) / columns;
+  const cellHeight = (height - SHEET_MARGIN * 2) / rows;
+  const scale = fitScale(trim, cellWidth, cellHeight);
+  const pageWidth = trim.width * scale;
+  const pageHeight = trim.height * scale;
+  const perSheet = columns * rows;
+  const sheets: ImposedSheet[] = [];
+
+  for (let start = 0; start < pages.length; start += perSheet) {
+    const slots: ImposedSlot[] = [];
+    for (let cell = 0; cell < perSheet; cell++) {
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      slots.push({
+        page: pages[start + cell] || null,
+        x: SHEET_MARGIN + column * cellWidth + (cellWidth - pageWidth) / 2,
+        y: SHEET_MARGIN + row * cellHeight + (cellHeight - pageHeight) / 2,
+        width: pageWidth,
+        height: pageHeight,
+        scale
+      });
+    }
+    sheets.push({ width, height, side: 'single', slots });
+  }
+
+  return sheets;
+};
+
+export const imposePages = (
+  pages: PreviewPage[],
+  trim: TrimBox,
+  mode: ImpositionMode,
+  sheetId: SheetSizeId = 'letter'
+): ImposedSheet[] => {
+  const sheet = SHEET_SIZES[sheetId] || SHEET_SIZES.letter;
+
+  switch (mode) {
+    case 'saddle-stitch':
+      return imposeBooklet(pages, trim, sheet);
+    case '2-up':
+      return imposeGrid(pages, trim, sheet, 2, 1, true);
+    case '4-up':
+      return imposeGrid(pages, trim, sheet, 2, 2, false);
+    default:
+      return [];
+  }
+};
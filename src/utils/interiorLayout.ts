@@ -0,0 +1,171 @@
+/**
+ * Interior Layout Engine
+ * Turns a project into the ordered list of physical interior pages, inserting
+ * blank pages where the chosen layout mode needs them.
+ */
+
+import { Project, InteriorLayoutMode, MatterPageType } from '../types';
+import { isRectoPage } from './trimSizes';
+import { isMatterPageType, createMatterPage } from './frontMatter';
+import { resolvePageNumbering, insertContentsPage, ContentsSourcePage } from './pageNumbering';
+
+export type PreviewPageType = 'cover' | 'story' | 'coloring' | 'back' | 'blank' | 'contents' | MatterPageType;
+
+export interface PreviewPage {
+  type: PreviewPageType;
+  content?: any;
+  pageNumber: number;
+}
+
+export type LayoutPage = Omit<PreviewPage, 'pageNumber'>;
+
+export interface InteriorLayoutOptions {
+  // continuous: pages follow each other with no padding
+  // single-sided: every coloring page sits on a right-hand page with a blank back
+  // spreads: each story page faces its illustration (story left, coloring right)
+  mode: InteriorLayoutMode;
+  // Print a "test your colors" swatch on the blank back of each coloring page
+  colorTestBacks?: boolean;
+}
+
+// A two-page opening; the first page of a book sits alone on the right
+export interface PageSpread {
+  left: PreviewPage | null;
+  right: PreviewPage | null;
+}
+
+export interface PageSelection {
+  includeStoryPages: boolean;
+  includeColoringPages: boolean;
+  includeCover: boolean;
+  includeBackMatter: boolean;
+}
+
+export const INTERIOR_LAYOUT_LABELS: Record<InteriorLayoutMode, string> = {
+  continuous: 'Continuous',
+  'single-sided': 'Single-sided coloring (blank backs)',
+  spreads: 'Facing spreads (story left, coloring right)'
+};
+
+export const DEFAULT_PAGE_SELECTION: PageSelection = {
+  includeStoryPages: true,
+  includeColoringPages: true,
+  includeCover: false,
+  includeBackMatter: false
+};
+
+// Logical page sequence for a project before layout padding is applied
+export const buildProjectPages = (project: Project, selection: PageSelection): LayoutPage[] => {
+  const pages: LayoutPage[] = [];
+
+  if (selection.includeCover) {
+    pages.push({ type: 'cover', content: { title: project.title, author: project.metadata?.author } });
+  }
+
+  // Fall back to a generated copyright page when the project has none of its own
+  const hasCopyright = (project.pages || []).some(page => page.type === 'copyright');
+  if (selection.includeBackMatter && !hasCopyright) {
+    pages.push({ type: 'copyright', content: createMatterPage(project, 'copyright') });
+  }
+
+  (project.pages || []).forEach((storyPage) => {
+    if (isMatterPageType(storyPage.type)) {
+      pages.push({ type: storyPage.type, content: storyPage });
+      return;
+    }
+    if (selection.includeStoryPages) {
+      pages.push({ type: 'story', content: storyPage });
+    }
+    if (selection.includeColoringPages) {
+      pages.push({ type: 'coloring', content: storyPage });
+    }
+  });
+
+  if (selection.includeBackMatter) {
+    pages.push({ type: 'back', content: { title: 'Notes' } });
+  }
+
+  // The contents page is generated at render time from the arranged pages
+  if (resolvePageNumbering(project.metadata?.pageNumbering).tableOfContents !== 'none') {
+    return insertContentsPage(pages, { type: 'contents' });
+  }
+
+  return pages;
+};
+
+// Contents titles match the headings printed on each page
+export const toContentsSource = (page: PreviewPage): ContentsSourcePage => ({
+  type: page.type,
+  heading: page.type === 'story'
+    ? `Chapter ${page.content?.pageNumber || page.pageNumber}`
+    : page.content?.content?.heading
+});
+
+const blankPage = (testPattern = false): LayoutPage => ({
+  type: 'blank',
+  content: testPattern ? { testPattern: true } : undefined
+});
+
+// Apply the layout mode and assign physical page numbers
+export const arrangeInteriorPages = (
+  pages: LayoutPage[],
+  options: InteriorLayoutOptions
+): PreviewPage[] => {
+  const arranged: LayoutPage[] = [];
+
+  pages.forEach((page) => {
+    if (options.mode === 'single-sided' && page.type === 'coloring') {
+      // Pad so the illustration lands on the next right-hand page
+      if (!isRectoPage(arranged.length + 1)) {
+        arranged.push(blankPage());
+      }
+      arranged.push(page);
+      arranged.push(blankPage(options.colorTestBacks));
+      return;
+    }
+
+    if (options.mode === 'spreads' && (page.type === 'story' || page.type === 'coloring')) {
+      // Story pages go on the left, illustrations on the right; pad with a
+      // blank whenever front matter or a missing partner breaks the pairing
+      const wantsRecto = page.type === 'coloring';
+      if (isRectoPage(arranged.length + 1) !== wantsRecto) {
+        arranged.push(blankPage());
+      }
+      arranged.push(page);
+      return;
+    }
+
+    arranged.push(page);
+  });
+
+  return arranged.map((page, index) => ({ ...page, pageNumber: index + 1 }));
+};
+
+// Physical interior page count the exporter will produce for a project
+export const countInteriorPages = (
+  project: Project,
+  options: InteriorLayoutOptions,
+  selection: PageSelection = DEFAULT_PAGE_SELECTION
+): number => {
+  return arrangeInteriorPages(buildProjectPages(project, selection), options).length;
+};
+
+// Group physical pages into the openings a reader sees
+export const groupIntoSpreads = (pages: PreviewPage[]): PageSpread[] => {
+  const spreads: PageSpread[] = [];
+
+  pages.forEach((page) => {
+    if (isRectoPage(page.pageNumber)) {
+      const last = spreads[spreads.length - 1];
+      if (last && !last.right && last.left?.pageNumber === page.pageNumber - 1) {
+        last.right = page;
+      } else {
+        spreads.push({ left: null, right: page });
+      }
+    } else {
+      spreads.push({ left: page, right: null });
+    }
+  });
+
+  return spreads;
+};
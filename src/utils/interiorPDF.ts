@@ -0,0 +1,462 @@
+/**
+ * Interior PDF Renderer
+ * Draws the arranged interior pages of a book into a print-ready PDF. Has no
+ * DOM dependencies so it can run inside the PDF worker.
+ */
+
+import { jsPDF } from 'jspdf';
+import { ExportResult } from './advancedPublishing';
+import { ImpositionMode, SheetSizeId, TypographyProfile, PageFrameSettings, PageNumberingSettings } from '../types';
+import { colorManagement, PrintColorOptions } from './colorManagement';
+import { ImposedSheet, imposePages } from './imposition';
+import { PreviewPage, toContentsSource } from './interiorLayout';
+import { loadPageImage, fitWithin, ImagePlacement } from './pageImages';
+import { resolvePageFrames, getPageFrameLayout, drawPageFrame } from './pageFrames';
+import {
+  PageLabel,
+  resolvePageNumbering,
+  buildPageLabels,
+  buildContentsEntries,
+  getPageNumberPlacement,
+  drawPageNumber,
+  drawTableOfContents
+} from './pageNumbering';
+import { PDFRenderOptions, throwIfCancelled, yieldToEventLoop, isRenderCancelled } from './renderProgress';
+import { MarginSet, isRectoPage } from './trimSizes';
+import { resolveTypography, setPDFFont, drawTextBlock } from './typography';
+
+export interface InteriorDimensions {
+  width: number;
+  height: number;
+  margins: MarginSet;
+  bleedWidth: number;
+  bleedHeight: number;
+  safeWidth: number;
+  safeHeight: number;
+}
+
+export interface InteriorPDFJob {
+  title: string;
+  author: string;
+  pages: PreviewPage[];
+  dimensions: InteriorDimensions;
+  bleed: number;
+  // Artwork is downscaled to this many pixels per inch of page
+  resolution: number;
+  cropMarks: boolean;
+  imposition?: { mode: ImpositionMode; sheet: SheetSizeId };
+  color?: PrintColorOptions;
+  typography?: TypographyProfile;
+  frames?: PageFrameSettings;
+  numbering?: PageNumberingSettings;
+}
+
+// Distance between a trim edge and the start of its cut mark
+const MARK_OFFSET = 0.0625;
+
+class InteriorPDFService {
+
+  async render(job: InteriorPDFJob, options: PDFRenderOptions = {}): Promise<ExportResult> {
+    const { onProgress, signal } = options;
+
+    try {
+      const imposition = job.imposition && job.imposition.mode !== 'none' ? job.imposition : null;
+      const sheets = imposition
+        ? imposePages(job.pages, job.dimensions, imposition.mode, imposition.sheet)
+        : [];
+      const format = sheets.length > 0
+        ? [sheets[0].width, sheets[0].height]
+        : [job.dimensions.bleedWidth, job.dimensions.bleedHeight];
+
+      const pdf = new jsPDF({
+        orientation: format[0] > format[1] ? 'landscape' : 'portrait',
+        unit: 'in',
+        format,
+        compress: true,
+        precision: 16,
+        putOnlyUsedFonts: true
+      });
+      colorManagement.prepareDocument(pdf, job.color);
+
+      pdf.setProperties({
+        title: job.title,
+        author: job.author,
+        subject: 'Professional Coloring Book',
+        creator: 'ColorBook Engine PDF Export'
+      });
+
+      const imageIssues: string[] = [];
+      const total = imposition ? sheets.length : job.pages.length;
+      const labels = buildPageLabels(job.pages.map(page => page.type), resolvePageNumbering(job.numbering));
+
+      for (let i = 0; i < total; i++) {
+        throwIfCancelled(signal);
+        onProgress?.({ stage: 'rendering', completed: i, total });
+
+        if (i > 0) pdf.addPage();
+
+        if (imposition) {
+          await this.addSheet(pdf, sheets[i], job, labels, imageIssues);
+          await yieldToEventLoop();
+          continue;
+        }
+
+        const page = job.pages[i];
+        if (job.bleed > 0) {
+          pdf.setFillColor(255, 248, 248);
+          pdf.rect(0, 0, job.dimensions.bleedWidth, job.dimensions.bleedHeight, 'F');
+        }
+
+        pdf.setFillColor(255, 255, 255);
+        pdf.rect(job.bleed, job.bleed, job.dimensions.width, job.dimensions.height, 'F');
+
+        await this.addPageContent(pdf, page, job, labels, imageIssues);
+
+        if (job.bleed > 0 && job.cropMarks) this.addCropMarks(pdf, job);
+        await yieldToEventLoop();
+      }
+
+      throwIfCancelled(signal);
+      onProgress?.({ stage: 'saving', completed: total, total });
+      // Imposed sheets have no bleed of their own: the trim is the whole sheet
+      const blob = colorManagement.output(pdf, job.color, imposition ? 0 : job.bleed);
+
+      return {
+        success: true,
+        blob,
+        metadata: {
+          format: 'PDF-Interior',
+          size: blob.size,
+          pages: job.pages.length,
+          sheets: imposition ? sheets.length : undefined,
+          imposition: imposition?.mode,
+          colorMode: colorManagement.resolveColorMode(job.color),
+          pdfx: !!job.color?.pdfx,
+          imageIssues
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        cancelled: isRenderCancelled(error),
+        error: error instanceof Error ? error.message : 'PDF generation failed'
+      };
+    }
+  }
+
+  // Draw each page into its slot through a scaled transform, clipped to the trim
+  private async addSheet(pdf: jsPDF, sheet: ImposedSheet, job: InteriorPDFJob, labels: PageLabel[], imageIssues: string[]) {
+    const k = pdf.internal.scaleFactor;
+    const sheetHeight = sheet.height * k;
+
+    for (const slot of sheet.slots) {
+      if (!slot.page) continue;
+
+      pdf.saveGraphicsState();
+      pdf.rect(slot.x, slot.y, slot.width, slot.height, null);
+      pdf.clip();
+      pdf.discardPath();
+
+      // Put the page's trim corner on the slot corner. jsPDF flips y into PDF
+      // space, so the translation is measured in points from the sheet bottom
+      const originX = slot.x - job.bleed * slot.scale;
+      const originY = slot.y - job.bleed * slot.scale;
+      pdf.setCurrentTransformationMatrix(pdf.Matrix(
+        slot.scale, 0, 0, slot.scale,
+        originX * k,
+        sheetHeight - originY * k - slot.scale * sheetHeight
+      ));
+
+      pdf.setFillColor(255, 255, 255);
+      pdf.rect(job.bleed, job.bleed, job.dimensions.width, job.dimensions.height, 'F');
+      await this.addPageContent(pdf, slot.page, job, labels, imageIssues);
+
+      pdf.restoreGraphicsState();
+    }
+
+    this.addSheetMarks(pdf, sheet, job);
+  }
+
+  // Cut lines in the sheet margins, plus a dashed fold mark on booklet sheets
+  private addSheetMarks(pdf: jsPDF, sheet: ImposedSheet, job: InteriorPDFJob) {
+    const slots = sheet.slots;
+    const top = Math.min(...slots.map(slot => slot.y)) - MARK_OFFSET;
+    const bottom = Math.max(...slots.map(slot => slot.y + slot.height)) + MARK_OFFSET;
+    const left = Math.min(...slots.map(slot => slot.x)) - MARK_OFFSET;
+    const right = Math.max(...slots.map(slot => slot.x + slot.width)) + MARK_OFFSET;
+    const unique = (values: number[]) => Array.from(new Set(values.map(value => Number(value.toFixed(4)))));
+
+    pdf.setDrawColor(0, 0, 0);
+    pdf.setLineWidth(0.005);
+
+    // Cut sheets always need their lines; booklets only when crop marks are on
+    if (sheet.side === 'single' || job.cropMarks) {
+      unique(slots.flatMap(slot => [slot.x, slot.x + slot.width]))
+        .filter(x => sheet.foldX === undefined || Math.abs(x - sheet.foldX) > 0.001)
+        .forEach(x => {
+          if (top > 0) pdf.line(x, 0, x, top);
+          if (bottom < sheet.height) pdf.line(x, bottom, x, sheet.height);
+        });
+
+      unique(slots.flatMap(slot => [slot.y, slot.y + slot.height])).forEach(y => {
+        if (left > 0) pdf.line(0, y, left, y);
+        if (right < sheet.width) pdf.line(right, y, sheet.width, y);
+      });
+    }
+
+    if (sheet.foldX !== undefined) {
+      pdf.setLineDashPattern([0.05, 0.05], 0);
+      if (top > 0) pdf.line(sheet.foldX, 0, sheet.foldX, top);
+      if (bottom < sheet.height) pdf.line(sheet.foldX, bottom, sheet.foldX, sheet.height);
+      pdf.setLineDashPattern([], 0);
+    }
+  }
+
+  // labels covers the reader-order page list, indexed by physical page number
+  private async addPageContent(pdf: jsPDF, page: PreviewPage, job: InteriorPDFJob, labels: PageLabel[], imageIssues: string[]) {
+    // Gutter sits on the left of right-hand pages and the right of left-hand pages
+    const leftMargin = isRectoPage(page.pageNumber) ? job.dimensions.margins.inner : job.dimensions.margins.outer;
+    const safeArea = {
+      x: job.bleed + leftMargin,
+      y: job.bleed + job.dimensions.margins.top,
+      width: job.dimensions.safeWidth,
+      height: job.dimensions.safeHeight
+    };
+    const typography = resolveTypography(job.typography);
+
+    // Padding pages added by imposition sit outside the book's own numbering
+    const pageLabel = labels[page.pageNumber - 1];
+    const label = pageLabel?.printed ? pageLabel.label : null;
+    const frame = getPageFrameLayout(resolvePageFrames(job.frames), page.type, safeArea, !!label);
+    if (frame) drawPageFrame(pdf, frame, typography, label || undefined);
+
+    // Framed pages lay their content out inside the frame
+    const { x: safeX, y: safeY, width: safeWidth, height: safeHeight } = frame ? frame.content : safeArea;
+
+    pdf.setTextColor(0, 0, 0);
+    setPDFFont(pdf, typography);
+
+    switch (page.type) {
+      case 'cover':
+        pdf.setFontSize(28);
+        setPDFFont(pdf, typography, 'bold');
+        const titleLines = pdf.splitTextToSize(page.content?.title || 'Untitled', safeWidth);
+        pdf.text(titleLines, safeX + safeWidth / 2, safeY + safeHeight / 3, { align: 'center' });
+
+        if (page.content?.author) {
+          pdf.setFontSize(16);
+          setPDFFont(pdf, typography, 'normal');
+          pdf.text(`By ${page.content.author}`, safeX + safeWidth / 2, safeY + safeHeight / 2, { align: 'center' });
+        }
+        break;
+
+      case 'title':
+      case 'copyright':
+      case 'dedication':
+      case 'belongs-to':
+      case 'about-author':
+      case 'also-by':
+        this.addMatterPage(pdf, page, typography, safeX, safeY, safeWidth, safeHeight);
+        break;
+
+      case 'story':
+        pdf.setFontSize(typography.headingSize);
+        setPDFFont(pdf, typography, 'bold');
+        pdf.text(`Chapter ${page.content?.pageNumber || page.pageNumber}`, safeX, safeY + 0.4);
+
+        drawTextBlock(
+          pdf,
+          page.content?.content?.text || 'Story content here...',
+          safeX,
+          safeY + 0.4 + (typography.headingSize / 72) * 1.6,
+          safeWidth,
+          typography
+        );
+        break;
+
+      case 'coloring':
+        const area = { x: safeX, y: safeY, width: safeWidth, height: safeHeight };
+        if (await this.addColoringImage(pdf, page, area, job, imageIssues)) break;
+
+        // Placeholder keeps the page count right when artwork is missing
+        pdf.setDrawColor(200, 200, 200);
+        pdf.setLineWidth(0.02);
+        pdf.rect(safeX + 0.5, safeY + 0.5, safeWidth - 1, safeHeight - 1);
+
+        pdf.setFontSize(12);
+        pdf.setTextColor(150, 150, 150);
+        pdf.text('🎨 Coloring Page', safeX + safeWidth / 2, safeY + safeHeight / 2, { align: 'center' });
+        pdf.setTextColor(0, 0, 0);
+        break;
+
+      case 'back':
+        pdf.setFontSize(typography.headingSize);
+        setPDFFont(pdf, typography, 'bold');
+        pdf.text('Notes', safeX, safeY + 0.4);
+
+        pdf.setDrawColor(220, 220, 220);
+        pdf.setLineWidth(0.005);
+        for (let i = 1; i < 25; i++) {
+          const y = safeY + 0.8 + (i * 0.25);
+          if (y < safeY + safeHeight - 0.3) {
+            pdf.line(safeX, y, safeX + safeWidth, y);
+          }
+        }
+        break;
+
+      case 'contents': {
+        const numbering = resolvePageNumbering(job.numbering);
+        const entries = buildContentsEntries(job.pages.map(toContentsSource), labels, numbering.tableOfContents);
+        drawTableOfContents(pdf, entries, { x: safeX, y: safeY, width: safeWidth, height: safeHeight }, typography);
+        break;
+      }
+
+      case 'blank':
+        if (page.content?.testPattern) this.addColorTestPattern(pdf, typography, safeX, safeY, safeWidth);
+        break;
+    }
+
+    if (label && !frame?.badge) {
+      const trim = { x: job.bleed, y: job.bleed, width: job.dimensions.width, height: job.dimensions.height };
+      const placement = getPageNumberPlacement(resolvePageNumbering(job.numbering).position, page.pageNumber, safeArea, trim);
+      drawPageNumber(pdf, label, placement, typography);
+    }
+  }
+
+  // Front and back matter pages carry their editable heading and text on the Page
+  private addMatterPage(
+    pdf: jsPDF,
+    page: PreviewPage,
+    typography: TypographyProfile,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) {
+    const heading: string = page.content?.content?.heading || '';
+    const text: string = page.content?.content?.text || '';
+    const centerX = x + width / 2;
+
+    switch (page.type) {
+      case 'title': {
+        pdf.setFontSize(28);
+        setPDFFont(pdf, typography, 'bold');
+        const titleLines = pdf.splitTextToSize(heading, width);
+        pdf.text(titleLines, centerX, y + height / 3, { align: 'center' });
+
+        pdf.setFontSize(14);
+        setPDFFont(pdf, typography, 'normal');
+        pdf.text(pdf.splitTextToSize(text, width), centerX, y + height / 3 + 0.4 + titleLines.length * 0.4, { align: 'center' });
+        break;
+      }
+
+      case 'dedication':
+        pdf.setFontSize(14);
+        setPDFFont(pdf, typography, 'italic');
+        pdf.text(pdf.splitTextToSize(text, width * 0.75), centerX, y + height / 3, { align: 'center' });
+        break;
+
+      case 'belongs-to':
+        pdf.setFontSize(22);
+        setPDFFont(pdf, typography, 'bold');
+        pdf.text(heading, centerX, y + height / 3, { align: 'center' });
+        pdf.setDrawColor(0, 0, 0);
+        pdf.setLineWidth(0.01);
+        pdf.line(x + width * 0.15, y + height / 3 + 1, x + width * 0.85, y + height / 3 + 1);
+        break;
+
+      case 'copyright':
+        // Copyright text traditionally sits at the foot of the page
+        pdf.setFontSize(9);
+        setPDFFont(pdf, typography, 'normal');
+        const copyrightLines = pdf.splitTextToSize(text, width);
+        pdf.text(copyrightLines, x, y + height - copyrightLines.length * 0.15);
+        break;
+
+      default:
+        pdf.setFontSize(typography.headingSize);
+        setPDFFont(pdf, typography, 'bold');
+        pdf.text(heading, x, y + 0.4);
+
+        drawTextBlock(pdf, text, x, y + 0.4 + (typography.headingSize / 72) * 1.6, width, typography);
+    }
+  }
+
+  // Swatch grid for trying markers before they touch the illustration
+  private addColorTestPattern(pdf: jsPDF, typography: TypographyProfile, x: number, y: number, width: number) {
+    pdf.setFontSize(16);
+    setPDFFont(pdf, typography, 'bold');
+    pdf.text('Test Your Colors', x + width / 2, y + 0.4, { align: 'center' });
+
+    pdf.setFontSize(9);
+    setPDFFont(pdf, typography, 'normal');
+    pdf.setTextColor(120, 120, 120);
+    pdf.text('Try each marker or pencil here first', x + width / 2, y + 0.65, { align: 'center' });
+    pdf.setTextColor(0, 0, 0);
+
+    const columns = 5;
+    const rows = 6;
+    const gap = 0.15;
+    const size = Math.min(0.9, (width - gap * (columns - 1)) / columns);
+    const startX = x + (width - (size * columns + gap * (columns - 1))) / 2;
+
+    pdf.setDrawColor(160, 160, 160);
+    pdf.setLineWidth(0.01);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        const swatchY = y + 1 + row * (size + gap);
+        pdf.roundedRect(startX + col * (size + gap), swatchY, size, size, 0.08, 0.08);
+      }
+    }
+  }
+
+  private addCropMarks(pdf: jsPDF, job: InteriorPDFJob) {
+    pdf.setDrawColor(0, 0, 0);
+    pdf.setLineWidth(0.01);
+
+    const markLength = 0.125;
+    const markOffset = 0.05;
+
+    // Top-left
+    pdf.line(0, job.bleed - markOffset, markLength, job.bleed - markOffset);
+    pdf.line(job.bleed - markOffset, 0, job.bleed - markOffset, markLength);
+
+    // Top-right
+    pdf.line(job.dimensions.bleedWidth - markLength, job.bleed - markOffset, job.dimensions.bleedWidth, job.bleed - markOffset);
+    pdf.line(job.dimensions.width + job.bleed + markOffset, 0, job.dimensions.width + job.bleed + markOffset, markLength);
+
+    // Bottom-left
+    pdf.line(0, job.dimensions.height + job.bleed + markOffset, markLength, job.dimensions.height + job.bleed + markOffset);
+    pdf.line(job.bleed - markOffset, job.dimensions.bleedHeight - markLength, job.bleed - markOffset, job.dimensions.bleedHeight);
+
+    // Bottom-right
+    pdf.line(job.dimensions.bleedWidth - markLength, job.dimensions.height + job.bleed + markOffset, job.dimensions.bleedWidth, job.dimensions.height + job.bleed + markOffset);
+    pdf.line(job.dimensions.width + job.bleed + markOffset, job.dimensions.bleedHeight - markLength, job.dimensions.width + job.bleed + markOffset, job.dimensions.bleedHeight);
+  }
+
+  private async addColoringImage(
+    pdf: jsPDF,
+    page: PreviewPage,
+    area: ImagePlacement,
+    job: InteriorPDFJob,
+    imageIssues: string[]
+  ): Promise<boolean> {
+    const imageData = page.content?.content?.imageData;
+    if (!imageData) return false;
+
+    try {
+      const image = await loadPageImage(imageData, { maxWidth: Math.ceil(area.width * job.resolution) });
+      const placement = fitWithin(image.width, image.height, area);
+      await colorManagement.addImage(
+        pdf, image.dataUrl, image.format, placement.x, placement.y, placement.width, placement.height, job.color
+      );
+      return true;
+    } catch (error) {
+      imageIssues.push(`Page ${page.pageNumber}: ${error instanceof Error ? error.message : 'Image could not be embedded'}`);
+      return false;
+    }
+  }
+}
+
+export const interiorPDF = new InteriorPDFService();
+export default interiorPDF;
@@ -0,0 +1,60 @@
+/**
+ * Look Inside Preview
+ * Picks which interior pages appear in a marketing preview - the opening pages
+ * plus a spread of sample coloring pages - and converts them for the renderer.
+ */
+
+import type { PublishingOptions } from './advancedPublishing';
+import { PreviewPage } from './interiorLayout';
+import { ContentsEntry, CONTENTS_TITLE } from './pageNumbering';
+
+export interface LookInsideSelection {
+  // Opening pages shown in order
+  firstPages: number;
+  // Coloring pages sampled evenly from the rest of the book
+  coloringSamples: number;
+}
+
+export const DEFAULT_LOOK_INSIDE: LookInsideSelection = {
+  firstPages: 6,
+  coloringSamples: 3
+};
+
+// Blank pages only make a preview look thin
+export const isPreviewablePage = (page: PreviewPage): boolean => page.type !== 'blank';
+
+// Indices into the page list, in reading order
+export const pickLookInsidePages = (pages: PreviewPage[], selection: LookInsideSelection): number[] => {
+  const candidates = pages.map((page, index) => (isPreviewablePage(page) ? index : -1)).filter(index => index >= 0);
+  const opening = candidates.slice(0, Math.max(0, selection.firstPages));
+  const lastOpening = opening.length > 0 ? opening[opening.length - 1] : -1;
+
+  const later = candidates.filter(index => index > lastOpening && pages[index].type === 'coloring');
+  const sampleCount = Math.min(later.length, Math.max(0, selection.coloringSamples));
+  const samples = Array.from({ length: sampleCount }, (_, i) => later[Math.floor(((i + 0.5) * later.length) / sampleCount)]);
+
+  return [...opening, ...samples];
+};
+
+export const toPublishingPage = (
+  page: PreviewPage,
+  contents: ContentsEntry[] = []
+): PublishingOptions['pages'][number] => {
+  const source = page.content?.content;
+
+  switch (page.type) {
+    case 'cover':
+      return { type: 'cover', content: [page.content?.title, page.content?.author && `By ${page.content.author}`].filter(Boolean).join('\n') };
+    case 'story':
+      return { type: 'story', heading: `Chapter ${page.content?.pageNumber || page.pageNumber}`, content: source?.text || '' };
+    case 'coloring':
+      return { type: 'coloring', heading: source?.heading, content: source?.imagePrompt || '', imageData: source?.imageData, imagePrompt: source?.imagePrompt };
+    case 'contents':
+      return { type: 'contents', heading: CONTENTS_TITLE, content: contents.map(entry => `${entry.title} · ${entry.label}`).join('\n') };
+    case 'back':
+    case 'blank':
+      return { type: 'activity', heading: page.type === 'back' ? 'Notes' : undefined, content: '' };
+    default:
+      return { type: page.type, heading: source?.heading, content: source?.text || '' };
+  }
+};
@@ -0,0 +1,754 @@
+/**
+ * Product Mockup Generator
+ * Composites a project's cover and sample pages onto built-in listing scenes -
+ * a flat-lay book, a stack of pages, a tablet and a page mid-coloring - with
+ * the perspective done in canvas, at the image sizes each marketplace expects.
+ */
+
+import { Project } from '../types';
+import type { ExportResult } from './advancedPublishing';
+import { isMatterPageType } from './frontMatter';
+import { loadPageImage, decodeImage, fitWithin, canvasToBlob } from './pageImages';
+import { PDFRenderOptions, throwIfCancelled, yieldToEventLoop, isRenderCancelled } from './renderProgress';
+import { TrimSizeId, getTrimSize } from './trimSizes';
+import { resolveTypography, getCSSFontStack, loadFontFace } from './typography';
+
+export type MockupTemplateId = 'flat-lay' | 'page-stack' | 'tablet' | 'coloring-in-progress';
+
+export type MockupSizeId = 'amazon' | 'etsy' | 'instagram' | 'instagram-portrait' | 'pinterest' | 'facebook';
+
+export interface MockupTemplate {
+  id: MockupTemplateId;
+  name: string;
+  description: string;
+}
+
+export interface MockupSize {
+  id: MockupSizeId;
+  name: string;
+  // Folder the images are grouped under in the download
+  platform: 'Amazon' | 'Etsy' | 'Social';
+  width: number;
+  height: number;
+}
+
+// Rendered once per project and reused for every scene and size
+export interface MockupAssets {
+  cover: HTMLCanvasElement;
+  pages: HTMLCanvasElement[];
+  // The first sample page with some of its regions colored in
+  coloredPage: HTMLCanvasElement;
+}
+
+export interface MockupOptions {
+  templates?: MockupTemplateId[];
+  sizes?: MockupSizeId[];
+  // Sets the page proportions; defaults to the project's export trim
+  trimSize?: TrimSizeId;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners clockwise from top-left
+type Quad = [Point, Point, Point, Point];
+
+// Projective map from the unit square onto a quad
+interface Homography {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+  g: number;
+  h: number;
+}
+
+// Centre and size of the square area a scene is composed in
+interface Scene {
+  cx: number;
+  cy: number;
+  unit: number;
+}
+
+export const MOCKUP_TEMPLATES: Record<MockupTemplateId, MockupTemplate> = {
+  'flat-lay': { id: 'flat-lay', name: 'Flat-lay book', description: 'The cover and an open page on a wooden table with pencils' },
+  'page-stack': { id: 'page-stack', name: 'Stack of pages', description: 'Three sample pages fanned out on a desk' },
+  tablet: { id: 'tablet', name: 'Tablet screen', description: 'A sample page on a tablet with a stylus' },
+  'coloring-in-progress': { id: 'coloring-in-progress', name: 'Page being colored', description: 'A half-colored page with pencils' }
+};
+
+export const MOCKUP_SIZES: Record<MockupSizeId, MockupSize> = {
+  amazon: { id: 'amazon', name: 'Amazon product image', platform: 'Amazon', width: 2000, height: 2000 },
+  etsy: { id: 'etsy', name: 'Etsy listing photo', platform: 'Etsy', width: 3000, height: 2250 },
+  instagram: { id: 'instagram', name: 'Instagram square', platform: 'Social', width: 1080, height: 1080 },
+  'instagram-portrait': { id: 'instagram-portrait', name: 'Instagram portrait', platform: 'Social', width: 1080, height: 1350 },
+  pinterest: { id: 'pinterest', name: 'Pinterest pin', platform: 'Social', width: 1000, height: 1500 },
+  facebook: { id: 'facebook', name: 'Facebook post', platform: 'Social', width: 1200, height: 630 }
+};
+
+// Pixel width of the cover and page artwork before it is warped into a scene
+const ASSET_WIDTH = 1200;
+
+// Sample pages shown in the page stack
+const SAMPLE_PAGE_COUNT = 3;
+
+// Grid cells per side when warping an image; more cells hide the affine seams
+const MESH_STEPS = 16;
+
+const PENCIL_COLORS = ['#e63946', '#f4a261', '#2a9d8f', '#457b9d', '#8e44ad', '#f1c40f'];
+
+const COVER_COLORS = ['#ffd6a5', '#caffbf', '#9bf6ff', '#bdb2ff', '#ffc6ff', '#fdffb6'];
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return { canvas, ctx };
+};
+
+const homographyFromSquare = ([p0, p1, p2, p3]: Quad): Homography => {
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = dx3 === 0 && dy3 === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / det;
+  const h = dx3 === 0 && dy3 === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / det;
+
+  return {
+    a: p1.x - p0.x + g * p1.x,
+    b: p3.x - p0.x + h * p3.x,
+    c: p0.x,
+    d: p1.y - p0.y + g * p1.y,
+    e: p3.y - p0.y + h * p3.y,
+    f: p0.y,
+    g,
+    h
+  };
+};
+
+const mapPoint = (m: Homography, u: number, v: number): Point => {
+  const w = m.g * u + m.h * v + 1;
+  return { x: (m.a * u + m.b * v + m.c) / w, y: (m.d * u + m.e * v + m.f) / w };
+};
+
+// Canvas only has affine transforms, so each triangle of the mesh gets its own
+const drawTriangle = (
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  s: [Point, Point, Point],
+  d: [Point, Point, Point]
+) => {
+  const sx1 = s[1].x - s[0].x;
+  const sy1 = s[1].y - s[0].y;
+  const sx2 = s[2].x - s[0].x;
+  const sy2 = s[2].y - s[0].y;
+  const det = sx1 * sy2 - sx2 * sy1;
+  if (det === 0) return;
+
+  const dx1 = d[1].x - d[0].x;
+  const dy1 = d[1].y - d[0].y;
+  const dx2 = d[2].x - d[0].x;
+  const dy2 = d[2].y - d[0].y;
+
+  const a = (dx1 * sy2 - dx2 * sy1) / det;
+  const c = (dx2 * sx1 - dx1 * sx2) / det;
+  const b = (dy1 * sy2 - dy2 * sy1) / det;
+  const dd = (dy2 * sx1 - dy1 * sx2) / det;
+
+  // Grow the clip slightly so neighbouring triangles overlap instead of leaving hairlines
+  const cx = (d[0].x + d[1].x + d[2].x) / 3;
+  const cy = (d[0].y + d[1].y + d[2].y) / 3;
+  const grow = (p: Point): Point => {
+    const length = Math.hypot(p.x - cx, p.y - cy) || 1;
+    return { x: p.x + ((p.x - cx) / length) * 0.75, y: p.y + ((p.y - cy) / length) * 0.75 };
+  };
+  const clip = d.map(grow);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(clip[0].x, clip[0].y);
+  ctx.lineTo(clip[1].x, clip[1].y);
+  ctx.lineTo(clip[2].x, clip[2].y);
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, b, c, dd, d[0].x - a * s[0].x - c * s[0].y, d[0].y - b * s[0].x - dd * s[0].y);
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+};
+
+const drawImageToQuad = (ctx: CanvasRenderingContext2D, image: HTMLCanvasElement, quad: Quad) => {
+  const m = homographyFromSquare(quad);
+
+  for (let row = 0; row < MESH_STEPS; row++) {
+    for (let col = 0; col < MESH_STEPS; col++) {
+      const u0 = col / MESH_STEPS;
+      const u1 = (col + 1) / MESH_STEPS;
+      const v0 = row / MESH_STEPS;
+      const v1 = (row + 1) / MESH_STEPS;
+
+      const source = (u: number, v: number): Point => ({ x: u * image.width, y: v * image.height });
+      const tl = mapPoint(m, u0, v0);
+      const tr = mapPoint(m, u1, v0);
+      const br = mapPoint(m, u1, v1);
+      const bl = mapPoint(m, u0, v1);
+
+      drawTriangle(ctx, image, [source(u0, v0), source(u1, v0), source(u1, v1)], [tl, tr, br]);
+      drawTriangle(ctx, image, [source(u0, v0), source(u1, v1), source(u0, v1)], [tl, br, bl]);
+    }
+  }
+};
+
+// A rectangle rotated about its centre, with the top edge narrowed to suggest
+// the surface tilting away from the camera
+const rectQuad = (cx: number, cy: number, width: number, height: number, angle: number, taper = 1): Quad => {
+  const corners: Point[] = [
+    { x: (-width / 2) * taper, y: -height / 2 },
+    { x: (width / 2) * taper, y: -height / 2 },
+    { x: width / 2, y: height / 2 },
+    { x: -width / 2, y: height / 2 }
+  ];
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return corners.map(p => ({ x: cx + p.x * cos - p.y * sin, y: cy + p.x * sin + p.y * cos })) as Quad;
+};
+
+const offsetQuad = (quad: Quad, dx: number, dy: number): Quad =>
+  quad.map(p => ({ x: p.x + dx, y: p.y + dy })) as Quad;
+
+const traceQuad = (ctx: CanvasRenderingContext2D, quad: Quad) => {
+  ctx.beginPath();
+  ctx.moveTo(quad[0].x, quad[0].y);
+  quad.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+};
+
+// Rounded corners are traced in unit space and projected, so they foreshorten too
+const traceRoundedQuad = (ctx: CanvasRenderingContext2D, quad: Quad, radius: number) => {
+  const m = homographyFromSquare(quad);
+  const points: Point[] = [];
+  const corners: Array<[number, number, number]> = [
+    [1 - radius, radius, -Math.PI / 2],
+    [1 - radius, 1 - radius, 0],
+    [radius, 1 - radius, Math.PI / 2],
+    [radius, radius, Math.PI]
+  ];
+  corners.forEach(([cu, cv, start]) => {
+    for (let step = 0; step <= 6; step++) {
+      const angle = start + (step / 6) * (Math.PI / 2);
+      points.push(mapPoint(m, cu + Math.cos(angle) * radius, cv + Math.sin(angle) * radius));
+    }
+  });
+
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+};
+
+const withShadow = (ctx: CanvasRenderingContext2D, unit: number, draw: () => void) => {
+  ctx.save();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+  ctx.shadowBlur = unit * 0.03;
+  ctx.shadowOffsetX = unit * 0.008;
+  ctx.shadowOffsetY = unit * 0.014;
+  draw();
+  ctx.restore();
+};
+
+const drawWoodBackground = (ctx: CanvasRenderingContext2D, width: number, height: number, light: string, dark: string) => {
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, light);
+  gradient.addColorStop(1, dark);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Wavy grain lines and plank seams, deterministic so re-exports match
+  ctx.strokeStyle = 'rgba(90, 55, 25, 0.12)';
+  ctx.lineWidth = Math.max(1, height / 600);
+  const spacing = Math.max(6, height / 45);
+  for (let y = 0, line = 0; y < height + spacing; y += spacing, line++) {
+    ctx.beginPath();
+    for (let x = 0; x <= width; x += width / 40) {
+      const wave = Math.sin(x / (width / 7) + line * 1.7) * spacing * 0.35;
+      if (x === 0) ctx.moveTo(x, y + wave);
+      else ctx.lineTo(x, y + wave);
+    }
+    ctx.stroke();
+  }
+
+  ctx.strokeStyle = 'rgba(60, 35, 15, 0.25)';
+  for (let x = width / 4; x < width; x += width / 4) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+  }
+};
+
+const drawSoftBackground = (ctx: CanvasRenderingContext2D, width: number, height: number, inner: string, outer: string) => {
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+  gradient.addColorStop(0, inner);
+  gradient.addColorStop(1, outer);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+// Colored pencil lying along `angle`, tip at (x, y)
+const drawPencil = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  length: number,
+  angle: number,
+  color: string
+) => {
+  const thickness = length * 0.07;
+  const tip = length * 0.14;
+
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(angle);
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+  ctx.shadowBlur = thickness * 0.6;
+  ctx.shadowOffsetY = thickness * 0.35;
+
+  ctx.fillStyle = color;
+  ctx.fillRect(tip, -thickness / 2, length - tip, thickness);
+  ctx.shadowColor = 'transparent';
+
+  // Facets: a highlight down the middle and a darker lower edge
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+  ctx.fillRect(tip, -thickness * 0.15, length - tip, thickness * 0.18);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.18)';
+  ctx.fillRect(tip, thickness * 0.2, length - tip, thickness * 0.3);
+
+  ctx.fillStyle = '#e9c89b';
+  ctx.beginPath();
+  ctx.moveTo(tip, -thickness / 2);
+  ctx.lineTo(0, 0);
+  ctx.lineTo(tip, thickness / 2);
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(tip * 0.38, -thickness * 0.19);
+  ctx.lineTo(0, 0);
+  ctx.lineTo(tip * 0.38, thickness * 0.19);
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.restore();
+};
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Flood-fill enclosed white areas in one corner of the line art, leaving the
+// rest blank so the page looks half finished. Areas that leak into the page
+// background are left alone
+const colorIn = (source: HTMLCanvasElement): HTMLCanvasElement => {
+  const { canvas, ctx } = createCanvas(source.width, source.height);
+  ctx.drawImage(source, 0, 0);
+
+  const { width, height } = canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+  const visited = new Uint8Array(width * height);
+  const maxArea = width * height * 0.04;
+  const minArea = width * height * 0.0003;
+  const isPaper = (p: number) => data[p * 4] > 200 && data[p * 4 + 1] > 200 && data[p * 4 + 2] > 200;
+  const step = Math.max(4, Math.round(width / 30));
+  let colorIndex = 0;
+
+  for (let y = Math.round(height * 0.4); y < height; y += step) {
+    for (let x = 0; x < width * 0.6; x += step) {
+      const seed = y * width + x;
+      if (visited[seed] || !isPaper(seed)) continue;
+
+      const region: number[] = [];
+      const stack = [seed];
+      visited[seed] = 1;
+      while (stack.length > 0) {
+        const p = stack.pop() as number;
+        if (region.length <= maxArea) region.push(p);
+        const px = p % width;
+        const neighbours = [px > 0 ? p - 1 : -1, px < width - 1 ? p + 1 : -1, p - width, p + width];
+        neighbours.forEach(n => {
+          if (n >= 0 && n < visited.length && !visited[n] && isPaper(n)) {
+            visited[n] = 1;
+            stack.push(n);
+          }
+        });
+      }
+
+      if (region.length > maxArea || region.length < minArea) continue;
+
+      const hex = PENCIL_COLORS[colorIndex++ % PENCIL_COLORS.length];
+      const rgb = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+      region.forEach(p => {
+        data[p * 4] = rgb[0];
+        data[p * 4 + 1] = rgb[1];
+        data[p * 4 + 2] = rgb[2];
+      });
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+const pickEvenly = <T>(items: T[], count: number): T[] => {
+  if (items.length <= count) return items;
+  return Array.from({ length: count }, (_, i) => items[Math.floor(((i + 0.5) * items.length) / count)]);
+};
+
+class MockupGeneratorService {
+
+  // Load the cover and sample pages once; every scene is drawn from these
+  async loadAssets(project: Project, trimSize?: TrimSizeId): Promise<MockupAssets> {
+    const trim = getTrimSize(trimSize);
+    const aspect = trim.height / trim.width;
+
+    const illustrated = project.pages.filter(page =>
+      page.type !== 'cover' && !isMatterPageType(page.type) && page.content.imageData
+    );
+    if (illustrated.length === 0) {
+      throw new Error('Add artwork to at least one page to build mockups');
+    }
+
+    const decode = async (raw: string) => {
+      const image = await loadPageImage(raw, { maxWidth: ASSET_WIDTH, rasterWidth: ASSET_WIDTH });
+      return decodeImage(image.dataUrl);
+    };
+
+    const samples = await Promise.all(
+      pickEvenly(illustrated, SAMPLE_PAGE_COUNT).map(page => decode(page.content.imageData as string))
+    );
+    const pages = samples.map(image => this.createPageSheet(image, aspect));
+
+    const coverArt = project.pages.find(page => page.type === 'cover' && page.content.imageData);
+    const cover = coverArt
+      ? this.createArtCover(await decode(coverArt.content.imageData as string), aspect)
+      : await this.createTitleCover(project, samples[0], aspect);
+
+    return { cover, pages, coloredPage: colorIn(pages[0]) };
+  }
+
+  renderMockup(assets: MockupAssets, template: MockupTemplateId, width: number, height: number): HTMLCanvasElement {
+    const { canvas, ctx } = createCanvas(width, height);
+    const scene: Scene = { cx: width / 2, cy: height / 2, unit: Math.min(width, height) };
+
+    switch (template) {
+      case 'flat-lay':
+        this.renderFlatLay(ctx, assets, scene, width, height);
+        break;
+      case 'page-stack':
+        this.renderPageStack(ctx, assets, scene, width, height);
+        break;
+      case 'tablet':
+        this.renderTablet(ctx, assets, scene, width, height);
+        break;
+      case 'coloring-in-progress':
+        this.renderColoringInProgress(ctx, assets, scene, width, height);
+        break;
+    }
+
+    return canvas;
+  }
+
+  // Every chosen scene at every chosen size, grouped by platform in a ZIP
+  async generateMockups(
+    project: Project,
+    options: MockupOptions = {},
+    renderOptions: PDFRenderOptions = {}
+  ): Promise<ExportResult> {
+    const { onProgress, signal } = renderOptions;
+    try {
+      const templates = options.templates || (Object.keys(MOCKUP_TEMPLATES) as MockupTemplateId[]);
+      const sizes = (options.sizes || (Object.keys(MOCKUP_SIZES) as MockupSizeId[])).map(id => MOCKUP_SIZES[id]);
+      if (templates.length === 0 || sizes.length === 0) {
+        throw new Error('Choose at least one mockup and one image size');
+      }
+
+      onProgress?.({ stage: 'preparing', completed: 0, total: 0 });
+      const JSZip = (await import('jszip')).default;
+      const zip = new JSZip();
+      const assets = await this.loadAssets(project, options.trimSize);
+
+      const total = templates.length * sizes.length;
+      let completed = 0;
+      for (const size of sizes) {
+        for (const template of templates) {
+          throwIfCancelled(signal);
+          onProgress?.({ stage: 'rendering', completed, total });
+
+          const canvas = this.renderMockup(assets, template, size.width, size.height);
+          zip.file(`${size.platform}/${template}-${size.id}-${size.width}x${size.height}.png`, await canvasToBlob(canvas, 'image/png'));
+          completed++;
+          await yieldToEventLoop();
+        }
+      }
+
+      throwIfCancelled(signal);
+      onProgress?.({ stage: 'saving', completed: total, total });
+      const blob = await zip.generateAsync({ type: 'blob' });
+
+      return {
+        success: true,
+        blob,
+        downloadUrl: URL.createObjectURL(blob),
+        metadata: {
+          format: 'Mockups',
+          size: blob.size,
+          images: total,
+          templates,
+          sizes: sizes.map(size => size.id)
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        cancelled: isRenderCancelled(error),
+        error: error instanceof Error ? error.message : 'Mockup generation failed'
+      };
+    }
+  }
+
+  private createPageSheet(image: HTMLImageElement, aspect: number): HTMLCanvasElement {
+    const { canvas, ctx } = createCanvas(ASSET_WIDTH, ASSET_WIDTH * aspect);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const margin = canvas.width * 0.07;
+    const placement = fitWithin(image.naturalWidth, image.naturalHeight, {
+      x: margin,
+      y: margin,
+      width: canvas.width - margin * 2,
+      height: canvas.height - margin * 2
+    });
+    ctx.drawImage(image, placement.x, placement.y, placement.width, placement.height);
+    return canvas;
+  }
+
+  // Cover artwork fills the whole front, cropped rather than letterboxed
+  private createArtCover(image: HTMLImageElement, aspect: number): HTMLCanvasElement {
+    const { canvas, ctx } = createCanvas(ASSET_WIDTH, ASSET_WIDTH * aspect);
+    const scale = Math.max(canvas.width / image.naturalWidth, canvas.height / image.naturalHeight);
+    const width = image.naturalWidth * scale;
+    const height = image.naturalHeight * scale;
+    ctx.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+    return canvas;
+  }
+
+  // Projects without cover art get a simple title cover around a sample page
+  private async createTitleCover(project: Project, sample: HTMLImageElement, aspect: number): Promise<HTMLCanvasElement> {
+    const typography = resolveTypography(project.metadata?.typography);
+    await loadFontFace(typography);
+    const fontStack = getCSSFontStack(typography);
+
+    const { canvas, ctx } = createCanvas(ASSET_WIDTH, ASSET_WIDTH * aspect);
+    const hash = Array.from(project.title).reduce((sum, char) => sum + char.charCodeAt(0), 0);
+    ctx.fillStyle = COVER_COLORS[hash % COVER_COLORS.length];
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const margin = canvas.width * 0.08;
+    const titleSize = canvas.width / 11;
+    ctx.fillStyle = '#1f2937';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.font = `bold ${titleSize}px ${fontStack}`;
+    const titleLines = wrapLines(ctx, project.title, canvas.width - margin * 2).slice(0, 3);
+    titleLines.forEach((line, index) => {
+      ctx.fillText(line, canvas.width / 2, margin + index * titleSize * 1.15);
+    });
+
+    const authorSize = canvas.width / 24;
+    const artTop = margin * 1.5 + titleLines.length * titleSize * 1.15;
+    const artBottom = canvas.height - margin * 1.5 - authorSize;
+    const art = { x: margin, y: artTop, width: canvas.width - margin * 2, height: artBottom - artTop };
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(art.x, art.y, art.width, art.height);
+    const placement = fitWithin(sample.naturalWidth, sample.naturalHeight, {
+      x: art.x + margin * 0.4,
+      y: art.y + margin * 0.4,
+      width: art.width - margin * 0.8,
+      height: art.height - margin * 0.8
+    });
+    ctx.drawImage(sample, placement.x, placement.y, placement.width, placement.height);
+
+    if (project.metadata?.author) {
+      ctx.fillStyle = '#1f2937';
+      ctx.font = `${authorSize}px ${fontStack}`;
+      ctx.fillText(project.metadata.author, canvas.width / 2, canvas.height - margin - authorSize);
+    }
+
+    return canvas;
+  }
+
+  private renderFlatLay(ctx: CanvasRenderingContext2D, assets: MockupAssets, scene: Scene, width: number, height: number) {
+    const { cx, cy, unit } = scene;
+    drawWoodBackground(ctx, width, height, '#d2a77a', '#a9784c');
+
+    const bookWidth = unit * 0.46;
+    const bookHeight = bookWidth * (assets.cover.height / assets.cover.width);
+
+    // An interior page lies beside the book, partly underneath it
+    const page = rectQuad(cx + unit * 0.17, cy + unit * 0.02, bookWidth * 0.95, bookHeight * 0.95, 0.1, 0.97);
+    withShadow(ctx, unit, () => {
+      ctx.fillStyle = '#ffffff';
+      traceQuad(ctx, page);
+      ctx.fill();
+    });
+    drawImageToQuad(ctx, assets.pages[Math.min(1, assets.pages.length - 1)], page);
+
+    // Page block shows as a cream edge below and to the right of the cover
+    const cover = rectQuad(cx - unit * 0.12, cy - unit * 0.01, bookWidth, bookHeight, -0.09, 0.97);
+    const thickness = unit * 0.012;
+    const block = offsetQuad(cover, thickness * 0.7, thickness);
+    withShadow(ctx, unit, () => {
+      ctx.fillStyle = '#f4efe1';
+      traceQuad(ctx, block);
+      ctx.fill();
+    });
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.12)';
+    ctx.lineWidth = Math.max(1, unit / 1500);
+    [0.35, 0.65].forEach(fraction => {
+      traceQuad(ctx, offsetQuad(cover, thickness * 0.7 * fraction, thickness * fraction));
+      ctx.stroke();
+    });
+    drawImageToQuad(ctx, assets.cover, cover);
+
+    drawPencil(ctx, cx + unit * 0.08, cy + unit * 0.38, unit * 0.36, 0.12, PENCIL_COLORS[0]);
+    drawPencil(ctx, cx + unit * 0.14, cy + unit * 0.42, unit * 0.34, 0.05, PENCIL_COLORS[2]);
+    drawPencil(ctx, cx + unit * 0.2, cy + unit * 0.455, unit * 0.3, -0.02, PENCIL_COLORS[3]);
+  }
+
+  private renderPageStack(ctx: CanvasRenderingContext2D, assets: MockupAssets, scene: Scene, width: number, height: number) {
+    const { cx, cy, unit } = scene;
+    drawSoftBackground(ctx, width, height, '#faf3ea', '#e8d9c5');
+
+    const pageWidth = unit * 0.5;
+    const pageHeight = pageWidth * (assets.pages[0].height / assets.pages[0].width);
+    const placements: Array<[number, number, number]> = [
+      [-0.12, -0.01, -0.16],
+      [0.13, 0.0, 0.13],
+      [0, 0.02, -0.02]
+    ];
+
+    // Back pages first; the first sample lies on top
+    const order = [1, 2, 0];
+    placements.forEach(([dx, dy, angle], index) => {
+      const sheet = assets.pages[order[index] % assets.pages.length];
+      const quad = rectQuad(cx + unit * dx, cy + unit * dy, pageWidth, pageHeight, angle, 0.96);
+      withShadow(ctx, unit, () => {
+        ctx.fillStyle = '#ffffff';
+        traceQuad(ctx, quad);
+        ctx.fill();
+      });
+      drawImageToQuad(ctx, sheet, quad);
+    });
+  }
+
+  private renderTablet(ctx: CanvasRenderingContext2D, assets: MockupAssets, scene: Scene, width: number, height: number) {
+    const { cx, cy, unit } = scene;
+    drawSoftBackground(ctx, width, height, '#eef3f8', '#cfd9e4');
+
+    const sheet = assets.pages[0];
+    const screenWidth = unit * 0.5;
+    const screenHeight = screenWidth * (sheet.height / sheet.width);
+    const bezel = unit * 0.03;
+    const bodyWidth = screenWidth + bezel * 2;
+    const bodyHeight = screenHeight + bezel * 2;
+
+    const body = rectQuad(cx - unit * 0.03, cy, bodyWidth, bodyHeight, -0.07, 0.95);
+    withShadow(ctx, unit, () => {
+      ctx.fillStyle = '#1f2937';
+      traceRoundedQuad(ctx, body, 0.06);
+      ctx.fill();
+    });
+    ctx.strokeStyle = '#4b5563';
+    ctx.lineWidth = Math.max(1, unit / 700);
+    traceRoundedQuad(ctx, body, 0.06);
+    ctx.stroke();
+
+    // Screen corners are projected through the body so the bezel foreshortens evenly
+    const m = homographyFromSquare(body);
+    const bu = bezel / bodyWidth;
+    const bv = bezel / bodyHeight;
+    const screen: Quad = [mapPoint(m, bu, bv), mapPoint(m, 1 - bu, bv), mapPoint(m, 1 - bu, 1 - bv), mapPoint(m, bu, 1 - bv)];
+    drawImageToQuad(ctx, sheet, screen);
+
+    const camera = mapPoint(m, 0.5, bv / 2);
+    ctx.fillStyle = '#374151';
+    ctx.beginPath();
+    ctx.arc(camera.x, camera.y, unit * 0.004, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Soft glare across the glass
+    ctx.save();
+    traceQuad(ctx, screen);
+    ctx.clip();
+    const glare = ctx.createLinearGradient(screen[0].x, screen[0].y, screen[2].x, screen[2].y);
+    glare.addColorStop(0, 'rgba(255, 255, 255, 0.25)');
+    glare.addColorStop(0.45, 'rgba(255, 255, 255, 0)');
+    ctx.fillStyle = glare;
+    traceQuad(ctx, screen);
+    ctx.fill();
+    ctx.restore();
+
+    drawPencil(ctx, cx + unit * 0.31, cy + unit * 0.12, unit * 0.42, -1.35, '#d1d5db');
+  }
+
+  private renderColoringInProgress(ctx: CanvasRenderingContext2D, assets: MockupAssets, scene: Scene, width: number, height: number) {
+    const { cx, cy, unit } = scene;
+    drawWoodBackground(ctx, width, height, '#ead5b5', '#cfae85');
+
+    const sheet = assets.coloredPage;
+    const pageHeight = unit * 0.84;
+    const pageWidth = pageHeight * (sheet.width / sheet.height);
+    const page = rectQuad(cx - unit * 0.05, cy, pageWidth, pageHeight, -0.05, 0.9);
+    withShadow(ctx, unit, () => {
+      ctx.fillStyle = '#ffffff';
+      traceQuad(ctx, page);
+      ctx.fill();
+    });
+    drawImageToQuad(ctx, sheet, page);
+
+    // One pencil rests on the colored corner, the rest wait beside the page
+    const m = homographyFromSquare(page);
+    const tip = mapPoint(m, 0.45, 0.72);
+    drawPencil(ctx, tip.x, tip.y, unit * 0.42, 0.6, PENCIL_COLORS[1]);
+    [4, 5, 2].forEach((colorIndex, index) => {
+      drawPencil(ctx, cx + unit * (0.33 + index * 0.05), cy - unit * 0.3, unit * 0.36, 1.45 + index * 0.04, PENCIL_COLORS[colorIndex]);
+    });
+  }
+}
+
+export const mockupGenerator = new MockupGeneratorService();
+export default mockupGenerator;
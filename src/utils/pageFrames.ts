@@ -0,0 +1,325 @@
+/**
+ * Page Frames
+ * Library of vector page borders - rules, scalloped edges, themed corners and
+ * a page-number badge. Frames are built as plain shapes inside the safe area
+ * and rendered to PDF with jsPDF or to SVG for previews, EPUB and Canva.
+ */
+
+import type { jsPDF } from 'jspdf';
+import { PageFrameSettings, PageFrameStyle, FramePageType, TypographyProfile } from '../types';
+import { isMatterPageType } from './frontMatter';
+import { setPDFFont } from './typography';
+
+export interface FrameBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type Point = [number, number];
+
+export type FrameShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; lineWidth: number }
+  | { kind: 'circle'; x: number; y: number; radius: number; lineWidth: number; fill?: boolean }
+  | { kind: 'polygon'; points: Point[]; lineWidth: number; fill?: boolean };
+
+export interface FrameLayout {
+  style: PageFrameStyle;
+  shapes: FrameShape[];
+  // Area left for the page content, inside the frame
+  content: FrameBox;
+  badge?: { x: number; y: number; radius: number };
+}
+
+interface FrameSVGOptions {
+  pageLabel?: string;
+  fontFamily?: string;
+}
+
+export const FRAME_STYLE_LABELS: Record<PageFrameStyle, string> = {
+  none: 'No frame',
+  'simple-rule': 'Simple rule',
+  'double-rule': 'Double rule',
+  scalloped: 'Scalloped edge',
+  'star-corners': 'Star corners',
+  'leaf-corners': 'Leafy corners'
+};
+
+export const FRAME_PAGE_TYPE_LABELS: Record<FramePageType, string> = {
+  story: 'Story pages',
+  coloring: 'Coloring pages',
+  matter: 'Front & back matter'
+};
+
+export const DEFAULT_PAGE_FRAMES: PageFrameSettings = {
+  style: 'none',
+  numberBadge: false
+};
+
+// Gap between a frame and the content it surrounds, in inches
+const FRAME_PADDING = 0.15;
+const RULE_WIDTH = 0.02;
+const FINE_RULE_WIDTH = 0.01;
+const CORNER_SIZE = 0.22;
+const SCALLOP_DEPTH = 0.1;
+const SCALLOP_WIDTH = 0.3;
+const SCALLOP_SAMPLES = 8;
+const BADGE_RADIUS = 0.18;
+// Badge numbers are set in points
+const BADGE_FONT_SIZE = 9;
+
+const round4 = (value: number): number => Math.round(value * 10000) / 10000;
+
+const insetBox = (box: FrameBox, left: number, top = left, right = left, bottom = top): FrameBox => ({
+  x: round4(box.x + left),
+  y: round4(box.y + top),
+  width: round4(box.width - left - right),
+  height: round4(box.height - top - bottom)
+});
+
+// Clockwise from the top-left
+const boxCorners = (box: FrameBox): Point[] => [
+  [box.x, box.y],
+  [box.x + box.width, box.y],
+  [box.x + box.width, box.y + box.height],
+  [box.x, box.y + box.height]
+];
+
+// Walks the box clockwise with arcs bulging outwards; the tips touch the outer edge
+const scallopedOutline = (outer: FrameBox): Point[] => {
+  const corners = boxCorners(insetBox(outer, SCALLOP_DEPTH));
+  const points: Point[] = [];
+
+  corners.forEach((start, side) => {
+    const end = corners[(side + 1) % 4];
+    const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+    const dx = (end[0] - start[0]) / length;
+    const dy = (end[1] - start[1]) / length;
+    const count = Math.max(1, Math.round(length / SCALLOP_WIDTH));
+
+    for (let scallop = 0; scallop < count; scallop++) {
+      for (let step = 0; step < SCALLOP_SAMPLES; step++) {
+        const along = ((scallop + step / SCALLOP_SAMPLES) / count) * length;
+        const bulge = SCALLOP_DEPTH * Math.sin((Math.PI * step) / SCALLOP_SAMPLES);
+        // Outward normal of a clockwise walk with y pointing down
+        points.push([round4(start[0] + dx * along + dy * bulge), round4(start[1] + dy * along - dx * bulge)]);
+      }
+    }
+  });
+
+  return points;
+};
+
+const star = (cx: number, cy: number, radius: number): Point[] => {
+  return Array.from({ length: 10 }, (_, i) => {
+    const r = i % 2 === 0 ? radius : radius * 0.45;
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    return [round4(cx + r * Math.cos(angle)), round4(cy + r * Math.sin(angle))] as Point;
+  });
+};
+
+// Pointed leaf growing from (x, y) in the direction of angle
+const leaf = (x: number, y: number, length: number, width: number, angle: number): Point[] => {
+  const steps = 8;
+  const outline: Point[] = [];
+  for (let i = 0; i <= steps * 2; i++) {
+    const t = i <= steps ? i / steps : 2 - i / steps;
+    const side = i <= steps ? 1 : -1;
+    const along = t * length;
+    const across = side * (width / 2) * Math.sin(Math.PI * t);
+    outline.push([
+      round4(x + along * Math.cos(angle) - across * Math.sin(angle)),
+      round4(y + along * Math.sin(angle) + across * Math.cos(angle))
+    ]);
+  }
+  return outline;
+};
+
+const cornerOrnaments = (style: PageFrameStyle, rule: FrameBox): FrameShape[] => {
+  const shapes: FrameShape[] = [];
+
+  boxCorners(rule).forEach(([x, y], corner) => {
+    if (style === 'star-corners') {
+      shapes.push({ kind: 'polygon', points: star(x, y, CORNER_SIZE), lineWidth: FINE_RULE_WIDTH, fill: true });
+      return;
+    }
+
+    // Two leaves run along the rules away from each corner, tilted slightly inwards
+    const towardsRight = corner === 0 || corner === 3 ? 1 : -1;
+    const towardsBottom = corner < 2 ? 1 : -1;
+    const tilt = Math.PI / 12;
+    const length = CORNER_SIZE * 1.6;
+    const width = CORNER_SIZE * 0.5;
+    const alongTop = Math.atan2(towardsBottom * Math.sin(tilt), towardsRight * Math.cos(tilt));
+    const alongSide = Math.atan2(towardsBottom * Math.cos(tilt), towardsRight * Math.sin(tilt));
+
+    shapes.push({ kind: 'polygon', points: leaf(x, y, length, width, alongTop), lineWidth: FINE_RULE_WIDTH, fill: true });
+    shapes.push({ kind: 'polygon', points: leaf(x, y, length, width, alongSide), lineWidth: FINE_RULE_WIDTH, fill: true });
+    shapes.push({ kind: 'circle', x, y, radius: CORNER_SIZE * 0.3, lineWidth: FINE_RULE_WIDTH, fill: true });
+  });
+
+  return shapes;
+};
+
+// Fill in defaults for projects saved before frames existed
+export const resolvePageFrames = (settings?: Partial<PageFrameSettings>): PageFrameSettings => ({
+  ...DEFAULT_PAGE_FRAMES,
+  ...settings
+});
+
+// Covers and blank backs are never framed
+export const getFramePageType = (pageType: string): FramePageType | null => {
+  if (pageType === 'story' || pageType === 'activity') return 'story';
+  if (pageType === 'coloring') return 'coloring';
+  if (pageType === 'back' || pageType === 'contents' || isMatterPageType(pageType)) return 'matter';
+  return null;
+};
+
+export const getFrameStyle = (settings: PageFrameSettings, pageType: string): PageFrameStyle => {
+  const framePageType = getFramePageType(pageType);
+  if (!framePageType) return 'none';
+  return settings.byPageType?.[framePageType] || settings.style;
+};
+
+// Every style a book uses, for exporters that ship each frame as a file
+export const getUsedFrameStyles = (settings: PageFrameSettings, pageTypes: string[]): PageFrameStyle[] => {
+  const styles = new Set(pageTypes.map(type => getFrameStyle(settings, type)));
+  styles.delete('none');
+  return Array.from(styles);
+};
+
+// The frame's outer edge sits on the safe area, so nothing it draws can be trimmed.
+// With a badge, the bottom rule is raised so the badge straddles it
+export const buildFrameLayout = (style: PageFrameStyle, safeArea: FrameBox, badge = false): FrameLayout => {
+  const outer = badge ? insetBox(safeArea, 0, 0, 0, BADGE_RADIUS) : safeArea;
+  const shapes: FrameShape[] = [];
+  let frameDepth = 0;
+
+  switch (style) {
+    case 'simple-rule':
+      shapes.push({ kind: 'rect', ...outer, lineWidth: RULE_WIDTH });
+      frameDepth = RULE_WIDTH;
+      break;
+
+    case 'double-rule':
+      shapes.push({ kind: 'rect', ...outer, lineWidth: RULE_WIDTH * 1.5 });
+      shapes.push({ kind: 'rect', ...insetBox(outer, 0.06), lineWidth: FINE_RULE_WIDTH });
+      frameDepth = 0.06;
+      break;
+
+    case 'scalloped':
+      shapes.push({ kind: 'polygon', points: scallopedOutline(outer), lineWidth: RULE_WIDTH });
+      frameDepth = SCALLOP_DEPTH;
+      break;
+
+    case 'star-corners':
+    case 'leaf-corners': {
+      const rule = insetBox(outer, CORNER_SIZE);
+      shapes.push({ kind: 'rect', ...rule, lineWidth: FINE_RULE_WIDTH });
+      shapes.push(...cornerOrnaments(style, rule));
+      frameDepth = CORNER_SIZE * 2;
+      break;
+    }
+  }
+
+  const layout: FrameLayout = {
+    style,
+    shapes,
+    content: style === 'none' ? outer : insetBox(outer, frameDepth + FRAME_PADDING)
+  };
+
+  if (badge) {
+    layout.badge = { x: round4(safeArea.x + safeArea.width / 2), y: round4(outer.y + outer.height), radius: BADGE_RADIUS };
+    shapes.push({ kind: 'circle', ...layout.badge, lineWidth: RULE_WIDTH, fill: true });
+    // Keep content clear of the badge when there is no frame to hold it back
+    if (style === 'none') layout.content = insetBox(outer, 0, 0, 0, BADGE_RADIUS + FRAME_PADDING);
+  }
+
+  return layout;
+};
+
+// Layout for one page, or null when the page has neither frame nor badge
+export const getPageFrameLayout = (
+  settings: PageFrameSettings,
+  pageType: string,
+  safeArea: FrameBox,
+  numbered: boolean
+): FrameLayout | null => {
+  const style = getFrameStyle(settings, pageType);
+  const badge = settings.numberBadge && numbered && getFramePageType(pageType) !== null;
+  if (style === 'none' && !badge) return null;
+  return buildFrameLayout(style, safeArea, badge);
+};
+
+// Frames print in black only (white fills knock out the rule behind an ornament)
+export const drawPageFrame = (pdf: jsPDF, layout: FrameLayout, typography: TypographyProfile, pageLabel?: string) => {
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setFillColor(255, 255, 255);
+
+  layout.shapes.forEach(shape => {
+    pdf.setLineWidth(shape.lineWidth);
+    switch (shape.kind) {
+      case 'rect':
+        pdf.rect(shape.x, shape.y, shape.width, shape.height, 'S');
+        break;
+      case 'circle':
+        pdf.circle(shape.x, shape.y, shape.radius, shape.fill ? 'FD' : 'S');
+        break;
+      case 'polygon': {
+        // jsPDF draws polylines from relative steps
+        const [first, ...rest] = shape.points;
+        let previous = first;
+        const steps = rest.map(point => {
+          const step = [point[0] - previous[0], point[1] - previous[1]];
+          previous = point;
+          return step;
+        });
+        pdf.lines(steps, first[0], first[1], [1, 1], shape.fill ? 'FD' : 'S', true);
+        break;
+      }
+    }
+  });
+
+  if (layout.badge && pageLabel) {
+    setPDFFont(pdf, typography, 'bold');
+    // Long roman numerals shrink to stay inside the badge
+    pdf.setFontSize(BADGE_FONT_SIZE * Math.min(1, 3 / pageLabel.length));
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(pageLabel, layout.badge.x, layout.badge.y, { align: 'center', baseline: 'middle' });
+  }
+};
+
+// SVG in inch units over a width x height page
+export const frameToSVG = (layout: FrameLayout, width: number, height: number, options: FrameSVGOptions = {}): string => {
+  const elements = layout.shapes.map(shape => {
+    const paint = `stroke="#000" stroke-width="${shape.lineWidth}" fill="${'fill' in shape && shape.fill ? '#fff' : 'none'}"`;
+    switch (shape.kind) {
+      case 'rect':
+        return `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" ${paint}/>`;
+      case 'circle':
+        return `<circle cx="${shape.x}" cy="${shape.y}" r="${shape.radius}" ${paint}/>`;
+      case 'polygon':
+        return `<polygon points="${shape.points.map(point => point.join(',')).join(' ')}" ${paint}/>`;
+    }
+  });
+
+  if (layout.badge && options.pageLabel) {
+    const fontFamily = (options.fontFamily || 'Helvetica, Arial, sans-serif').replace(/"/g, "'");
+    elements.push(
+      `<text x="${layout.badge.x}" y="${layout.badge.y}" text-anchor="middle" dominant-baseline="central" ` +
+      `font-size="${(BADGE_FONT_SIZE * Math.min(1, 3 / options.pageLabel.length)) / 72}" font-weight="bold" font-family="${fontFamily}">${options.pageLabel}</text>`
+    );
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}in" height="${height}in" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none">${elements.join('')}</svg>`;
+};
+
+export const frameToDataURL = (layout: FrameLayout, width: number, height: number, options: FrameSVGOptions = {}): string => {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(frameToSVG(layout, width, height, options))}`;
+};
+
+// Stand-alone frame artwork for a page area, used by the EPUB and Canva exports
+export const frameStyleToSVG = (style: PageFrameStyle, width: number, height: number): string => {
+  return frameToSVG(buildFrameLayout(style, { x: 0, y: 0, width, height }), width, height);
+};
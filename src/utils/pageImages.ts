@@ -0,0 +1,370 @@
+/**
+ * Page Image Helpers
+ * Normalises page artwork (data URLs, bare base64, raw SVG markup, blob store
+ * references) into decoded rasters the publishing exporters can embed. Works on
+ * the main thread and inside workers, where decoding uses createImageBitmap and
+ * OffscreenCanvas.
+ */
+
+export interface LoadedPageImage {
+  dataUrl: string;
+  format: 'PNG' | 'JPEG';
+  width: number;
+  height: number;
+}
+
+export interface ImagePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImagePixels {
+  // RGBA, composited onto white
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+interface LoadImageOptions {
+  // Pixel width used when rasterising vector (SVG) artwork
+  rasterWidth?: number;
+  // Downscale raster artwork wider than this many pixels
+  maxWidth?: number;
+}
+
+interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  release: () => void;
+}
+
+type RasterCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Reads a stored image back from the blob store; workers never receive references
+type BlobRefLoader = (ref: string) => Promise<Blob>;
+
+// 8.5" at 300 DPI - enough for a full-page coloring image
+const DEFAULT_RASTER_WIDTH = 2550;
+
+// Artwork moved into the blob store is referenced as "cbe-blob:<sha-256>"
+export const BLOB_REF_PREFIX = 'cbe-blob:';
+
+let loadBlobRef: BlobRefLoader | null = null;
+
+// Object URLs for references, created the first time each one is needed
+const blobRefUrls = new Map<string, Promise<string>>();
+const objectUrlTypes = new Map<string, string>();
+
+export const setBlobRefLoader = (loader: BlobRefLoader): void => {
+  loadBlobRef = loader;
+};
+
+export const isBlobRef = (raw?: string | null): raw is string => !!raw && raw.trim().startsWith(BLOB_REF_PREFIX);
+
+// Convert whatever a page stores in imageUrl / imageData into a usable src.
+// Blob references pass through; resolveImageSource turns them into object URLs
+export const toImageSource = (raw?: string | null): string | null => {
+  const value = raw?.trim();
+  if (!value) return null;
+
+  if (value.startsWith(BLOB_REF_PREFIX) || value.startsWith('data:') || /^(https?:|blob:)/i.test(value)) {
+    return value;
+  }
+
+  if (value.includes('<svg')) {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(value)}`;
+  }
+
+  // Bare base64 - sniff the format from its leading bytes
+  if (value.startsWith('/9j/')) return `data:image/jpeg;base64,${value}`;
+  if (value.startsWith('PHN2Zy') || value.startsWith('PD94bWw')) {
+    return `data:image/svg+xml;base64,${value}`;
+  }
+  return `data:image/png;base64,${value}`;
+};
+
+export const getDataUrlMimeType = (dataUrl: string): string | null => {
+  const match = dataUrl.match(/^data:([^;,]+)/);
+  return match ? match[1].toLowerCase() : null;
+};
+
+// Data URLs carry their type; object URLs made for blob references are looked up
+export const getImageMimeType = (src: string): string | null => {
+  return getDataUrlMimeType(src) || objectUrlTypes.get(src) || null;
+};
+
+const getBlobRefBlob = async (ref: string): Promise<Blob> => {
+  if (!loadBlobRef) throw new Error('Stored images are not available here');
+  return loadBlobRef(ref.trim());
+};
+
+// Like toImageSource, but stored references come back as object URLs that <img> and fetch can load
+export const resolveImageSource = async (raw?: string | null): Promise<string | null> => {
+  if (!isBlobRef(raw)) return toImageSource(raw);
+
+  const ref = raw.trim();
+  let url = blobRefUrls.get(ref);
+  if (!url) {
+    url = getBlobRefBlob(ref).then(blob => {
+      const objectUrl = URL.createObjectURL(blob);
+      objectUrlTypes.set(objectUrl, blob.type.toLowerCase());
+      return objectUrl;
+    });
+    // A failed load is retried next time rather than cached
+    url.catch(() => blobRefUrls.delete(ref));
+    blobRefUrls.set(ref, url);
+  }
+  return url;
+};
+
+export const decodeImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Image could not be decoded'));
+    img.src = src;
+  });
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas could not be encoded'))), type, quality);
+  });
+};
+
+// Bytes of a data URL, read synchronously so they can be hashed during a database upgrade
+export const decodeDataUrl = (dataUrl: string): { bytes: Uint8Array; type: string } => {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice(5, comma);
+  const type = header.split(';')[0] || 'application/octet-stream';
+  const payload = dataUrl.slice(comma + 1);
+  if (!header.includes(';base64')) {
+    return { bytes: new TextEncoder().encode(decodeURIComponent(payload)), type };
+  }
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, type };
+};
+
+// Raw page artwork (data URL, bare base64, SVG markup, a URL or a blob reference) as uploadable bytes
+export const imageDataToBlob = async (raw: string): Promise<Blob> => {
+  if (isBlobRef(raw)) return getBlobRefBlob(raw);
+
+  const src = toImageSource(raw);
+  if (!src) throw new Error('No image data');
+  if (!src.startsWith('data:')) {
+    const response = await fetch(src);
+    return response.blob();
+  }
+
+  const { bytes, type } = decodeDataUrl(src);
+  return new Blob([bytes], { type });
+};
+
+// Workers have no DOM, so decoding and drawing go through bitmaps there
+const hasDOM = (): boolean => typeof document !== 'undefined';
+
+// Blob references are only known to be vector once resolved
+export const isVectorImage = (raw?: string | null): boolean => {
+  const src = toImageSource(raw);
+  return !!src && getImageMimeType(src) === 'image/svg+xml';
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Image could not be encoded'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+const decodeForCanvas = async (src: string): Promise<DecodedImage> => {
+  if (hasDOM()) {
+    const img = await decodeImage(src);
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, release: () => undefined };
+  }
+
+  // createImageBitmap cannot decode SVG; vector art is rasterised before it reaches a worker
+  if (getImageMimeType(src) === 'image/svg+xml') {
+    throw new Error('Vector artwork must be rasterised on the main thread');
+  }
+
+  try {
+    const blob = await (await fetch(src)).blob();
+    const bitmap = await createImageBitmap(blob);
+    return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+  } catch {
+    throw new Error('Image could not be decoded');
+  }
+};
+
+const createRasterCanvas = (width: number, height: number): RasterCanvas => {
+  if (!hasDOM()) {
+    return new OffscreenCanvas(Math.round(width), Math.round(height));
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  return canvas;
+};
+
+const encodeCanvas = async (canvas: RasterCanvas, type: string, quality?: number): Promise<string> => {
+  if ('toDataURL' in canvas) {
+    return canvas.toDataURL(type, quality);
+  }
+  return blobToDataUrl(await canvas.convertToBlob({ type, quality }));
+};
+
+const drawOnWhite = (image: DecodedImage, width: number, height: number) => {
+  const canvas = createRasterCanvas(width, height);
+
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  // Line art is usually transparent; print it on white paper
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image.source, 0, 0, canvas.width, canvas.height);
+
+  return { canvas, ctx };
+};
+
+const rasterise = async (
+  image: DecodedImage,
+  width: number,
+  height: number,
+  format: LoadedPageImage['format'] = 'PNG'
+): Promise<string> => {
+  const { canvas } = drawOnWhite(image, width, height);
+  return format === 'JPEG' ? encodeCanvas(canvas, 'image/jpeg', 0.92) : encodeCanvas(canvas, 'image/png');
+};
+
+// Decode a page image and return an embeddable PNG/JPEG with pixel dimensions
+export const loadPageImage = async (
+  raw: string | null | undefined,
+  options: LoadImageOptions = {}
+): Promise<LoadedPageImage> => {
+  const src = await resolveImageSource(raw);
+  if (!src) {
+    throw new Error('No image data');
+  }
+
+  const image = await decodeForCanvas(src);
+  const mimeType = getImageMimeType(src);
+
+  try {
+    let width = image.width;
+    let height = image.height;
+
+    if (mimeType === 'image/svg+xml') {
+      const rasterWidth = options.rasterWidth || DEFAULT_RASTER_WIDTH;
+      const aspect = width && height ? height / width : 1;
+      width = rasterWidth;
+      height = Math.round(rasterWidth * aspect);
+    }
+
+    if (!width || !height) {
+      throw new Error('Image has no pixel dimensions');
+    }
+
+    const isEmbeddable = mimeType === 'image/png' || mimeType === 'image/jpeg' || mimeType === 'image/jpg';
+    const format: LoadedPageImage['format'] = mimeType === 'image/png' || !isEmbeddable ? 'PNG' : 'JPEG';
+
+    // Oversized rasters bloat the PDF without adding printable detail
+    const downscale = options.maxWidth && width > options.maxWidth ? options.maxWidth / width : 1;
+    if (isEmbeddable && downscale === 1) {
+      // jsPDF embeds data URLs only, so stored images are read back losslessly
+      const dataUrl = src.startsWith('data:') ? src : await blobToDataUrl(await imageDataToBlob(src));
+      return { dataUrl, format, width, height };
+    }
+
+    width = Math.round(width * downscale);
+    height = Math.round(height * downscale);
+
+    // SVG, WebP, GIF and remote URLs are rasterised to PNG
+    return {
+      dataUrl: await rasterise(image, width, height, format),
+      format,
+      width,
+      height
+    };
+  } finally {
+    image.release();
+  }
+};
+
+// Raw pixels for colour conversion; the image is already sized for print.
+// maxDimension scales larger images down, e.g. for analysis
+export const readImagePixels = async (src: string, maxDimension?: number): Promise<ImagePixels> => {
+  const image = await decodeForCanvas(src);
+
+  try {
+    if (!image.width || !image.height) {
+      throw new Error('Image has no pixel dimensions');
+    }
+    const scale = maxDimension ? Math.min(1, maxDimension / Math.max(image.width, image.height)) : 1;
+    const { canvas, ctx } = drawOnWhite(image, Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return { data: pixels.data, width: pixels.width, height: pixels.height };
+  } finally {
+    image.release();
+  }
+};
+
+// Vector artwork can only be decoded with the DOM, so convert it before
+// handing pages to a worker. Raster images pass through untouched, stored ones
+// as object URLs the worker can fetch
+export const rasteriseVectorImage = async (
+  raw: string | null | undefined,
+  rasterWidth = DEFAULT_RASTER_WIDTH
+): Promise<string | undefined> => {
+  const src = await resolveImageSource(raw);
+  if (!src || getImageMimeType(src) !== 'image/svg+xml') {
+    return isBlobRef(raw) ? src || undefined : raw || undefined;
+  }
+  return (await loadPageImage(raw, { rasterWidth })).dataUrl;
+};
+
+// Scale an image to fit inside a box, preserving aspect ratio and centring it
+export const fitWithin = (
+  imageWidth: number,
+  imageHeight: number,
+  box: ImagePlacement
+): ImagePlacement => {
+  const scale = Math.min(box.width / imageWidth, box.height / imageHeight);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height
+  };
+};
+
+// Scale an image to cover a box, preserving aspect ratio; the overflow is cropped
+export const fillWithin = (
+  imageWidth: number,
+  imageHeight: number,
+  box: ImagePlacement
+): ImagePlacement => {
+  const scale = Math.max(box.width / imageWidth, box.height / imageHeight);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height
+  };
+};
@@ -0,0 +1,225 @@
+/**
+ * Page Numbering & Table of Contents
+ * Works out the printed number of every interior page - roman front matter,
+ * a chosen starting number, unnumbered illustrations - where it sits on the
+ * page, and the generated contents page listing chapters or coloring pages.
+ */
+
+import type { jsPDF } from 'jspdf';
+import { PageNumberingSettings, PageNumberPosition, TableOfContentsSource, TypographyProfile } from '../types';
+import { isFrontMatterType } from './frontMatter';
+import { isRectoPage } from './trimSizes';
+import { setPDFFont } from './typography';
+
+export interface PageLabel {
+  // null for pages outside the numbering sequence (the cover)
+  label: string | null;
+  // Whether the number is printed on the page
+  printed: boolean;
+}
+
+export interface ContentsEntry {
+  title: string;
+  label: string;
+  // Index of the listed page in the page sequence
+  pageIndex: number;
+}
+
+// What the contents page needs to know about each page
+export interface ContentsSourcePage {
+  type: string;
+  heading?: string;
+}
+
+export interface PageNumberPlacement {
+  x: number;
+  y: number;
+  align: 'left' | 'center' | 'right';
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const PAGE_NUMBER_POSITION_LABELS: Record<PageNumberPosition, string> = {
+  'bottom-center': 'Bottom centre',
+  'bottom-outer': 'Bottom outer corner',
+  'top-outer': 'Top outer corner'
+};
+
+export const TABLE_OF_CONTENTS_LABELS: Record<TableOfContentsSource, string> = {
+  none: 'No table of contents',
+  chapters: 'Story chapters',
+  coloring: 'Coloring pages'
+};
+
+export const DEFAULT_PAGE_NUMBERING: PageNumberingSettings = {
+  romanFrontMatter: false,
+  skipIllustrations: false,
+  startAt: 1,
+  position: 'bottom-center',
+  tableOfContents: 'none'
+};
+
+export const CONTENTS_TITLE = 'Contents';
+
+// Counted but never printed: blank backs and the title page stay clean
+const UNPRINTED_PAGE_TYPES = ['cover', 'blank', 'title'];
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+];
+
+export const toRoman = (value: number): string => {
+  let remaining = value;
+  let result = '';
+  ROMAN_NUMERALS.forEach(([amount, numeral]) => {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  });
+  return result;
+};
+
+// Fill in anything missing from older projects
+export const resolvePageNumbering = (settings?: Partial<PageNumberingSettings>): PageNumberingSettings => {
+  const resolved = { ...DEFAULT_PAGE_NUMBERING, ...settings };
+  resolved.startAt = Math.max(1, Math.round(resolved.startAt) || 1);
+  return resolved;
+};
+
+// Front matter is everything before the first page of the book proper
+const isFrontOfBook = (type: string): boolean => {
+  return type === 'cover' || type === 'contents' || type === 'blank' || isFrontMatterType(type);
+};
+
+// Index the contents page goes in: straight after the front matter
+export const findContentsPosition = (types: string[]): number => {
+  const index = types.findIndex(type => type !== 'cover' && type !== 'contents' && !isFrontMatterType(type));
+  return index < 0 ? types.length : index;
+};
+
+export const insertContentsPage = <T extends { type: string }>(pages: T[], contents: T): T[] => {
+  const position = findContentsPosition(pages.map(page => page.type));
+  return [...pages.slice(0, position), contents, ...pages.slice(position)];
+};
+
+// Interior pages as printed: any existing contents page is dropped and one is
+// inserted when the settings ask for a table of contents
+export const arrangeContentsPage = <T extends { type: string }>(pages: T[], settings: PageNumberingSettings, contents: T): T[] => {
+  const body = pages.filter(page => page.type !== 'contents');
+  return settings.tableOfContents === 'none' ? body : insertContentsPage(body, contents);
+};
+
+export const buildPageLabels = (types: string[], settings: PageNumberingSettings): PageLabel[] => {
+  const firstBody = types.findIndex(type => !isFrontOfBook(type));
+  let roman = 0;
+  let arabic = 0;
+
+  return types.map((type, index) => {
+    if (type === 'cover') return { label: null, printed: false };
+
+    const inFrontMatter = settings.romanFrontMatter && (firstBody < 0 || index < firstBody);
+    const label = inFrontMatter ? toRoman(++roman) : String(settings.startAt + arabic++);
+    const printed = !UNPRINTED_PAGE_TYPES.includes(type) && !(settings.skipIllustrations && type === 'coloring');
+
+    return { label, printed };
+  });
+};
+
+// Entries in reading order; untitled pages fall back to "Chapter 3" or "Coloring Page 3"
+export const buildContentsEntries = (
+  pages: ContentsSourcePage[],
+  labels: PageLabel[],
+  source: TableOfContentsSource
+): ContentsEntry[] => {
+  if (source === 'none') return [];
+
+  const listedType = source === 'chapters' ? 'story' : 'coloring';
+  const fallback = source === 'chapters' ? 'Chapter' : 'Coloring Page';
+  const entries: ContentsEntry[] = [];
+
+  pages.forEach((page, pageIndex) => {
+    const label = labels[pageIndex]?.label;
+    if (page.type !== listedType || !label) return;
+    entries.push({ title: page.heading?.trim() || `${fallback} ${entries.length + 1}`, label, pageIndex });
+  });
+
+  return entries;
+};
+
+// Outer corners mirror between left- and right-hand pages
+export const getPageNumberPlacement = (
+  position: PageNumberPosition,
+  pageNumber: number,
+  safeArea: Box,
+  trim: Box
+): PageNumberPlacement => {
+  const y = position === 'top-outer' ? trim.y + 0.35 : trim.y + trim.height - 0.25;
+
+  if (position === 'bottom-center') {
+    return { x: safeArea.x + safeArea.width / 2, y, align: 'center' };
+  }
+  return isRectoPage(pageNumber)
+    ? { x: safeArea.x + safeArea.width, y, align: 'right' }
+    : { x: safeArea.x, y, align: 'left' };
+};
+
+export const drawPageNumber = (
+  pdf: jsPDF,
+  label: string,
+  placement: PageNumberPlacement,
+  typography: TypographyProfile,
+  size = 8
+) => {
+  pdf.setFontSize(size);
+  setPDFFont(pdf, typography, 'normal');
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(label, placement.x, placement.y, { align: placement.align });
+};
+
+// Title left, number right, joined by a dotted leader. Long lists flow into
+// two columns and then tighten their leading to stay on one page
+export const drawTableOfContents = (pdf: jsPDF, entries: ContentsEntry[], area: Box, typography: TypographyProfile) => {
+  setPDFFont(pdf, typography, 'bold');
+  pdf.setFontSize(typography.headingSize);
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(CONTENTS_TITLE, area.x + area.width / 2, area.y + 0.4, { align: 'center' });
+
+  const top = area.y + 0.4 + (typography.headingSize / 72) * 1.6;
+  const available = area.y + area.height - top;
+  const idealLeading = (typography.fontSize / 72) * 1.8;
+  const columns = entries.length * idealLeading > available ? 2 : 1;
+  const perColumn = Math.max(1, Math.ceil(entries.length / columns));
+  const leading = Math.min(idealLeading, available / perColumn);
+  const fontSize = Math.min(typography.fontSize, (leading * 72) / 1.3);
+  const gap = 0.3;
+  const columnWidth = (area.width - gap * (columns - 1)) / columns;
+
+  setPDFFont(pdf, typography, 'normal');
+  pdf.setFontSize(fontSize);
+  pdf.setDrawColor(120, 120, 120);
+  pdf.setLineWidth(0.01);
+  pdf.setLineDashPattern([0.01, 0.05], 0);
+
+  entries.forEach((entry, index) => {
+    const x = area.x + Math.floor(index / perColumn) * (columnWidth + gap);
+    const y = top + (index % perColumn) * leading + fontSize / 72;
+    const labelWidth = pdf.getTextWidth(entry.label);
+    const title: string = pdf.splitTextToSize(entry.title, columnWidth - labelWidth - 0.3)[0] || '';
+
+    pdf.text(title, x, y);
+    pdf.text(entry.label, x + columnWidth, y, { align: 'right' });
+
+    const leaderStart = x + pdf.getTextWidth(title) + 0.08;
+    const leaderEnd = x + columnWidth - labelWidth - 0.08;
+    if (leaderEnd > leaderStart) pdf.line(leaderStart, y, leaderEnd, y);
+  });
+
+  pdf.setLineDashPattern([], 0);
+};
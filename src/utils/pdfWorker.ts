@@ -0,0 +1,170 @@
+/**
+ * PDF Worker Client
+ * Runs PDF assembly in a Web Worker so large books don't freeze the UI.
+ * Streams page progress back, supports cancellation through an AbortSignal,
+ * and falls back to the main thread where module workers are unavailable.
+ */
+
+import { PublishingOptions, ExportResult } from './advancedPublishing';
+import { InteriorPDFJob } from './interiorPDF';
+import { rasteriseVectorImage } from './pageImages';
+import { PDFRenderOptions, RenderProgress, RENDER_CANCELLED_MESSAGE } from './renderProgress';
+
+export type PDFRenderTask =
+  | { kind: 'interior'; job: InteriorPDFJob }
+  | { kind: 'kdp'; options: PublishingOptions };
+
+export type PDFWorkerRequest =
+  | { type: 'render'; id: number; task: PDFRenderTask }
+  | { type: 'cancel'; id: number };
+
+export type PDFWorkerResponse =
+  | { type: 'progress'; id: number; progress: RenderProgress }
+  | { type: 'done'; id: number; result: ExportResult };
+
+interface PendingRender {
+  task: PDFRenderTask;
+  options: PDFRenderOptions;
+  resolve: (result: ExportResult) => void;
+}
+
+class PDFWorkerService {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextId = 1;
+  private pending = new Map<number, PendingRender>();
+
+  // Interior pages from PDFExport
+  async renderInterior(job: InteriorPDFJob, options: PDFRenderOptions = {}): Promise<ExportResult> {
+    options.onProgress?.({ stage: 'preparing', completed: 0, total: job.pages.length });
+
+    const pages = await Promise.all(job.pages.map(async (page) => {
+      const imageData = page.type === 'coloring' ? page.content?.content?.imageData : undefined;
+      if (!imageData) return page;
+      return {
+        ...page,
+        content: { ...page.content, content: { ...page.content.content, imageData: await this.prepareImage(imageData) } }
+      };
+    }));
+
+    return this.run({ kind: 'interior', job: { ...job, pages } }, options);
+  }
+
+  // KDP interior built by the publishing service
+  async renderKDP(publishingOptions: PublishingOptions, options: PDFRenderOptions = {}): Promise<ExportResult> {
+    options.onProgress?.({ stage: 'preparing', completed: 0, total: publishingOptions.pages.length });
+
+    const pages = await Promise.all(publishingOptions.pages.map(async (page) => {
+      const source = page.imageData || page.imageUrl;
+      return source ? { ...page, imageData: await this.prepareImage(source), imageUrl: undefined } : page;
+    }));
+
+    return this.run({ kind: 'kdp', options: { ...publishingOptions, pages } }, options);
+  }
+
+  // Workers can't decode SVG, so vector artwork is rasterised here first
+  private async prepareImage(raw: string): Promise<string> {
+    try {
+      return (await rasteriseVectorImage(raw)) || raw;
+    } catch {
+      // Leave it to the renderer to report the undecodable image
+      return raw;
+    }
+  }
+
+  private async run(task: PDFRenderTask, options: PDFRenderOptions): Promise<ExportResult> {
+    if (options.signal?.aborted) {
+      return { success: false, cancelled: true, error: RENDER_CANCELLED_MESSAGE };
+    }
+
+    const worker = this.getWorker();
+    const result = worker
+      ? await this.runInWorker(worker, task, options)
+      : await this.runOnMainThread(task, options);
+
+    // Object URLs made inside a worker die with it, so always mint one here
+    if (result.success && result.blob) {
+      result.downloadUrl = URL.createObjectURL(result.blob);
+    }
+    return result;
+  }
+
+  private runInWorker(worker: Worker, task: PDFRenderTask, options: PDFRenderOptions): Promise<ExportResult> {
+    const id = this.nextId++;
+
+    return new Promise((resolve) => {
+      const onAbort = () => worker.postMessage({ type: 'cancel', id } as PDFWorkerRequest);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        task,
+        options,
+        resolve: (result) => {
+          options.signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        }
+      });
+
+      worker.postMessage({ type: 'render', id, task } as PDFWorkerRequest);
+    });
+  }
+
+  private async runOnMainThread(task: PDFRenderTask, options: PDFRenderOptions): Promise<ExportResult> {
+    if (task.kind === 'interior') {
+      const { interiorPDF } = await import('./interiorPDF');
+      return interiorPDF.render(task.job, options);
+    }
+    const { advancedPublishing } = await import('./advancedPublishing');
+    return advancedPublishing.generateKDPPDF(task.options, options);
+  }
+
+  private getWorker(): Worker | null {
+    if (this.workerFailed || typeof Worker === 'undefined') return null;
+
+    if (!this.worker) {
+      try {
+        this.worker = new Worker(new URL('../workers/pdfRender.worker.ts', import.meta.url), { type: 'module' });
+      } catch (error) {
+        console.warn('PDF worker unavailable, rendering on the main thread:', error);
+        this.workerFailed = true;
+        return null;
+      }
+
+      this.worker.onmessage = (event: MessageEvent<PDFWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => this.handleCrash(event.message || 'PDF worker crashed');
+    }
+
+    return this.worker;
+  }
+
+  private handleMessage(message: PDFWorkerResponse) {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    if (message.type === 'progress') {
+      pending.options.onProgress?.(message.progress);
+      return;
+    }
+
+    this.pending.delete(message.id);
+    pending.resolve(message.result);
+  }
+
+  // A worker that fails to load or crashes can't finish its jobs; finish them
+  // on the main thread and stop using workers for this session
+  private handleCrash(reason: string) {
+    console.warn('PDF worker failed, rendering on the main thread:', reason);
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    pending.forEach(({ task, options, resolve }) => {
+      this.runOnMainThread(task, options).then(resolve);
+    });
+  }
+}
+
+export const pdfWorker = new PDFWorkerService();
+export default pdfWorker;
@@ -3,20 +3,46 @@
  * Supports IndexedDB, localStorage, and backend synchronization
  */
 
-import { Project, StoryData, APISettings, DrawingSettings, ExportSettings } from '../types';
+import {
+  Project,
+  StoryData,
+  APISettings,
+  DrawingSettings,
+  ExportSettings,
+  StorageMetadata,
+  SyncConflict,
+  SyncRecordType
+} from '../types';
 import backendAPI from './backendAPI';
+import { SyncChoice, mergeRecords, pickSyncFields, resolveConflicts } from './syncMerge';
+import { imageDataToBlob, isBlobRef } from './pageImages';
+import { StoredBlob, blobStore, extractImages, collectBlobRefs } from './blobStore';
+import {
+  MigrationReport,
+  MIGRATED_STORES,
+  LATEST_STORAGE_VERSION,
+  getPendingMigrations,
+  migrateRecord,
+  migrateBackup,
+  createMigrationReport
+} from './storageMigrations';
 
 // Storage configuration
 const STORAGE_CONFIG = {
   dbName: 'ColorBookEngine',
-  dbVersion: 1,
+  dbVersion: LATEST_STORAGE_VERSION,
   stores: {
     projects: 'projects',
     stories: 'stories', 
     settings: 'settings',
     images: 'images',
     drawings: 'drawings',
-    exports: 'exports'
+    exports: 'exports',
+    // Added by schema migration 3
+    syncBases: 'syncBases',
+    syncConflicts: 'syncConflicts',
+    // Added by schema migration 4
+    blobs: 'blobs'
   },
   localStorageKeys: {
     apiSettings: 'cbe_api_settings',
@@ -24,19 +50,32 @@ const STORAGE_CONFIG = {
     exportSettings: 'cbe_export_settings',
     userPreferences: 'cbe_user_preferences',
     lastSync: 'cbe_last_sync',
-    syncQueue: 'cbe_sync_queue'
+    syncQueue: 'cbe_sync_queue',
+    migrationLog: 'cbe_migration_log',
+    deadLetters: 'cbe_sync_dead_letters'
   }
 };
 
-interface StorageMetadata {
-  id: string;
-  type: string;
-  version: number;
-  createdAt: string;
-  updatedAt: string;
-  size?: number;
-  syncStatus: 'local' | 'synced' | 'conflict' | 'syncing';
-  cloudId?: string;
+// Migration reports kept in localStorage
+const MIGRATION_LOG_LIMIT = 20;
+
+// Failed syncs back off exponentially, then go to the dead-letter list
+const MAX_SYNC_RETRIES = 5;
+const SYNC_BACKOFF_BASE_MS = 2000;
+const SYNC_BACKOFF_MAX_MS = 10 * 60 * 1000;
+
+// Images above this size upload in chunks through a resumable session
+const RESUMABLE_UPLOAD_THRESHOLD = 2 * 1024 * 1024;
+const UPLOAD_CHUNK_SIZE = 512 * 1024;
+// Milliseconds between upload progress updates to the UI
+const PROGRESS_NOTICE_INTERVAL = 250;
+
+interface SyncBase {
+  // "<type>:<id>"
+  key: string;
+  version: number | null;
+  data: Record<string, any>;
+  syncedAt: string;
 }
 
 interface SyncQueueItem {
@@ -47,6 +86,22 @@ interface SyncQueueItem {
   timestamp: string;
   retryCount: number;
   status: 'pending' | 'syncing' | 'synced' | 'failed';
+  // Resumable upload session of a large image, kept across reloads
+  upload?: { id: string; received: number; total: number };
+  // Backoff: the item is skipped until then
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+export interface DeadLetterItem extends SyncQueueItem {
+  failedAt: string;
+}
+
+export interface SyncUploadProgress {
+  id: string;
+  type: 'image' | 'drawing';
+  loaded: number;
+  total: number;
 }
 
 class PersistentStorageManager {
@@ -54,6 +109,12 @@ class PersistentStorageManager {
   private isOnline: boolean = navigator.onLine;
   private syncQueue: SyncQueueItem[] = [];
   private syncInProgress: boolean = false;
+  private conflictCount: number = 0;
+  private changeListeners = new Set<() => void>();
+  private uploadProgress: SyncUploadProgress | null = null;
+  private progressListeners = new Set<() => void>();
+  private lastProgressNotice: number = 0;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     // Monitor online status
@@ -64,6 +125,7 @@ class PersistentStorageManager {
     
     window.addEventListener('offline', () => {
       this.isOnline = false;
+      this.clearSyncTimer();
     });
 
     // Load sync queue from localStorage
@@ -80,11 +142,18 @@ class PersistentStorageManager {
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
         this.db = request.result;
+        blobStore.attach(this.db);
+        this.refreshConflictCount();
         resolve();
+        // Pick up where the last session left off, including half-finished uploads
+        if (this.syncQueue.length > 0) {
+          this.processSyncQueue();
+        }
       };
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
+        const transaction = (event.target as IDBOpenDBRequest).transaction!;
 
         // Create object stores
         if (!db.objectStoreNames.contains(STORAGE_CONFIG.stores.projects)) {
@@ -92,7 +161,7 @@ class PersistentStorageManager {
           projectStore.createIndex('title', 'title', { unique: false });
           projectStore.createIndex('createdAt', 'createdAt', { unique: false });
           projectStore.createIndex('updatedAt', 'updatedAt', { unique: false });
-          projectStore.createIndex('syncStatus', 'metadata.syncStatus', { unique: false });
+          projectStore.createIndex('syncStatus', 'storage.syncStatus', { unique: false });
         }
 
         if (!db.objectStoreNames.contains(STORAGE_CONFIG.stores.stories)) {
@@ -121,10 +190,60 @@ class PersistentStorageManager {
         if (!db.objectStoreNames.contains(STORAGE_CONFIG.stores.settings)) {
           db.createObjectStore(STORAGE_CONFIG.stores.settings, { keyPath: 'key' });
         }
+
+        // New databases take every schema step; existing ones also have their records migrated
+        this.migrateDatabase(transaction, event.oldVersion);
       };
     });
   }
 
+  /**
+   * Run pending schema migrations inside the upgrade transaction
+   */
+  private migrateDatabase(transaction: IDBTransaction, fromVersion: number): void {
+    const migrations = getPendingMigrations(fromVersion, STORAGE_CONFIG.dbVersion);
+    const report = createMigrationReport('database', fromVersion, migrations, STORAGE_CONFIG.dbVersion);
+    const context = {
+      storeBlob: (blob: StoredBlob) => {
+        transaction.objectStore(STORAGE_CONFIG.stores.blobs).put(blob);
+      }
+    };
+
+    migrations.forEach(migration => migration.upgradeSchema?.(transaction, context));
+    if (fromVersion === 0) return;
+
+    MIGRATED_STORES.forEach(storeName => {
+      const request = transaction.objectStore(STORAGE_CONFIG.stores[storeName]).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.update(migrateRecord(storeName, cursor.value, migrations, report.applied, context));
+        cursor.continue();
+      };
+    });
+
+    // Counts are final once the upgrade transaction commits
+    transaction.addEventListener('complete', () => {
+      this.logMigration(report);
+    });
+  }
+
+  // Shown under Storage Management
+  private logMigration(report: MigrationReport): void {
+    const history = [...this.getMigrationHistory(), report].slice(-MIGRATION_LOG_LIMIT);
+    localStorage.setItem(STORAGE_CONFIG.localStorageKeys.migrationLog, JSON.stringify(history));
+  }
+
+  getMigrationHistory(): MigrationReport[] {
+    try {
+      const history = localStorage.getItem(STORAGE_CONFIG.localStorageKeys.migrationLog);
+      return history ? JSON.parse(history) : [];
+    } catch (error) {
+      console.error('Error reading migration history:', error);
+      return [];
+    }
+  }
+
   /**
    * Generic IndexedDB operations
    */
@@ -150,12 +269,14 @@ class PersistentStorageManager {
   /**
    * Project Storage Operations
    */
-  async saveProject(project: Project): Promise<void> {
+  async saveProject(project: Project): Promise<Project> {
     const existing = await this.getProject(project.id);
-    const action = existing ? 'update' : 'create';
-    const projectWithMetadata = existing
-      ? { ...existing, ...project, metadata: { ...existing.metadata, updatedAt: new Date().toISOString() } }
-      : { ...project, metadata: this.createMetadata(project.id, 'project') };
+    // Only records the server has seen can be updated there
+    const action = existing?.storage?.cloudId ? 'update' : 'create';
+    // Pages keep references; the artwork itself goes to the blob store
+    const projectWithMetadata = await this.storeImages(existing
+      ? { ...existing, ...project, storage: this.touchMetadata(existing.storage, project.id, 'project') }
+      : { ...project, storage: this.createMetadata(project.id, 'project') });
 
     await this.dbOperation(
       STORAGE_CONFIG.stores.projects,
@@ -174,6 +295,7 @@ class PersistentStorageManager {
     });
 
     console.log('Project saved to IndexedDB:', project.title);
+    return projectWithMetadata;
   }
 
   async getProject(id: string): Promise<Project | null> {
@@ -205,6 +327,8 @@ class PersistentStorageManager {
   }
 
   async deleteProject(id: string): Promise<void> {
+    // The server id goes with the queued delete, since the record itself is about to go
+    const cloudId = (await this.getProject(id))?.storage?.cloudId;
     await this.dbOperation(
       STORAGE_CONFIG.stores.projects,
       'readwrite',
@@ -215,12 +339,14 @@ class PersistentStorageManager {
     await this.deleteProjectStories(id);
     await this.deleteProjectImages(id);
     await this.deleteProjectDrawings(id);
+    await this.pruneBlobs();
 
     // Add to sync queue
     this.addToSyncQueue({
       id,
       action: 'delete',
       type: 'project',
+      data: { cloudId },
       timestamp: new Date().toISOString(),
       retryCount: 0,
       status: 'pending'
@@ -241,10 +367,10 @@ class PersistentStorageManager {
         )
       : null;
     const id = story.id || this.generateId();
-    const action = existing ? 'update' : 'create';
-    const storyWithMetadata = existing
-      ? { ...existing, ...story, id, projectId, metadata: { ...existing.metadata, updatedAt: new Date().toISOString() } }
-      : { ...story, id, projectId, metadata: this.createMetadata(id, 'story') };
+    const action = existing?.storage?.cloudId ? 'update' : 'create';
+    const storyWithMetadata = await this.storeImages(existing
+      ? { ...existing, ...story, id, projectId, storage: this.touchMetadata(existing.storage, id, 'story') }
+      : { ...story, id, projectId, storage: this.createMetadata(id, 'story') });
 
     await this.dbOperation(
       STORAGE_CONFIG.stores.stories,
@@ -303,10 +429,14 @@ class PersistentStorageManager {
     data: string;
     metadata?: any;
   }): Promise<void> {
+    const existing = await this.getRecord(STORAGE_CONFIG.stores.images, imageData.id);
+    const stored = await this.storeImages(imageData);
     const imageWithMetadata = {
-      ...imageData,
-      metadata: this.createMetadata(imageData.id, 'image'),
-      size: new Blob([imageData.data]).size
+      ...stored,
+      storage: existing
+        ? this.touchMetadata(existing.storage, imageData.id, 'image')
+        : this.createMetadata(imageData.id, 'image'),
+      size: await this.getImageSize(stored.data)
     };
 
     await this.dbOperation(
@@ -315,11 +445,11 @@ class PersistentStorageManager {
       (store) => store.put(imageWithMetadata)
     );
 
+    // The image itself is read back from IndexedDB when it syncs, not kept in the queue
     this.addToSyncQueue({
       id: imageData.id,
-      action: 'update',
+      action: existing?.storage?.cloudId ? 'update' : 'create',
       type: 'image',
-      data: imageWithMetadata,
       timestamp: new Date().toISOString(),
       retryCount: 0,
       status: 'pending'
@@ -363,10 +493,14 @@ class PersistentStorageManager {
     canvasData: string;
     metadata?: any;
   }): Promise<void> {
+    const existing = await this.getRecord(STORAGE_CONFIG.stores.drawings, drawingData.id);
+    const stored = await this.storeImages(drawingData);
     const drawingWithMetadata = {
-      ...drawingData,
-      metadata: this.createMetadata(drawingData.id, 'drawing'),
-      size: new Blob([drawingData.canvasData]).size
+      ...stored,
+      storage: existing
+        ? this.touchMetadata(existing.storage, drawingData.id, 'drawing')
+        : this.createMetadata(drawingData.id, 'drawing'),
+      size: await this.getImageSize(stored.canvasData)
     };
 
     await this.dbOperation(
@@ -374,6 +508,15 @@ class PersistentStorageManager {
       'readwrite',
       (store) => store.put(drawingWithMetadata)
     );
+
+    this.addToSyncQueue({
+      id: drawingData.id,
+      action: existing?.storage?.cloudId ? 'update' : 'create',
+      type: 'drawing',
+      timestamp: new Date().toISOString(),
+      retryCount: 0,
+      status: 'pending'
+    });
   }
 
   async getProjectDrawings(projectId: string): Promise<any[]> {
@@ -500,91 +643,562 @@ class PersistentStorageManager {
     }
   }
 
-  private async processSyncQueue(): Promise<void> {
+  // Force ignores backoff, for when the user asks to sync now
+  private async processSyncQueue(force: boolean = false): Promise<void> {
     if (this.syncInProgress || !this.isOnline || this.syncQueue.length === 0) {
       return;
     }
 
     this.syncInProgress = true;
+    this.clearSyncTimer();
     console.log('Processing sync queue:', this.syncQueue.length, 'items');
 
-    const processedItems: string[] = [];
+    const finished = new Set<SyncQueueItem>();
+    const deadLetters: DeadLetterItem[] = [];
     
     for (const item of this.syncQueue) {
+      if (!force && item.nextAttemptAt && new Date(item.nextAttemptAt).getTime() > Date.now()) {
+        continue;
+      }
+
       try {
         item.status = 'syncing';
         this.saveSyncQueue();
         await this.syncToBackend(item);
         item.status = 'synced';
-        processedItems.push(item.id);
+        finished.add(item);
       } catch (error) {
         console.error('Sync failed for item:', item.id, error);
         item.retryCount++;
         item.status = 'failed';
-
-        // Remove items that have failed too many times
-        if (item.retryCount > 3) {
-          processedItems.push(item.id);
+        item.lastError = error instanceof Error ? error.message : String(error);
+
+        if (item.retryCount > MAX_SYNC_RETRIES) {
+          // Kept for the user to retry or discard rather than dropped
+          finished.add(item);
+          deadLetters.push({ ...item, nextAttemptAt: undefined, failedAt: new Date().toISOString() });
+        } else {
+          item.nextAttemptAt = new Date(Date.now() + this.getRetryDelay(item.retryCount)).toISOString();
         }
       }
     }
 
-    // Remove processed items from queue
-    this.syncQueue = this.syncQueue.filter(item => !processedItems.includes(item.id));
+    // Remove finished items from queue
+    const synced = Array.from(finished).filter(item => item.status === 'synced').length;
+    this.syncQueue = this.syncQueue.filter(item => !finished.has(item));
     this.saveSyncQueue();
+    if (deadLetters.length > 0) {
+      this.saveDeadLetters([...this.getDeadLetters(), ...deadLetters]);
+    }
     this.syncInProgress = false;
 
-    if (processedItems.length > 0) {
+    if (synced > 0) {
       localStorage.setItem(
         STORAGE_CONFIG.localStorageKeys.lastSync,
         new Date().toISOString()
       );
     }
 
+    this.scheduleNextSync();
+    this.progressListeners.forEach(listener => listener());
     console.log('Sync queue processed. Remaining items:', this.syncQueue.length);
   }
 
+  // Equal jitter: between half and all of the exponential ceiling, so clients don't retry in step
+  private getRetryDelay(retryCount: number): number {
+    const ceiling = Math.min(SYNC_BACKOFF_MAX_MS, SYNC_BACKOFF_BASE_MS * 2 ** (retryCount - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  private getNextRetryAt(): string | null {
+    const times = this.syncQueue
+      .map(item => item.nextAttemptAt)
+      .filter((time): time is string => !!time)
+      .sort();
+    return times[0] || null;
+  }
+
+  private scheduleNextSync(): void {
+    this.clearSyncTimer();
+    const nextRetryAt = this.getNextRetryAt();
+    if (!nextRetryAt || !this.isOnline) return;
+
+    const delay = Math.max(0, new Date(nextRetryAt).getTime() - Date.now());
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.processSyncQueue();
+    }, delay);
+  }
+
+  private clearSyncTimer(): void {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  /**
+   * Dead-letter list: syncs that used up their retries
+   */
+  getDeadLetters(): DeadLetterItem[] {
+    try {
+      const items = localStorage.getItem(STORAGE_CONFIG.localStorageKeys.deadLetters);
+      return items ? JSON.parse(items) : [];
+    } catch (error) {
+      console.error('Error loading dead letters:', error);
+      return [];
+    }
+  }
+
+  private saveDeadLetters(items: DeadLetterItem[]): void {
+    localStorage.setItem(STORAGE_CONFIG.localStorageKeys.deadLetters, JSON.stringify(items));
+  }
+
+  // Items are told apart by what they were for and when they were queued
+  getDeadLetterKey(item: DeadLetterItem): string {
+    return `${item.type}:${item.id}:${item.timestamp}`;
+  }
+
+  // Back into the queue with a fresh retry budget; no key retries them all
+  retryDeadLetters(key?: string): void {
+    const items = this.getDeadLetters();
+    const retry = items.filter(item => !key || this.getDeadLetterKey(item) === key);
+    this.saveDeadLetters(items.filter(item => !retry.includes(item)));
+
+    retry.forEach(item => {
+      this.syncQueue.push({
+        id: item.id,
+        action: item.action,
+        type: item.type,
+        data: item.data,
+        timestamp: item.timestamp,
+        upload: item.upload,
+        retryCount: 0,
+        status: 'pending'
+      });
+    });
+    this.saveSyncQueue();
+    this.processSyncQueue(true);
+  }
+
+  discardDeadLetters(key?: string): void {
+    this.saveDeadLetters(key ? this.getDeadLetters().filter(item => this.getDeadLetterKey(item) !== key) : []);
+    this.progressListeners.forEach(listener => listener());
+  }
+
   private async syncToBackend(item: SyncQueueItem): Promise<void> {
+    switch (item.type) {
+      case 'project':
+      case 'story':
+        return this.syncRecord(item, item.type);
+      case 'image':
+        return this.syncImage(item);
+      case 'drawing':
+        return this.syncDrawing(item);
+      default:
+        return;
+    }
+  }
+
+  private async syncRecord(item: SyncQueueItem, type: SyncRecordType): Promise<void> {
+    if (item.action === 'delete') {
+      // A record that never reached the server has nothing to delete there
+      const cloudId: string | undefined = item.data?.cloudId;
+      if (cloudId) {
+        const response = type === 'project'
+          ? await backendAPI.deleteProject(cloudId)
+          : await backendAPI.deleteStory(cloudId);
+        if (response?.error) {
+          throw new Error(response.message || response.error);
+        }
+      }
+      await this.dbOperation(STORAGE_CONFIG.stores.syncBases, 'readwrite', (store) => store.delete(`${type}:${item.id}`));
+      return;
+    }
+
+    const storeName = this.getStoreForType(type)!;
+    // Push what the record holds now, which may be newer than the queued copy;
+    // one deleted since it was queued is not pushed at all
+    const local = await this.getRecord(storeName, item.id);
+    // Records waiting on the user are pushed again once the conflict is resolved
+    if (!local || local.storage?.syncStatus === 'conflict') return;
+
+    try {
+      await this.patchStorage(storeName, item.id, { syncStatus: 'syncing' });
+
+      // The server has no blob store, so artwork goes up inline
+      const payload = await blobStore.inlineImages(pickSyncFields(type, local));
+      const baseVersion: number | undefined = local.storage?.baseVersion;
+      // Decided now rather than when queued: an earlier create may have finished since
+      const cloudId: string | undefined = local.storage?.cloudId;
+      let response: { data?: any; error?: string; message?: string; status?: number };
+
+      if (type === 'project') {
+        response = cloudId
+          ? await backendAPI.updateProject(cloudId, { ...payload, baseVersion })
+          : await backendAPI.createProject(payload);
+      } else {
+        // Stories are filed under the server's id for their project; retried until it has one
+        const projectCloudId = (await this.getProject(local.projectId))?.storage?.cloudId;
+        if (!cloudId && !projectCloudId) {
+          throw new Error('Waiting for the project to sync first');
+        }
+        response = cloudId
+          ? await backendAPI.updateStory(cloudId, { ...payload, baseVersion })
+          : await backendAPI.createStory({ ...payload, projectId: projectCloudId });
+      }
+
+      // Stored the same way as local copies so identical artwork compares equal when merging
+      const remote = response.data?.[type] ? await this.storeImages(response.data[type]) : undefined;
+      if (response.status === 409 && remote) {
+        await this.handleSyncConflict(type, local, remote);
+        return;
+      }
+      if (response.error) {
+        throw new Error(response.message || response.error);
+      }
+
+      await this.markSynced(type, local, remote);
+    } catch (error) {
+      await this.patchStorage(storeName, item.id, { syncStatus: 'local' });
+      throw error;
+    }
+  }
+
+  private async syncImage(item: SyncQueueItem): Promise<void> {
+    const storeName = STORAGE_CONFIG.stores.images;
+    const local = await this.getRecord(storeName, item.id);
+    if (!local || local.storage?.syncStatus === 'synced') return;
+
     try {
-      await this.updateSyncStatus(item.type, item.id, 'syncing');
-
-      let response: { error?: string; message?: string } | undefined;
-
-      switch (item.type) {
-        case 'project':
-          if (item.action === 'delete') {
-            response = await backendAPI.deleteProject(item.id);
-          } else if (item.action === 'create') {
-            response = await backendAPI.createProject(item.data);
-          } else {
-            response = await backendAPI.updateProject(item.id, item.data);
-          }
-          break;
-        case 'story':
-          if (item.action === 'delete') {
-            response = await backendAPI.deleteStory(item.id);
-          } else if (item.action === 'create') {
-            response = await backendAPI.createStory(item.data);
-          } else {
-            response = await backendAPI.updateStory(item.id, item.data);
-          }
-          break;
-        default:
-          return;
+      await this.patchStorage(storeName, item.id, { syncStatus: 'syncing' });
+      const previous = local.storage?.cloudId;
+      const remote = await this.uploadImageData(item, 'image', local.data, {
+        localId: local.id,
+        projectId: local.projectId,
+        type: local.type,
+        metadata: local.metadata
+      });
+
+      await this.markUploaded(storeName, local, {
+        cloudId: String(remote.id),
+        ...(remote.url ? { remoteUrl: remote.url } : {})
+      });
+      // A replaced image leaves its earlier upload behind
+      if (previous && previous !== String(remote.id)) {
+        await backendAPI.deleteImage(previous);
       }
+    } catch (error) {
+      await this.patchStorage(storeName, item.id, { syncStatus: 'local' });
+      throw error;
+    }
+  }
 
-      if (response?.error) {
-        await this.updateSyncStatus(item.type, item.id, 'conflict');
-        throw new Error(response.error || response.message || 'Sync failed');
+  private async syncDrawing(item: SyncQueueItem): Promise<void> {
+    const storeName = STORAGE_CONFIG.stores.drawings;
+    const local = await this.getRecord(storeName, item.id);
+    if (!local || local.storage?.syncStatus === 'synced') return;
+
+    try {
+      await this.patchStorage(storeName, item.id, { syncStatus: 'syncing' });
+      // The canvas goes up as an image; the drawing record only references it
+      const image = await this.uploadImageData(item, 'drawing', local.canvasData, {
+        localId: local.id,
+        projectId: local.projectId,
+        type: 'drawing'
+      });
+      const payload = {
+        localId: local.id,
+        projectId: local.projectId,
+        imageId: image.id,
+        imageUrl: image.url,
+        metadata: local.metadata
+      };
+      const cloudId = local.storage?.cloudId;
+      const response = cloudId
+        ? await backendAPI.updateDrawing(cloudId, payload)
+        : await backendAPI.saveDrawing(payload);
+      if (response.error || !response.data?.drawing) {
+        throw new Error(response.message || response.error || 'Drawing was not saved');
       }
 
-      await this.updateSyncStatus(item.type, item.id, 'synced');
+      const previousImage = local.storage?.remoteImageId;
+      await this.markUploaded(storeName, local, {
+        cloudId: String(response.data.drawing.id),
+        remoteImageId: String(image.id),
+        ...(image.url ? { remoteUrl: image.url } : {})
+      });
+      if (previousImage && previousImage !== String(image.id)) {
+        await backendAPI.deleteImage(previousImage);
+      }
     } catch (error) {
-      await this.updateSyncStatus(item.type, item.id, 'conflict');
+      await this.patchStorage(storeName, item.id, { syncStatus: 'local' });
       throw error;
     }
   }
 
+  // Upload base64 artwork as a file, in resumable chunks when it is large
+  private async uploadImageData(item: SyncQueueItem, type: SyncUploadProgress['type'], raw: string, metadata: any): Promise<any> {
+    const blob = await imageDataToBlob(raw);
+    const report = (loaded: number) => this.setUploadProgress({ id: item.id, type, loaded, total: blob.size });
+    report(0);
+
+    try {
+      const response = blob.size > RESUMABLE_UPLOAD_THRESHOLD
+        ? await this.uploadResumable(item, blob, metadata, report)
+        : await backendAPI.uploadImage(blob, metadata, loaded => report(loaded));
+      if (response.error || !response.data?.image) {
+        throw new Error(response.message || response.error || 'Image upload failed');
+      }
+      return response.data.image;
+    } finally {
+      this.setUploadProgress(null);
+    }
+  }
+
+  private async uploadResumable(
+    item: SyncQueueItem,
+    blob: Blob,
+    metadata: any,
+    report: (loaded: number) => void
+  ): Promise<{ data?: { image: any }; error?: string; message?: string }> {
+    // A session saved before a reload carries on from what the server received
+    let session = item.upload?.total === blob.size ? item.upload : undefined;
+    if (session) {
+      const status = await backendAPI.getImageUpload(session.id);
+      session = status.data?.upload ? { ...session, received: status.data.upload.received } : undefined;
+    }
+    if (!session) {
+      const started = await backendAPI.startImageUpload({ ...metadata, size: blob.size, mimeType: blob.type });
+      if (started.error || !started.data?.upload) {
+        throw new Error(started.message || started.error || 'Upload could not start');
+      }
+      session = { id: String(started.data.upload.id), received: 0, total: blob.size };
+    }
+
+    item.upload = session;
+    this.saveSyncQueue();
+
+    while (session.received < blob.size) {
+      const start: number = session.received;
+      const chunk = blob.slice(start, Math.min(start + UPLOAD_CHUNK_SIZE, blob.size));
+      report(start);
+      const response = await backendAPI.uploadImageChunk(session.id, chunk, start, blob.size, loaded => report(start + loaded));
+      if (response.error) {
+        throw new Error(response.message || response.error);
+      }
+      session = { ...session, received: response.data?.upload?.received ?? start + chunk.size };
+      item.upload = session;
+      this.saveSyncQueue();
+    }
+
+    const completed = await backendAPI.completeImageUpload(session.id);
+    if (!completed.error) {
+      item.upload = undefined;
+      this.saveSyncQueue();
+    }
+    return completed;
+  }
+
+  private async markUploaded(storeName: string, local: any, patch: Partial<StorageMetadata>): Promise<void> {
+    const current = await this.getRecord(storeName, local.id);
+    await this.patchStorage(storeName, local.id, {
+      ...patch,
+      syncStatus: current?.storage?.version === local.storage?.version ? 'synced' : 'local'
+    });
+  }
+
+  private setUploadProgress(progress: SyncUploadProgress | null): void {
+    this.uploadProgress = progress;
+    // XHR reports progress many times a second; the start and end always go out
+    const now = Date.now();
+    if (progress && progress.loaded > 0 && progress.loaded < progress.total && now - this.lastProgressNotice < PROGRESS_NOTICE_INTERVAL) {
+      return;
+    }
+    this.lastProgressNotice = now;
+    this.progressListeners.forEach(listener => listener());
+  }
+
+  // Upload progress and queue changes; these come far more often than record changes
+  onSyncProgress(listener: () => void): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  private async markSynced(type: SyncRecordType, local: any, remote?: any): Promise<void> {
+    const storeName = this.getStoreForType(type)!;
+    if (remote) {
+      await this.saveSyncBase(type, local.id, remote);
+    }
+
+    // Edits saved while the request was in flight still need pushing
+    const current = await this.getRecord(storeName, local.id);
+    await this.patchStorage(storeName, local.id, {
+      syncStatus: current?.storage?.version === local.storage?.version ? 'synced' : 'local',
+      ...(typeof remote?.version === 'number' ? { baseVersion: remote.version } : {}),
+      ...(remote?.id ? { cloudId: String(remote.id) } : {})
+    });
+  }
+
+  /**
+   * Conflict Handling
+   */
+  private async handleSyncConflict(type: SyncRecordType, local: any, remote: any): Promise<void> {
+    const storeName = this.getStoreForType(type)!;
+    const base = await this.getSyncBase(type, local.id);
+    const { merged, conflicts } = mergeRecords(type, base, local, remote);
+    const remoteVersion = typeof remote.version === 'number' ? remote.version : (local.storage?.baseVersion ?? 0) + 1;
+
+    if (conflicts.length === 0) {
+      // The server's changes fold into the local copy, which then goes up on top of the server version
+      await this.saveSyncBase(type, local.id, remote);
+      await this.putRecord(storeName, {
+        ...merged,
+        storage: { ...merged.storage, baseVersion: remoteVersion, syncStatus: 'local', updatedAt: new Date().toISOString() }
+      });
+      this.queueRecordUpdate(type, local.id);
+      this.notifyRecordsChanged();
+      return;
+    }
+
+    const conflict: SyncConflict = {
+      id: `${type}:${local.id}`,
+      type,
+      recordId: local.id,
+      title: local.title || remote.title || `${type === 'project' ? 'Project' : 'Story'} ${local.id}`,
+      local,
+      remote,
+      merged,
+      conflicts,
+      remoteVersion,
+      detectedAt: new Date().toISOString()
+    };
+    await this.dbOperation(STORAGE_CONFIG.stores.syncConflicts, 'readwrite', (store) => store.put(conflict));
+    await this.patchStorage(storeName, local.id, { syncStatus: 'conflict' });
+    await this.refreshConflictCount();
+    this.notifyRecordsChanged();
+  }
+
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    try {
+      const conflicts = await this.dbOperation<SyncConflict[]>(
+        STORAGE_CONFIG.stores.syncConflicts,
+        'readonly',
+        (store) => store.getAll()
+      );
+      return (conflicts || []).sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+    } catch (error) {
+      console.error('Error getting sync conflicts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Settle a conflict: keep the local copy, take the server's, or merge with
+   * a per-field choice for every field both sides changed
+   */
+  async resolveSyncConflict(
+    id: string,
+    resolution: 'local' | 'remote' | 'merge',
+    choices: Record<string, SyncChoice> = {}
+  ): Promise<void> {
+    const conflict = await this.dbOperation<SyncConflict | undefined>(
+      STORAGE_CONFIG.stores.syncConflicts,
+      'readonly',
+      (store) => store.get(id)
+    );
+    if (!conflict) return;
+
+    const { type, recordId, remote } = conflict;
+    const storeName = this.getStoreForType(type)!;
+    // Edits made after the conflict was found are part of "mine"
+    const local = (await this.getRecord(storeName, recordId)) || conflict.local;
+
+    let record = local;
+    if (resolution === 'remote') {
+      record = { ...local, ...pickSyncFields(type, remote) };
+    } else if (resolution === 'merge') {
+      const base = await this.getSyncBase(type, recordId);
+      const { merged, conflicts } = mergeRecords(type, base, local, remote);
+      record = resolveConflicts(type, merged, remote, conflicts, choices);
+    }
+
+    await this.saveSyncBase(type, recordId, remote);
+    await this.putRecord(storeName, {
+      ...record,
+      storage: {
+        ...local.storage,
+        baseVersion: conflict.remoteVersion,
+        syncStatus: resolution === 'remote' ? 'synced' : 'local',
+        updatedAt: new Date().toISOString()
+      }
+    });
+    await this.dbOperation(STORAGE_CONFIG.stores.syncConflicts, 'readwrite', (store) => store.delete(id));
+    await this.refreshConflictCount();
+
+    if (resolution !== 'remote') {
+      this.queueRecordUpdate(type, recordId);
+    }
+    this.notifyRecordsChanged();
+  }
+
+  // Called when sync rewrites local records, so in-memory copies can reload
+  onRecordsChanged(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private notifyRecordsChanged(): void {
+    this.changeListeners.forEach(listener => listener());
+  }
+
+  private queueRecordUpdate(type: SyncRecordType, id: string): void {
+    this.addToSyncQueue({
+      id,
+      action: 'update',
+      type,
+      timestamp: new Date().toISOString(),
+      retryCount: 0,
+      status: 'pending'
+    });
+  }
+
+  private async refreshConflictCount(): Promise<void> {
+    try {
+      this.conflictCount = await this.dbOperation<number>(
+        STORAGE_CONFIG.stores.syncConflicts,
+        'readonly',
+        (store) => store.count()
+      );
+    } catch (error) {
+      console.error('Error counting sync conflicts:', error);
+    }
+  }
+
+  // Last copy both sides agreed on, the base of the three-way merge
+  private async getSyncBase(type: SyncRecordType, id: string): Promise<any | null> {
+    const base = await this.dbOperation<SyncBase | undefined>(
+      STORAGE_CONFIG.stores.syncBases,
+      'readonly',
+      (store) => store.get(`${type}:${id}`)
+    );
+    return base?.data || null;
+  }
+
+  private async saveSyncBase(type: SyncRecordType, id: string, remote: any): Promise<void> {
+    const base: SyncBase = {
+      key: `${type}:${id}`,
+      version: typeof remote.version === 'number' ? remote.version : null,
+      data: pickSyncFields(type, remote),
+      syncedAt: new Date().toISOString()
+    };
+    await this.dbOperation(STORAGE_CONFIG.stores.syncBases, 'readwrite', (store) => store.put(base));
+  }
+
   /**
    * Storage Statistics and Management
    */
@@ -613,9 +1227,8 @@ class PersistentStorageManager {
       (store) => store.getAll()
     );
 
-    const totalSize = [...allImages, ...allDrawings].reduce((size, item) => {
-      return size + (item.size || 0);
-    }, 0);
+    // Artwork is counted once in the blob store, however many pages and records share it
+    const { size: totalSize } = await blobStore.getUsage();
 
     return {
       projects: projects.length,
@@ -627,6 +1240,28 @@ class PersistentStorageManager {
     };
   }
 
+  // Drop blobs nothing refers to any more, e.g. after a project is deleted
+  async pruneBlobs(): Promise<number> {
+    const referenced = new Set<string>();
+    const stores = [
+      STORAGE_CONFIG.stores.projects,
+      STORAGE_CONFIG.stores.stories,
+      STORAGE_CONFIG.stores.images,
+      STORAGE_CONFIG.stores.drawings,
+      STORAGE_CONFIG.stores.syncBases,
+      STORAGE_CONFIG.stores.syncConflicts
+    ];
+    for (const storeName of stores) {
+      const records = await this.dbOperation<any[]>(storeName, 'readonly', (store) => store.getAll());
+      collectBlobRefs(records, referenced);
+    }
+    // Queued and dead-lettered creates carry a copy of the record until they sync
+    collectBlobRefs(this.syncQueue, referenced);
+    collectBlobRefs(this.getDeadLetters(), referenced);
+
+    return blobStore.prune(referenced);
+  }
+
   async clearAllData(): Promise<void> {
     if (!this.db) await this.initDB();
     
@@ -645,6 +1280,8 @@ class PersistentStorageManager {
     });
 
     this.syncQueue = [];
+    this.conflictCount = 0;
+    this.clearSyncTimer();
     console.log('All data cleared');
   }
 
@@ -660,21 +1297,29 @@ class PersistentStorageManager {
       'readonly',
       (store) => store.getAll()
     );
+    const allDrawings = await this.dbOperation<any[]>(
+      STORAGE_CONFIG.stores.drawings,
+      'readonly',
+      (store) => store.getAll()
+    );
 
-    const exportData = {
+    // Backups carry their artwork inline so they restore without this database's blob store
+    const exportData = await blobStore.inlineImages({
       projects,
       stories: allStories,
       images: allImages,
+      drawings: allDrawings,
       exportedAt: new Date().toISOString(),
       version: STORAGE_CONFIG.dbVersion
-    };
+    });
 
     return JSON.stringify(exportData, null, 2);
   }
 
-  async importData(jsonData: string): Promise<void> {
+  async importData(jsonData: string): Promise<MigrationReport> {
     try {
-      const data = JSON.parse(jsonData);
+      // Older backups are brought up to the current schema before anything is written
+      const { data, report } = migrateBackup(JSON.parse(jsonData));
       
       if (data.projects) {
         for (const project of data.projects) {
@@ -682,27 +1327,28 @@ class PersistentStorageManager {
         }
       }
       
-      if (data.stories) {
-        for (const story of data.stories) {
+      const records: Array<[string, any[] | undefined]> = [
+        [STORAGE_CONFIG.stores.stories, data.stories],
+        [STORAGE_CONFIG.stores.images, data.images],
+        [STORAGE_CONFIG.stores.drawings, data.drawings]
+      ];
+      for (const [storeName, items] of records) {
+        for (const item of items || []) {
+          const stored = await this.storeImages(item);
           await this.dbOperation(
-            STORAGE_CONFIG.stores.stories,
+            storeName,
             'readwrite',
-            (store) => store.put(story)
+            (store) => store.put(stored)
           );
         }
       }
-      
-      if (data.images) {
-        for (const image of data.images) {
-          await this.dbOperation(
-            STORAGE_CONFIG.stores.images,
-            'readwrite',
-            (store) => store.put(image)
-          );
-        }
+
+      if (report.applied.length > 0) {
+        this.logMigration(report);
       }
 
       console.log('Data imported successfully');
+      return report;
     } catch (error) {
       console.error('Error importing data:', error);
       throw error;
@@ -723,6 +1369,17 @@ class PersistentStorageManager {
     };
   }
 
+  private touchMetadata(existing: StorageMetadata | undefined, id: string, type: string): StorageMetadata {
+    const metadata = existing || this.createMetadata(id, type);
+    return {
+      ...metadata,
+      version: metadata.version + 1,
+      // Unsynced again, unless it is still waiting on a conflict resolution
+      syncStatus: metadata.syncStatus === 'conflict' ? 'conflict' : 'local',
+      updatedAt: new Date().toISOString()
+    };
+  }
+
   private generateId(): string {
     return Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
   }
@@ -742,31 +1399,36 @@ class PersistentStorageManager {
     }
   }
 
-  private async updateSyncStatus(
-    type: string,
-    id: string,
-    status: 'local' | 'synced' | 'conflict' | 'syncing'
-  ): Promise<void> {
-    const storeName = this.getStoreForType(type);
-    if (!storeName) return;
+  // Move inline artwork into the blob store, leaving references in the record
+  private async storeImages<T>(record: T): Promise<T> {
+    const { record: stored, blobs } = extractImages(record);
+    await blobStore.putAll(blobs);
+    return stored;
+  }
+
+  private async getImageSize(value: string): Promise<number> {
+    return isBlobRef(value) ? (await imageDataToBlob(value)).size : new Blob([value]).size;
+  }
+
+  private async getRecord(storeName: string, id: string): Promise<any | null> {
+    const record = await this.dbOperation<any>(storeName, 'readonly', (store) => store.get(id));
+    return record || null;
+  }
+
+  private async putRecord(storeName: string, record: any): Promise<void> {
+    await this.dbOperation(storeName, 'readwrite', (store) => store.put(record));
+  }
 
+  private async patchStorage(storeName: string, id: string, patch: Partial<StorageMetadata>): Promise<void> {
     try {
-      const record = await this.dbOperation<any>(
-        storeName,
-        'readonly',
-        (store) => store.get(id)
-      );
+      const record = await this.getRecord(storeName, id);
       if (record) {
-        record.metadata = {
-          ...record.metadata,
-          syncStatus: status,
+        record.storage = {
+          ...record.storage,
+          ...patch,
           updatedAt: new Date().toISOString(),
         };
-        await this.dbOperation(
-          storeName,
-          'readwrite',
-          (store) => store.put(record)
-        );
+        await this.putRecord(storeName, record);
       }
     } catch (error) {
       console.error('Failed to update sync status:', error);
@@ -781,19 +1443,30 @@ class PersistentStorageManager {
       throw new Error('Cannot sync while offline');
     }
     
-    await this.processSyncQueue();
+    await this.processSyncQueue(true);
   }
 
   getSyncStatus(): {
     isOnline: boolean;
     syncInProgress: boolean;
     queueSize: number;
+    conflicts: number;
+    upload: SyncUploadProgress | null;
+    // Queued items that have failed at least once
+    failed: number;
+    deadLetters: number;
+    nextRetryAt: string | null;
     lastSync: string | null;
   } {
     return {
       isOnline: this.isOnline,
       syncInProgress: this.syncInProgress,
       queueSize: this.syncQueue.length,
+      conflicts: this.conflictCount,
+      upload: this.uploadProgress,
+      failed: this.syncQueue.filter(item => item.retryCount > 0).length,
+      deadLetters: this.getDeadLetters().length,
+      nextRetryAt: this.getNextRetryAt(),
       lastSync: localStorage.getItem(STORAGE_CONFIG.localStorageKeys.lastSync)
     };
   }
@@ -0,0 +1,183 @@
+/**
+ * Print Platform Profiles
+ * What each print-on-demand service accepts - trim sizes, bleed, page counts,
+ * spine formula, cover layout and file requirements - so the exporters and the
+ * compliance checker can target KDP, IngramSpark or Lulu from the same book.
+ */
+
+import { PaperType, PrintPlatformId } from '../types';
+import { GutterRule, MarginSet, PageGeometry, TrimSizeId, TRIM_SIZES, KDP_GUTTER_RULES, getPageGeometry } from './trimSizes';
+
+export interface PlatformCoverSpec {
+  bleed: number;
+  // Blank area the platform prints the ISBN barcode into, lower right of the back
+  barcode: { width: number; height: number };
+  // Thinner books have too narrow a spine for text
+  spineTextMinPages: number;
+}
+
+export interface PlatformFileSpec {
+  // "{isbn}" is replaced with the book's ISBN
+  interiorFile: string;
+  coverFile: string;
+  // PDF standard the platform insists on, or null when any print PDF is accepted
+  requiredPDFStandard: 'PDF/X-1a:2001' | null;
+  maxFileSizeMB: number;
+  minImageDPI: number;
+  isbnRequired: boolean;
+}
+
+export interface PrintPlatformProfile {
+  id: PrintPlatformId;
+  name: string;
+  trimSizes: TrimSizeId[];
+  bleed: number;
+  minPages: number;
+  maxPages: number;
+  // Interior page count must divide evenly by this
+  pageMultiple: number;
+  // Spine width = pages × thickness + allowance
+  paperThickness: Record<PaperType, number>;
+  spineAllowance: number;
+  gutterRules: GutterRule[];
+  cover: PlatformCoverSpec;
+  files: PlatformFileSpec;
+  // Steps listed in the publishing guide of the print package
+  uploadSteps: string[];
+}
+
+export const PRINT_PLATFORMS: Record<PrintPlatformId, PrintPlatformProfile> = {
+  kdp: {
+    id: 'kdp',
+    name: 'Amazon KDP',
+    trimSizes: Object.values(TRIM_SIZES).filter(trim => trim.kdpPaperback).map(trim => trim.id),
+    bleed: 0.125,
+    minPages: 24,
+    maxPages: 828,
+    pageMultiple: 1,
+    paperThickness: { white: 0.002252, cream: 0.0025, 'premium-color': 0.002347 },
+    spineAllowance: 0,
+    gutterRules: KDP_GUTTER_RULES,
+    cover: { bleed: 0.125, barcode: { width: 2, height: 1.2 }, spineTextMinPages: 80 },
+    files: {
+      interiorFile: 'interior.pdf',
+      coverFile: 'cover.pdf',
+      requiredPDFStandard: null,
+      maxFileSizeMB: 650,
+      minImageDPI: 300,
+      isbnRequired: false
+    },
+    uploadSteps: [
+      'Create a new paperback title at kdp.amazon.com',
+      'Choose the trim size and paper listed below, with "Bleed" selected',
+      'Upload interior.pdf as the manuscript and cover.pdf as a print-ready cover',
+      'Use a free KDP ISBN or enter your own, then order a proof copy'
+    ]
+  },
+  ingramspark: {
+    id: 'ingramspark',
+    name: 'IngramSpark',
+    trimSizes: ['5x8', '5.5x8.5', '6x9', '6.14x9.21', '7x10', '7.5x9.25', '8x10', '8.25x8.25', 'square-8.5', 'letter', 'a4', 'a5'],
+    bleed: 0.125,
+    minPages: 18,
+    maxPages: 840,
+    pageMultiple: 2,
+    paperThickness: { white: 0.00225, cream: 0.0025, 'premium-color': 0.0026 },
+    spineAllowance: 0,
+    gutterRules: [
+      { maxPages: 150, gutter: 0.5 },
+      { maxPages: 400, gutter: 0.625 },
+      { maxPages: 840, gutter: 0.75 }
+    ],
+    cover: { bleed: 0.125, barcode: { width: 1.75, height: 1 }, spineTextMinPages: 48 },
+    files: {
+      interiorFile: '{isbn}_txt.pdf',
+      coverFile: '{isbn}_cvr.pdf',
+      requiredPDFStandard: 'PDF/X-1a:2001',
+      maxFileSizeMB: 2048,
+      minImageDPI: 300,
+      isbnRequired: true
+    },
+    uploadSteps: [
+      'Add a new title at ingramspark.com and enter your own ISBN',
+      'Pick the trim size, paper and "Paperback - Perfect Bound" binding listed below',
+      'Upload the _txt.pdf file as the interior and the _cvr.pdf file as the cover',
+      'Set wholesale discount and returns, then approve the e-proof'
+    ]
+  },
+  lulu: {
+    id: 'lulu',
+    name: 'Lulu',
+    trimSizes: ['5.5x8.5', '6x9', '6.14x9.21', '7x10', 'square-8.5', 'square-6', 'letter', 'a4', 'a5'],
+    bleed: 0.125,
+    minPages: 32,
+    maxPages: 800,
+    pageMultiple: 1,
+    paperThickness: { white: 0.002252, cream: 0.002252, 'premium-color': 0.002252 },
+    spineAllowance: 0.06,
+    gutterRules: [
+      { maxPages: 60, gutter: 0.375 },
+      { maxPages: 150, gutter: 0.5 },
+      { maxPages: 400, gutter: 0.625 },
+      { maxPages: 600, gutter: 0.75 },
+      { maxPages: 800, gutter: 0.875 }
+    ],
+    cover: { bleed: 0.125, barcode: { width: 2, height: 1.2 }, spineTextMinPages: 80 },
+    files: {
+      interiorFile: 'interior.pdf',
+      coverFile: 'cover.pdf',
+      requiredPDFStandard: null,
+      maxFileSizeMB: 1024,
+      minImageDPI: 300,
+      isbnRequired: false
+    },
+    uploadSteps: [
+      'Start a new print book project at lulu.com',
+      'Choose the book size, paperback perfect binding and paper listed below',
+      'Upload interior.pdf, then upload cover.pdf as a one-piece cover',
+      'Review the file preview and order a print proof'
+    ]
+  }
+};
+
+export const PRINT_PLATFORM_LABELS: Record<PrintPlatformId, string> = {
+  kdp: PRINT_PLATFORMS.kdp.name,
+  ingramspark: PRINT_PLATFORMS.ingramspark.name,
+  lulu: PRINT_PLATFORMS.lulu.name
+};
+
+export const DEFAULT_PRINT_PLATFORM: PrintPlatformId = 'kdp';
+
+export const getPrintPlatform = (id?: string): PrintPlatformProfile => {
+  return id && id in PRINT_PLATFORMS ? PRINT_PLATFORMS[id as PrintPlatformId] : PRINT_PLATFORMS[DEFAULT_PRINT_PLATFORM];
+};
+
+export const supportsTrimSize = (platform: PrintPlatformProfile, trimId: string): boolean => {
+  return platform.trimSizes.includes(trimId as TrimSizeId);
+};
+
+export const calculatePlatformSpineWidth = (platform: PrintPlatformProfile, pageCount: number, paperType: PaperType): number => {
+  return pageCount * platform.paperThickness[paperType] + platform.spineAllowance;
+};
+
+// Pages the platform needs before it accepts the interior
+export const getPaddedPageCount = (platform: PrintPlatformProfile, pageCount: number): number => {
+  return Math.ceil(pageCount / platform.pageMultiple) * platform.pageMultiple;
+};
+
+export const getPlatformFileNames = (platform: PrintPlatformProfile, isbn?: string) => {
+  const id = isbn?.replace(/[^0-9X]/gi, '') || 'book';
+  return {
+    interior: platform.files.interiorFile.replace('{isbn}', id),
+    cover: platform.files.coverFile.replace('{isbn}', id)
+  };
+};
+
+// Page geometry with the platform's bleed and inside-margin rules
+export const getPlatformGeometry = (
+  platform: PrintPlatformProfile,
+  trimId: string | undefined,
+  options: { pageCount?: number; includeBleed?: boolean; margins?: Partial<MarginSet> } = {}
+): PageGeometry => {
+  return getPageGeometry(trimId, { ...options, bleed: platform.bleed, gutterRules: platform.gutterRules });
+};
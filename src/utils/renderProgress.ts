@@ -0,0 +1,35 @@
+/**
+ * Render Progress
+ * Shared progress and cancellation plumbing for long-running exports, used the
+ * same way whether a renderer runs on the main thread or inside a worker.
+ */
+
+export type RenderStage = 'preparing' | 'rendering' | 'saving';
+
+export interface RenderProgress {
+  stage: RenderStage;
+  completed: number;
+  total: number;
+}
+
+export interface PDFRenderOptions {
+  onProgress?: (progress: RenderProgress) => void;
+  signal?: AbortSignal;
+}
+
+export const RENDER_CANCELLED_MESSAGE = 'Export cancelled';
+
+export const isRenderCancelled = (error: unknown): boolean => {
+  return error instanceof Error && error.message === RENDER_CANCELLED_MESSAGE;
+};
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new Error(RENDER_CANCELLED_MESSAGE);
+  }
+};
+
+// Let queued messages (progress, cancel) through between pages
+export const yieldToEventLoop = (): Promise<void> => {
+  return new Promise(resolve => setTimeout(resolve, 0));
+};
@@ -0,0 +1,311 @@
+/**
+ * Storage Schema Migrations
+ * Numbered steps that bring stored projects, stories, images and drawings up to
+ * the current schema - run by IndexedDB when the database version goes up, and
+ * on exported backup files when they are imported.
+ */
+
+import { StorageMetadata, SyncFieldConflict } from '../types';
+import { BLOB_STORE_NAME, StoredBlob, extractImage, extractImages } from './blobStore';
+import { isEqual } from './syncMerge';
+
+export type MigratedStore = 'projects' | 'stories' | 'images' | 'drawings';
+
+// Records are read back as whatever an older version wrote
+export type StoredRecord = Record<string, any>;
+
+export interface MigrationContext {
+  // Only database upgrades have a blob store; imported backups keep artwork inline until it is saved
+  storeBlob?: (blob: StoredBlob) => void;
+}
+
+export interface StorageMigration {
+  // Database version this step upgrades to
+  version: number;
+  description: string;
+  // Store and index changes, run inside the IndexedDB upgrade transaction
+  upgradeSchema?: (transaction: IDBTransaction, context: MigrationContext) => void;
+  records: Partial<Record<MigratedStore, (record: StoredRecord, context: MigrationContext) => StoredRecord>>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  // Records the step rewrote
+  records: number;
+}
+
+export interface MigrationReport {
+  source: 'database' | 'import';
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedMigration[];
+  ranAt: string;
+}
+
+export const MIGRATED_STORES: MigratedStore[] = ['projects', 'stories', 'images', 'drawings'];
+
+const STORE_RECORD_TYPES: Record<MigratedStore, string> = {
+  projects: 'project',
+  stories: 'story',
+  images: 'image',
+  drawings: 'drawing'
+};
+
+const isObject = (value: unknown): value is StoredRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Version 1 saved its bookkeeping over the record's own metadata
+const isStorageMetadata = (value: unknown): value is StorageMetadata =>
+  isObject(value) && typeof value.syncStatus === 'string' && typeof value.type === 'string' && typeof value.version === 'number';
+
+const byteSize = (value: unknown): number => (typeof value === 'string' ? new Blob([value]).size : 0);
+
+const withStorage = (record: StoredRecord, store: MigratedStore): StoredRecord => {
+  const { metadata, ...rest } = record;
+  const now = new Date().toISOString();
+  const legacy = isStorageMetadata(metadata) ? metadata : null;
+  const storage: StorageMetadata = isStorageMetadata(record.storage) ? record.storage : {
+    id: String(record.id),
+    type: STORE_RECORD_TYPES[store],
+    version: legacy?.version || 1,
+    createdAt: legacy?.createdAt || record.createdAt || now,
+    updatedAt: legacy?.updatedAt || record.updatedAt || now,
+    syncStatus: legacy?.syncStatus || 'local',
+    ...(legacy?.cloudId ? { cloudId: legacy.cloudId } : {})
+  };
+
+  return legacy || !isObject(metadata) ? { ...rest, storage } : { ...rest, metadata, storage };
+};
+
+// Drawings were stored as bare data URLs or canvas records before they had a shape
+const normaliseDrawings = (drawings: unknown) => {
+  if (!Array.isArray(drawings)) return [];
+  return drawings
+    .map((drawing, index) => {
+      if (typeof drawing === 'string') return { id: `drawing_${index + 1}`, dataUrl: drawing };
+      if (!isObject(drawing)) return null;
+      const dataUrl = drawing.dataUrl || drawing.canvasData || drawing.imageData;
+      if (typeof dataUrl !== 'string' || !dataUrl) return null;
+      return {
+        id: String(drawing.id || `drawing_${index + 1}`),
+        dataUrl,
+        ...(drawing.name ? { name: String(drawing.name) } : {}),
+        ...(drawing.createdAt ? { createdAt: String(drawing.createdAt) } : {})
+      };
+    })
+    .filter((drawing): drawing is NonNullable<typeof drawing> => drawing !== null);
+};
+
+// Swap inline artwork for blob references, reporting how many bytes moved
+const moveImages = (record: StoredRecord, context: MigrationContext): { record: StoredRecord; bytes: number } => {
+  if (!context.storeBlob) return { record, bytes: 0 };
+  const { record: stored, blobs } = extractImages(record);
+  blobs.forEach(context.storeBlob);
+  return { record: stored, bytes: blobs.reduce((total, blob) => total + blob.size, 0) };
+};
+
+const storeImages = (record: StoredRecord, context: MigrationContext): StoredRecord => moveImages(record, context).record;
+
+const storeImage = (field: string, value: unknown, context: MigrationContext): unknown => {
+  if (!context.storeBlob) return value;
+  const extracted = extractImage(field, value);
+  if (!extracted) return value;
+  context.storeBlob(extracted.blob);
+  return extracted.ref;
+};
+
+// Stores outside MIGRATED_STORES, rewritten from inside upgradeSchema
+const rewriteStore = (transaction: IDBTransaction, storeName: string, transform: (record: StoredRecord) => StoredRecord) => {
+  if (!transaction.db.objectStoreNames.contains(storeName)) return;
+  const request = transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(transform(cursor.value));
+    cursor.continue();
+  };
+};
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 2,
+    description: 'Move storage bookkeeping out of record metadata and fill in missing project, story and drawing fields',
+    upgradeSchema: transaction => {
+      const projects = transaction.objectStore('projects');
+      if (projects.indexNames.contains('syncStatus')) projects.deleteIndex('syncStatus');
+      projects.createIndex('syncStatus', 'storage.syncStatus', { unique: false });
+    },
+    records: {
+      projects: record => {
+        const project = withStorage(record, 'projects');
+        const createdAt = project.createdAt || project.storage.createdAt;
+        return {
+          ...project,
+          title: typeof project.title === 'string' && project.title.trim() ? project.title : 'Untitled Project',
+          pages: Array.isArray(project.pages)
+            ? project.pages.filter(isObject).map((page: StoredRecord, index: number) => ({
+                ...page,
+                id: String(page.id || `${project.id}_page_${index + 1}`),
+                type: page.type || 'story',
+                pageNumber: typeof page.pageNumber === 'number' ? page.pageNumber : index + 1,
+                content: isObject(page.content) ? page.content : {},
+                createdAt: page.createdAt || createdAt,
+                updatedAt: page.updatedAt || page.createdAt || createdAt
+              }))
+            : [],
+          drawings: normaliseDrawings(project.drawings),
+          metadata: isObject(project.metadata) ? project.metadata : {},
+          createdAt,
+          updatedAt: project.updatedAt || project.storage.updatedAt
+        };
+      },
+      stories: record => {
+        const story = withStorage(record, 'stories');
+        return {
+          ...story,
+          pages: Array.isArray(story.pages)
+            ? story.pages.filter(isObject).map((page: StoredRecord, index: number) => {
+                const text = typeof page.story === 'string' ? page.story : '';
+                return {
+                  ...page,
+                  pageNumber: typeof page.pageNumber === 'number' ? page.pageNumber : index + 1,
+                  story: text,
+                  imagePrompt: typeof page.imagePrompt === 'string' ? page.imagePrompt : '',
+                  wordCount: typeof page.wordCount === 'number' ? page.wordCount : text.split(/\s+/).filter(Boolean).length,
+                  imageGenerated: typeof page.imageGenerated === 'boolean' ? page.imageGenerated : !!page.imageData
+                };
+              })
+            : [],
+          metadata: isObject(story.metadata) ? story.metadata : {}
+        };
+      },
+      images: record => {
+        const image = withStorage(record, 'images');
+        return {
+          ...image,
+          type: ['story', 'cover', 'drawing'].includes(image.type) ? image.type : 'story',
+          size: typeof image.size === 'number' ? image.size : byteSize(image.data)
+        };
+      },
+      drawings: record => {
+        const drawing = withStorage(record, 'drawings');
+        const canvasData = typeof drawing.canvasData === 'string' ? drawing.canvasData : drawing.dataUrl || '';
+        return { ...drawing, canvasData, size: typeof drawing.size === 'number' ? drawing.size : byteSize(canvasData) };
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Add stores for last-synced copies and unresolved sync conflicts',
+    upgradeSchema: transaction => {
+      const db = transaction.db;
+      if (!db.objectStoreNames.contains('syncBases')) db.createObjectStore('syncBases', { keyPath: 'key' });
+      if (!db.objectStoreNames.contains('syncConflicts')) db.createObjectStore('syncConflicts', { keyPath: 'id' });
+    },
+    records: {}
+  },
+  {
+    version: 4,
+    description: 'Move inline artwork into the content-addressed blob store',
+    upgradeSchema: (transaction, context) => {
+      const db = transaction.db;
+      if (!db.objectStoreNames.contains(BLOB_STORE_NAME)) db.createObjectStore(BLOB_STORE_NAME, { keyPath: 'hash' });
+
+      // Merge bases and open conflicts hold copies of the same pages
+      rewriteStore(transaction, 'syncBases', record => storeImages(record, context));
+      rewriteStore(transaction, 'syncConflicts', record => {
+        const conflict = storeImages(record, context);
+        return {
+          ...conflict,
+          conflicts: (conflict.conflicts || []).map((field: SyncFieldConflict) => {
+            const name = field.path[field.path.length - 1] || '';
+            const [base, local, remote] = [field.base, field.local, field.remote].map(value => storeImage(name, value, context));
+            return { ...field, base, local, remote };
+          })
+        };
+      });
+    },
+    records: {
+      projects: storeImages,
+      stories: storeImages,
+      // Sizes become the binary size rather than the length of the base64 string
+      images: (record, context) => {
+        const { record: image, bytes } = moveImages(record, context);
+        return bytes > 0 ? { ...image, size: bytes } : image;
+      },
+      drawings: (record, context) => {
+        const { record: drawing, bytes } = moveImages(record, context);
+        return bytes > 0 ? { ...drawing, size: bytes } : drawing;
+      }
+    }
+  }
+];
+
+export const LATEST_STORAGE_VERSION = Math.max(1, ...STORAGE_MIGRATIONS.map(migration => migration.version));
+
+export const getPendingMigrations = (fromVersion: number, toVersion = LATEST_STORAGE_VERSION): StorageMigration[] => {
+  return STORAGE_MIGRATIONS
+    .filter(migration => migration.version > fromVersion && migration.version <= toVersion)
+    .sort((a, b) => a.version - b.version);
+};
+
+// Run one record through each pending step in order, counting the records each step changed
+export const migrateRecord = (
+  store: MigratedStore,
+  record: StoredRecord,
+  migrations: StorageMigration[],
+  applied?: AppliedMigration[],
+  context: MigrationContext = {}
+): StoredRecord => {
+  return migrations.reduce((current, migration, index) => {
+    const transform = migration.records[store];
+    if (!transform) return current;
+    const next = transform(current, context);
+    // Steps rebuild every record they visit, so compare by value
+    if (applied && !isEqual(next, current)) applied[index].records++;
+    return next;
+  }, record);
+};
+
+export const createMigrationReport = (
+  source: MigrationReport['source'],
+  fromVersion: number,
+  migrations: StorageMigration[],
+  toVersion = LATEST_STORAGE_VERSION
+): MigrationReport => ({
+  source,
+  fromVersion,
+  toVersion,
+  applied: migrations.map(migration => ({ version: migration.version, description: migration.description, records: 0 })),
+  ranAt: new Date().toISOString()
+});
+
+// Bring an exportAllData backup up to the current version. Files without a version predate versioning
+export const migrateBackup = (data: StoredRecord): { data: StoredRecord; report: MigrationReport } => {
+  if (!isObject(data)) throw new Error('Backup file is not a ColorBook Engine export');
+
+  const fromVersion = typeof data.version === 'number' ? data.version : 1;
+  if (fromVersion > LATEST_STORAGE_VERSION) {
+    throw new Error(`Backup was made by a newer version (schema ${fromVersion}, this app reads up to ${LATEST_STORAGE_VERSION})`);
+  }
+
+  const migrations = getPendingMigrations(fromVersion);
+  const report = createMigrationReport('import', fromVersion, migrations);
+  const migrated: StoredRecord = { ...data, version: LATEST_STORAGE_VERSION };
+
+  MIGRATED_STORES.forEach(store => {
+    if (!Array.isArray(data[store])) return;
+    migrated[store] = data[store]
+      .filter(isObject)
+      .map((record: StoredRecord) => migrateRecord(store, record, migrations, report.applied));
+  });
+
+  return { data: migrated, report };
+};
+
+export const formatMigrationReport = (report: MigrationReport): string => {
+  if (report.applied.length === 0) return `Schema v${report.toVersion}, no migrations needed`;
+  return `Schema v${report.fromVersion} → v${report.toVersion}: ` +
+    report.applied.map(step => `v${step.version} ${step.description}${step.records > 0 ? ` (${step.records} records)` : ''}`).join('; ');
+};
@@ -0,0 +1,145 @@
+/**
+ * Sync Merge
+ * Three-way merge of a local record and its diverged server copy against the
+ * copy both started from. Metadata and pages merge field by field, pages
+ * matched by identity; fields both sides changed differently become conflicts.
+ */
+
+import { SyncFieldConflict, SyncRecordType } from '../types';
+
+export type SyncChoice = 'local' | 'remote';
+
+export interface MergeResult {
+  merged: any;
+  conflicts: SyncFieldConflict[];
+}
+
+// Fields sent to the server and merged; everything else stays as the local copy has it
+export const SYNC_FIELDS: Record<SyncRecordType, string[]> = {
+  project: ['title', 'description', 'metadata', 'pages'],
+  story: ['metadata', 'pages']
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a).filter(key => a[key] !== undefined);
+    return keys.length === Object.keys(b).filter(key => b[key] !== undefined).length &&
+      keys.every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+// Project pages have ids; story pages only their page number
+const pageKey = (type: SyncRecordType, page: any, index: number): string =>
+  String(type === 'project' ? page?.id ?? `#${index}` : page?.pageNumber ?? index + 1);
+
+export const pickSyncFields = (type: SyncRecordType, record: any): Record<string, any> => {
+  const fields: Record<string, any> = {};
+  SYNC_FIELDS[type].forEach(field => {
+    if (record?.[field] !== undefined) fields[field] = record[field];
+  });
+  return fields;
+};
+
+// Pages keyed by identity so a page edited on one side and moved on the other still lines up
+const toMergeable = (type: SyncRecordType, record: any): Record<string, any> => {
+  const fields = pickSyncFields(type, record);
+  if (Array.isArray(fields.pages)) {
+    fields.pages = Object.fromEntries(fields.pages.map((page: any, index: number) => [pageKey(type, page, index), page]));
+  }
+  return fields;
+};
+
+const withMergeable = (record: any, fields: Record<string, any>, type: SyncRecordType): any => {
+  const result = { ...record };
+  SYNC_FIELDS[type].forEach(field => {
+    if (fields[field] === undefined) {
+      delete result[field];
+    } else if (field === 'pages' && isPlainObject(fields.pages)) {
+      result.pages = Object.values(fields.pages)
+        .filter(page => page !== undefined)
+        .sort((a: any, b: any) => (a?.pageNumber ?? 0) - (b?.pageNumber ?? 0));
+    } else {
+      result[field] = fields[field];
+    }
+  });
+  return result;
+};
+
+const mergeValue = (path: string[], base: unknown, local: unknown, remote: unknown, conflicts: SyncFieldConflict[]): unknown => {
+  if (isEqual(local, remote)) return local;
+  if (isEqual(local, base)) return remote;
+  if (isEqual(remote, base)) return local;
+
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    const baseObject = isPlainObject(base) ? base : {};
+    const result: Record<string, unknown> = {};
+    new Set([...Object.keys(local), ...Object.keys(remote)]).forEach(key => {
+      const value = mergeValue([...path, key], baseObject[key], local[key], remote[key], conflicts);
+      if (value !== undefined) result[key] = value;
+    });
+    return result;
+  }
+
+  // Both sides changed it differently - keep ours until the user decides
+  conflicts.push({ path, label: '', base, local, remote });
+  return local;
+};
+
+const labelFor = (path: string[], local: Record<string, any>, remote: Record<string, any>): string => {
+  const [field, key, ...rest] = path;
+  if (field === 'pages' && key !== undefined) {
+    const page = local.pages?.[key] || remote.pages?.[key];
+    return [`Page ${page?.pageNumber ?? key}`, ...rest.filter(segment => segment !== 'content')].join(' › ');
+  }
+  return [field.charAt(0).toUpperCase() + field.slice(1), ...path.slice(1)].join(' › ');
+};
+
+// Base is the last copy both sides agreed on, or null when the record never synced
+export const mergeRecords = (type: SyncRecordType, base: any, local: any, remote: any): MergeResult => {
+  const [baseFields, localFields, remoteFields] = [base, local, remote].map(record => toMergeable(type, record || {}));
+  const conflicts: SyncFieldConflict[] = [];
+  const fields = mergeValue([], baseFields, localFields, remoteFields, conflicts) as Record<string, any>;
+
+  conflicts.forEach(conflict => {
+    conflict.label = labelFor(conflict.path, localFields, remoteFields);
+  });
+  return { merged: withMergeable(local, fields, type), conflicts };
+};
+
+export const conflictKey = (conflict: SyncFieldConflict): string => conflict.path.join('/');
+
+// Take the server's value for each conflict the user chose "theirs" on
+export const resolveConflicts = (
+  type: SyncRecordType,
+  merged: any,
+  remote: any,
+  conflicts: SyncFieldConflict[],
+  choices: Record<string, SyncChoice>
+): any => {
+  const fields = toMergeable(type, merged);
+  const remoteFields = toMergeable(type, remote);
+
+  conflicts.filter(conflict => choices[conflictKey(conflict)] === 'remote').forEach(conflict => {
+    const parents = conflict.path.slice(0, -1);
+    const last = conflict.path[conflict.path.length - 1];
+    const value = conflict.path.reduce<any>((node, segment) => node?.[segment], remoteFields);
+
+    let target = fields;
+    parents.forEach(segment => {
+      target[segment] = isPlainObject(target[segment]) ? { ...target[segment] } : {};
+      target = target[segment];
+    });
+    if (value === undefined) delete target[last];
+    else target[last] = value;
+  });
+
+  return withMergeable(merged, fields, type);
+};
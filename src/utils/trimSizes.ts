@@ -0,0 +1,179 @@
+/**
+ * Trim Size Catalogue
+ * Single source of truth for page geometry used by every publishing output
+ * and by the compliance checker. All measurements are in inches.
+ */
+
+export type TrimSizeId =
+  | '5x8'
+  | '5.25x8'
+  | '5.5x8.5'
+  | '6x9'
+  | '6.14x9.21'
+  | '7x10'
+  | '7.5x9.25'
+  | '8x10'
+  | '8.25x8.25'
+  | 'square-8.5'
+  | 'letter'
+  | 'square-6'
+  | 'a4'
+  | 'a5';
+
+export interface GutterRule {
+  // Highest interior page count this gutter applies to
+  maxPages: number;
+  gutter: number;
+}
+
+export interface MarginSet {
+  inner: number;
+  outer: number;
+  top: number;
+  bottom: number;
+}
+
+export interface TrimSize {
+  id: TrimSizeId;
+  name: string;
+  width: number;
+  height: number;
+  bleed: number;
+  // Minimum top/bottom/outside margin with bleed enabled
+  minMargin: number;
+  // Minimum top/bottom/outside margin for no-bleed interiors
+  minMarginNoBleed: number;
+  gutterRules: GutterRule[];
+  recommendedMargins: MarginSet;
+  kdpPaperback: boolean;
+}
+
+export interface PageGeometry {
+  trim: TrimSize;
+  width: number;
+  height: number;
+  bleed: number;
+  bleedWidth: number;
+  bleedHeight: number;
+  margins: MarginSet;
+  safeWidth: number;
+  safeHeight: number;
+}
+
+// KDP paperback inside-margin requirements by page count
+export const KDP_GUTTER_RULES: GutterRule[] = [
+  { maxPages: 150, gutter: 0.375 },
+  { maxPages: 300, gutter: 0.5 },
+  { maxPages: 500, gutter: 0.625 },
+  { maxPages: 700, gutter: 0.75 },
+  { maxPages: 828, gutter: 0.875 }
+];
+
+const createTrim = (
+  id: TrimSizeId,
+  name: string,
+  width: number,
+  height: number,
+  kdpPaperback: boolean
+): TrimSize => {
+  const compact = Math.min(width, height) <= 6;
+
+  return {
+    id,
+    name,
+    width,
+    height,
+    bleed: 0.125,
+    minMargin: 0.375,
+    minMarginNoBleed: 0.25,
+    gutterRules: KDP_GUTTER_RULES,
+    recommendedMargins: compact
+      ? { inner: 0.625, outer: 0.5, top: 0.5, bottom: 0.5 }
+      : { inner: 0.75, outer: 0.5, top: 0.75, bottom: 0.75 },
+    kdpPaperback
+  };
+};
+
+export const TRIM_SIZES: Record<TrimSizeId, TrimSize> = {
+  '5x8': createTrim('5x8', '5" × 8"', 5, 8, true),
+  '5.25x8': createTrim('5.25x8', '5.25" × 8"', 5.25, 8, true),
+  '5.5x8.5': createTrim('5.5x8.5', '5.5" × 8.5" (Digest)', 5.5, 8.5, true),
+  '6x9': createTrim('6x9', '6" × 9" (Trade)', 6, 9, true),
+  '6.14x9.21': createTrim('6.14x9.21', '6.14" × 9.21" (Royal)', 6.14, 9.21, true),
+  '7x10': createTrim('7x10', '7" × 10"', 7, 10, true),
+  '7.5x9.25': createTrim('7.5x9.25', '7.5" × 9.25"', 7.5, 9.25, true),
+  '8x10': createTrim('8x10', '8" × 10"', 8, 10, true),
+  '8.25x8.25': createTrim('8.25x8.25', '8.25" × 8.25" (Square)', 8.25, 8.25, true),
+  'square-8.5': createTrim('square-8.5', '8.5" × 8.5" (Square)', 8.5, 8.5, true),
+  letter: createTrim('letter', '8.5" × 11" (Letter)', 8.5, 11, true),
+  'square-6': createTrim('square-6', '6" × 6" (Small Square)', 6, 6, false),
+  a4: createTrim('a4', '8.27" × 11.69" (A4)', 8.27, 11.69, true),
+  a5: createTrim('a5', '5.83" × 8.27" (A5)', 5.83, 8.27, false)
+};
+
+export const DEFAULT_TRIM_SIZE: TrimSizeId = 'letter';
+
+export const isTrimSizeId = (value: string): value is TrimSizeId => value in TRIM_SIZES;
+
+export const getTrimSize = (id?: string): TrimSize => {
+  return id && isTrimSizeId(id) ? TRIM_SIZES[id] : TRIM_SIZES[DEFAULT_TRIM_SIZE];
+};
+
+export const formatTrimSize = (trim: TrimSize): string => `${trim.width}" x ${trim.height}"`;
+
+// Inside margin required for the given interior page count
+export const getRequiredGutter = (trim: TrimSize, pageCount: number, rules: GutterRule[] = trim.gutterRules): number => {
+  const rule = rules.find(r => pageCount <= r.maxPages);
+  return rule ? rule.gutter : rules[rules.length - 1].gutter;
+};
+
+// Odd page numbers sit on the right-hand side of a spread
+export const isRectoPage = (pageNumber: number): boolean => pageNumber % 2 === 1;
+
+export const getPageGeometry = (
+  trimId: string | undefined,
+  // bleed and gutterRules override the trim's defaults for a print platform
+  options: {
+    pageCount?: number;
+    includeBleed?: boolean;
+    margins?: Partial<MarginSet>;
+    bleed?: number;
+    gutterRules?: GutterRule[];
+  } = {}
+): PageGeometry => {
+  const trim = getTrimSize(trimId);
+  const bleed = options.includeBleed === false ? 0 : options.bleed ?? trim.bleed;
+  const minMargin = bleed > 0 ? trim.minMargin : trim.minMarginNoBleed;
+
+  const requested = { ...trim.recommendedMargins, ...options.margins };
+  const margins: MarginSet = {
+    inner: Math.max(requested.inner, getRequiredGutter(trim, options.pageCount || 0, options.gutterRules)),
+    outer: Math.max(requested.outer, minMargin),
+    top: Math.max(requested.top, minMargin),
+    bottom: Math.max(requested.bottom, minMargin)
+  };
+
+  return {
+    trim,
+    width: trim.width,
+    height: trim.height,
+    bleed,
+    bleedWidth: trim.width + bleed * 2,
+    bleedHeight: trim.height + bleed * 2,
+    margins,
+    safeWidth: trim.width - margins.inner - margins.outer,
+    safeHeight: trim.height - margins.top - margins.bottom
+  };
+};
+
+// Safe content box for a page, in PDF coordinates that include the bleed
+export const getSafeArea = (geometry: PageGeometry, pageNumber: number) => {
+  const left = isRectoPage(pageNumber) ? geometry.margins.inner : geometry.margins.outer;
+
+  return {
+    x: geometry.bleed + left,
+    y: geometry.bleed + geometry.margins.top,
+    width: geometry.safeWidth,
+    height: geometry.safeHeight
+  };
+};
@@ -0,0 +1,251 @@
+/**
+ * Typography Profiles
+ * Per-project type settings for story text - font, size, leading, spacing and
+ * alignment - applied the same way by the PDF, EPUB and Canva exporters.
+ * Custom fonts are user-supplied TrueType files embedded into each export.
+ */
+
+import type { jsPDF } from 'jspdf';
+import { TypographyProfile, TypographyPresetId, TextAlignment, EmbeddedFont } from '../types';
+import { readFileAsDataURL } from './helpers';
+
+export type FontWeight = 'normal' | 'bold' | 'italic';
+
+interface TextBlockOptions {
+  size?: number;
+  alignment?: TextAlignment;
+  weight?: FontWeight;
+}
+
+type PresetId = Exclude<TypographyPresetId, 'custom'>;
+
+export const TYPOGRAPHY_PRESETS: Record<PresetId, TypographyProfile> = {
+  classic: {
+    preset: 'classic',
+    fontFamily: 'helvetica',
+    fontSize: 12,
+    headingSize: 18,
+    lineHeight: 1.4,
+    letterSpacing: 0,
+    alignment: 'left'
+  },
+  'early-reader': {
+    preset: 'early-reader',
+    fontFamily: 'helvetica',
+    fontSize: 16,
+    headingSize: 22,
+    lineHeight: 1.6,
+    letterSpacing: 0.02,
+    alignment: 'left'
+  },
+  'picture-book': {
+    preset: 'picture-book',
+    fontFamily: 'times',
+    fontSize: 18,
+    headingSize: 26,
+    lineHeight: 1.5,
+    letterSpacing: 0,
+    alignment: 'center'
+  },
+  // British Dyslexia Association style guide: sans serif, generous leading and
+  // letter spacing, ragged-right text (justification makes uneven word gaps)
+  'dyslexia-friendly': {
+    preset: 'dyslexia-friendly',
+    fontFamily: 'helvetica',
+    fontSize: 14,
+    headingSize: 20,
+    lineHeight: 1.8,
+    letterSpacing: 0.08,
+    alignment: 'left'
+  }
+};
+
+export const TYPOGRAPHY_PRESET_LABELS: Record<TypographyPresetId, string> = {
+  classic: 'Classic (12pt sans)',
+  'early-reader': 'Early reader (16pt, roomy)',
+  'picture-book': 'Picture book (18pt serif, centred)',
+  'dyslexia-friendly': 'Dyslexia-friendly (14pt, wide spacing)',
+  custom: 'Custom'
+};
+
+export const FONT_FAMILY_LABELS: Record<TypographyProfile['fontFamily'], string> = {
+  helvetica: 'Sans serif (Helvetica)',
+  times: 'Serif (Times)',
+  custom: 'Uploaded font'
+};
+
+export const TEXT_ALIGNMENT_LABELS: Record<TextAlignment, string> = {
+  left: 'Left',
+  center: 'Centre',
+  right: 'Right',
+  justify: 'Justified'
+};
+
+export const DEFAULT_TYPOGRAPHY = TYPOGRAPHY_PRESETS.classic;
+
+// CSS stacks for the EPUB, previews and Canva, closest to the PDF's built-in fonts
+const CSS_FONT_STACKS: Record<'helvetica' | 'times', string> = {
+  helvetica: 'Helvetica, Arial, sans-serif',
+  times: '"Times New Roman", Times, serif'
+};
+
+// Fonts jsPDF can't embed: CFF-flavoured OpenType and web font wrappers
+const UNSUPPORTED_FONT_SIGNATURES: Record<string, string> = {
+  OTTO: 'OpenType fonts with PostScript (CFF) outlines cannot be embedded. Use the TrueType (.ttf) version of the font.',
+  wOFF: 'WOFF web fonts cannot be embedded. Use the .ttf or .otf file.',
+  wOF2: 'WOFF2 web fonts cannot be embedded. Use the .ttf or .otf file.'
+};
+
+// Fill in anything missing from older projects and drop an unusable custom font
+export const resolveTypography = (profile?: Partial<TypographyProfile>): TypographyProfile => {
+  const resolved = { ...DEFAULT_TYPOGRAPHY, ...profile };
+  if (resolved.fontFamily === 'custom' && !resolved.customFont) {
+    resolved.fontFamily = DEFAULT_TYPOGRAPHY.fontFamily;
+  }
+  return resolved;
+};
+
+// Presets keep an uploaded font so switching spacing doesn't lose it
+export const applyTypographyPreset = (profile: TypographyProfile, preset: PresetId): TypographyProfile => {
+  const next = { ...TYPOGRAPHY_PRESETS[preset], customFont: profile.customFont };
+  if (profile.fontFamily === 'custom' && profile.customFont) {
+    next.fontFamily = 'custom';
+  }
+  return next;
+};
+
+export const readFontFile = async (file: File): Promise<EmbeddedFont> => {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const signature = String.fromCharCode(...header);
+
+  if (UNSUPPORTED_FONT_SIGNATURES[signature]) {
+    throw new Error(UNSUPPORTED_FONT_SIGNATURES[signature]);
+  }
+
+  const isTrueType = (header[0] === 0 && header[1] === 1 && header[2] === 0 && header[3] === 0) || signature === 'true';
+  if (!isTrueType) {
+    throw new Error('Not a TrueType or OpenType font file');
+  }
+
+  const dataUrl = await readFileAsDataURL(file);
+  return {
+    name: file.name.replace(/\.(ttf|otf)$/i, ''),
+    fileName: file.name,
+    data: dataUrl.split(',')[1]
+  };
+};
+
+export const getFontFileExtension = (font: EmbeddedFont): 'ttf' | 'otf' => {
+  return /\.otf$/i.test(font.fileName) ? 'otf' : 'ttf';
+};
+
+// CSS family name an embedded font is declared under
+export const getCustomFontFamily = (font: EmbeddedFont): string => {
+  return `${font.name.replace(/[^a-zA-Z0-9 -]/g, '').trim() || 'Custom'} Embedded`;
+};
+
+export const getCSSFontStack = (profile: TypographyProfile): string => {
+  if (profile.fontFamily === 'custom' && profile.customFont) {
+    return `"${getCustomFontFamily(profile.customFont)}", ${CSS_FONT_STACKS.helvetica}`;
+  }
+  return CSS_FONT_STACKS[profile.fontFamily === 'times' ? 'times' : 'helvetica'];
+};
+
+export const getFontFaceCSS = (profile: TypographyProfile, url: string): string => {
+  if (profile.fontFamily !== 'custom' || !profile.customFont) return '';
+  const format = getFontFileExtension(profile.customFont) === 'otf' ? 'opentype' : 'truetype';
+  return `@font-face { font-family: "${getCustomFontFamily(profile.customFont)}"; src: url("${url}") format("${format}"); }`;
+};
+
+const loadedFontFaces = new Set<string>();
+
+// Make an uploaded font available to canvas rendering and on-screen previews
+export const loadFontFace = async (profile: TypographyProfile): Promise<void> => {
+  const font = profile.fontFamily === 'custom' ? profile.customFont : undefined;
+  if (!font || typeof document === 'undefined') return;
+
+  const family = getCustomFontFamily(font);
+  if (loadedFontFaces.has(family)) return;
+
+  const mimeType = getFontFileExtension(font) === 'otf' ? 'font/otf' : 'font/ttf';
+  const face = new FontFace(family, `url(data:${mimeType};base64,${font.data})`);
+  document.fonts.add(await face.load());
+  loadedFontFaces.add(family);
+};
+
+// Custom fonts register once per document; they only have one style, so
+// headings are distinguished by size rather than weight
+export const setPDFFont = (pdf: jsPDF, profile: TypographyProfile, weight: FontWeight = 'normal') => {
+  const font = profile.fontFamily === 'custom' ? profile.customFont : undefined;
+  if (!font) {
+    pdf.setFont(profile.fontFamily === 'times' ? 'times' : 'helvetica', weight);
+    return;
+  }
+
+  const family = getCustomFontFamily(font);
+  if (!pdf.getFontList()[family]) {
+    pdf.addFileToVFS(font.fileName, font.data);
+    pdf.addFont(font.fileName, family, 'normal');
+  }
+  pdf.setFont(family, 'normal');
+};
+
+// True when every piece of text in the PDF uses an embedded font
+export const embedsAllFonts = (profile?: TypographyProfile): boolean => {
+  return !!profile && profile.fontFamily === 'custom' && !!profile.customFont;
+};
+
+const wrapTextBlock = (
+  pdf: jsPDF,
+  text: string,
+  width: number,
+  profile: TypographyProfile,
+  options: TextBlockOptions
+): string[] => {
+  setPDFFont(pdf, profile, options.weight);
+  pdf.setFontSize(options.size || profile.fontSize);
+
+  // Line breaking ignores letter spacing, so wrap against a narrower measure
+  // (an average glyph is about half an em wide)
+  const wrapWidth = width * (0.5 / (0.5 + profile.letterSpacing));
+  return pdf.splitTextToSize(text, wrapWidth);
+};
+
+// Height drawTextBlock would use, in inches, without drawing anything
+export const measureTextBlock = (
+  pdf: jsPDF,
+  text: string,
+  width: number,
+  profile: TypographyProfile,
+  options: TextBlockOptions = {}
+): number => {
+  const size = options.size || profile.fontSize;
+  return (wrapTextBlock(pdf, text, width, profile, options).length * size * profile.lineHeight) / 72;
+};
+
+// Draw wrapped text with the profile's leading, spacing and alignment.
+// Returns the height used, in inches
+export const drawTextBlock = (
+  pdf: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  width: number,
+  profile: TypographyProfile,
+  options: TextBlockOptions = {}
+): number => {
+  const size = options.size || profile.fontSize;
+  const alignment = options.alignment || profile.alignment;
+  const charSpace = (profile.letterSpacing * size) / 72;
+  const lines = wrapTextBlock(pdf, text, width, profile, options);
+  const anchorX = alignment === 'center' ? x + width / 2 : alignment === 'right' ? x + width : x;
+
+  pdf.text(lines, anchorX, y, {
+    align: alignment,
+    maxWidth: alignment === 'justify' ? width : undefined,
+    charSpace: charSpace || undefined,
+    lineHeightFactor: profile.lineHeight
+  });
+
+  return (lines.length * size * profile.lineHeight) / 72;
+};
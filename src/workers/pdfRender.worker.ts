@@ -0,0 +1,53 @@
+/**
+ * PDF Render Worker
+ * Assembles PDFs off the main thread. Receives render jobs from the PDF worker
+ * client, posts page progress back and stops at the next page on cancel.
+ */
+
+import { advancedPublishing } from '../utils/advancedPublishing';
+import { interiorPDF } from '../utils/interiorPDF';
+import type { PDFRenderTask, PDFWorkerRequest, PDFWorkerResponse } from '../utils/pdfWorker';
+import { RenderProgress } from '../utils/renderProgress';
+
+const ctx = self as unknown as Worker;
+const controllers = new Map<number, AbortController>();
+
+const post = (message: PDFWorkerResponse) => ctx.postMessage(message);
+
+const render = (task: PDFRenderTask, onProgress: (progress: RenderProgress) => void, signal: AbortSignal) => {
+  return task.kind === 'interior'
+    ? interiorPDF.render(task.job, { onProgress, signal })
+    : advancedPublishing.generateKDPPDF(task.options, { onProgress, signal });
+};
+
+ctx.onmessage = async (event: MessageEvent<PDFWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    controllers.get(message.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(message.id, controller);
+
+  try {
+    const result = await render(
+      message.task,
+      (progress) => post({ type: 'progress', id: message.id, progress }),
+      controller.signal
+    );
+
+    // The client makes its own object URL; this one would leak in the worker
+    if (result.downloadUrl) URL.revokeObjectURL(result.downloadUrl);
+    post({ type: 'done', id: message.id, result: { ...result, downloadUrl: undefined } });
+  } catch (error) {
+    post({
+      type: 'done',
+      id: message.id,
+      result: { success: false, error: error instanceof Error ? error.message : 'PDF rendering failed' }
+    });
+  } finally {
+    controllers.delete(message.id);
+  }
+};
@@ -11,5 +11,15 @@ export default defineConfig({
   build: {
     outDir: 'dist',
     sourcemap: true
+  },
+  worker: {
+    // The PDF worker lazy-loads jsPDF, which needs code-splitting
+    format: 'es',
+    rollupOptions: {
+      output: {
+        // Keep worker chunks from clobbering same-named main bundle chunks
+        chunkFileNames: 'assets/worker-[name]-[hash].js'
+      }
+    }
   }
 })